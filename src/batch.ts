@@ -1,9 +1,12 @@
+import { throwIfAborted } from "./errors.js"
+
 /** Maximum concurrent daemon socket connections to avoid EPIPE from socket exhaustion. */
 export const MAX_CONCURRENT_REQUESTS = 10
 
 /**
  * Execute an async function for each item with bounded concurrency.
  * Processes items in batches to avoid overwhelming the daemon socket.
+ * If the signal fires, no further batches are started.
  */
 export async function batched<T, R>(
   /** Items to process. */
@@ -12,9 +15,12 @@ export async function batched<T, R>(
   concurrency: number,
   /** Async function to apply to each item. */
   fn: (item: T) => Promise<R>,
+  /** Optional cancellation signal. */
+  signal?: AbortSignal,
 ): Promise<R[]> {
   const results: R[] = []
   for (let i = 0; i < items.length; i += concurrency) {
+    throwIfAborted(signal)
     const batch = items.slice(i, i + concurrency)
     const batchResults = await Promise.all(batch.map(fn))
     results.push(...batchResults)
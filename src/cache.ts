@@ -0,0 +1,302 @@
+import { batched, MAX_CONCURRENT_REQUESTS } from "./batch.js"
+import { NotFoundError } from "./errors.js"
+import { matchesListFilter } from "./filters.js"
+import { compareIssues, normalizeSort } from "./sort.js"
+import type { BeadsClient } from "./client.js"
+import type { ChangeSet, DepType, Issue, LinkedIssue, ListFilter } from "./types.js"
+
+/** The daemon's `list` limit when the filter doesn't set one. */
+const DEFAULT_LIST_LIMIT = 50
+
+/**
+ * Normalized, live cache of issues on top of a BeadsClient. Each issue is kept
+ * once by ID, whether it was fetched in full or only seen as another issue's
+ * dependency or dependent, and dependencies are resolved against it on read, so
+ * an edit shows up everywhere the issue appears. Live queries (`watch`) are
+ * loaded with `list`; afterwards, each change reported by the client's
+ * `onChange` re-fetches only the issues it names and re-evaluates query
+ * membership locally. Changes the client can't itemize reload every query.
+ */
+export class IssueCache {
+  private client: BeadsClient
+  private entries: Map<string, CacheEntry> = new Map()
+  private queries: LiveQuery[] = []
+  private errorCallbacks: Array<(error: unknown) => void> = []
+  private pending: Promise<void> = Promise.resolve()
+  private stale = false
+  private changeUnsubscribe: () => void
+
+  constructor(
+    /** Client to read through and take change notifications from */
+    client: BeadsClient,
+  ) {
+    this.client = client
+    this.changeUnsubscribe = client.onChange(changes => this.enqueue(() => this.apply(changes)))
+  }
+
+  /** The cached issue with the given ID, if it has been fetched in full. */
+  get(
+    /** Issue ID */
+    id: string,
+  ): Issue | undefined {
+    const entry = this.entries.get(id)
+    return entry?.dependencies ? this.denormalize(entry) : undefined
+  }
+
+  /**
+   * Subscribe to a live query. The callback is invoked with the matching issues
+   * once they're loaded, and again whenever the result changes. Results follow the
+   * filter's `sort`; without one, they're in the daemon's order at load time, with
+   * issues that start matching later added at the end. Returns an unsubscribe function.
+   */
+  watch(
+    /** List filter, as for `BeadsClient.list` */
+    filter: ListFilter,
+    /** Callback invoked with the query's current result */
+    callback: (issues: Issue[]) => void,
+  ): () => void {
+    const query: LiveQuery = { filter, callback, ids: [], truncated: false, result: null }
+    this.queries.push(query)
+    this.enqueue(() => this.load(query))
+    return () => {
+      const idx = this.queries.indexOf(query)
+      if (idx >= 0) this.queries.splice(idx, 1)
+    }
+  }
+
+  /** Register a callback for failed loads and updates. Returns an unsubscribe function. */
+  onError(
+    /** Callback invoked with the error when loading or updating fails */
+    callback: (error: unknown) => void,
+  ): () => void {
+    this.errorCallbacks.push(callback)
+    return () => {
+      const idx = this.errorCallbacks.indexOf(callback)
+      if (idx >= 0) this.errorCallbacks.splice(idx, 1)
+    }
+  }
+
+  /** Resolves once every load and update started so far has been applied. */
+  idle(): Promise<void> {
+    return this.pending
+  }
+
+  /** Stop following changes and drop every query and cached issue. */
+  close(): void {
+    this.changeUnsubscribe()
+    this.queries = []
+    this.entries.clear()
+  }
+
+  /** Run loads and updates one at a time, in order. */
+  private enqueue(
+    /** Work to run */
+    task: () => Promise<void>,
+  ): void {
+    this.pending = this.pending.then(task).catch(error => {
+      // Whatever the failed task would have applied is missing; reload on the next change
+      this.stale = true
+      for (const cb of this.errorCallbacks) cb(error)
+    })
+  }
+
+  /** Load a query's result and notify its subscriber. */
+  private async load(
+    /** Query to load */
+    query: LiveQuery,
+  ): Promise<void> {
+    const issues = await this.client.list(query.filter)
+    for (const issue of issues) this.upsert(issue)
+    this.setResult(
+      query,
+      issues.map(i => i.id),
+    )
+    this.notify(query)
+  }
+
+  /** Patch the cache with a change reported by the client. */
+  private async apply(
+    /** What changed */
+    changes: ChangeSet,
+  ): Promise<void> {
+    if (changes.refetch || this.stale) return this.reload()
+
+    const affected = [...new Set([...changes.created, ...changes.updated])]
+    const fetched = await batched(affected, MAX_CONCURRENT_REQUESTS, id =>
+      this.client.show(id).catch(err => {
+        if (err instanceof NotFoundError) return null
+        throw err
+      }),
+    )
+    for (const id of changes.deleted) this.entries.delete(id)
+    affected.forEach((id, i) => (fetched[i] ? this.upsert(fetched[i]) : this.entries.delete(id)))
+
+    for (const query of [...this.queries]) {
+      const ids = query.ids.filter(id => this.matches(id, query.filter))
+      for (const id of affected) {
+        if (!ids.includes(id) && this.matches(id, query.filter)) ids.push(id)
+      }
+      // Issues past the daemon's limit were never loaded, so one may now belong in the result
+      if (query.truncated && ids.length < query.ids.length) await this.load(query)
+      else {
+        this.setResult(query, ids)
+        this.notify(query)
+      }
+    }
+  }
+
+  /** Reload every query from scratch. */
+  private async reload(): Promise<void> {
+    const queries = [...this.queries]
+    const results = await Promise.all(queries.map(q => this.client.list(q.filter)))
+    this.stale = false
+    this.entries.clear()
+    for (const issues of results) for (const issue of issues) this.upsert(issue)
+    queries.forEach((query, i) =>
+      this.setResult(
+        query,
+        results[i].map(issue => issue.id),
+      ),
+    )
+    for (const query of queries) this.notify(query)
+  }
+
+  /** Record a query's result, sorted and capped at its limit. */
+  private setResult(
+    /** Query */
+    query: LiveQuery,
+    /** IDs of the matching issues */
+    ids: string[],
+  ): void {
+    if (query.filter.sort !== undefined) {
+      const compare = compareIssues<IssueFields>(normalizeSort(query.filter.sort, "list"))
+      ids.sort((a, b) => compare(this.entries.get(a)!.fields, this.entries.get(b)!.fields))
+    }
+    const limit = query.filter.limit ?? DEFAULT_LIST_LIMIT
+    query.truncated = ids.length >= limit
+    query.ids = ids.slice(0, limit)
+  }
+
+  /** Call a query's subscriber if its result differs from what it last received. */
+  private notify(
+    /** Query */
+    query: LiveQuery,
+  ): void {
+    if (!this.queries.includes(query)) return
+    const issues = query.ids.map(id => this.get(id)).filter((i): i is Issue => i !== undefined)
+    const result = JSON.stringify(issues)
+    if (result === query.result) return
+    query.result = result
+    query.callback(issues)
+  }
+
+  /** Whether a fully fetched issue matches a filter. */
+  private matches(
+    /** Issue ID */
+    id: string,
+    /** List filter */
+    filter: ListFilter,
+  ): boolean {
+    const entry = this.entries.get(id)
+    return Boolean(entry?.dependencies) && matchesListFilter(entry!.fields, filter)
+  }
+
+  /** Store a full issue, and the linked issues it embeds. */
+  private upsert(
+    /** Issue fetched from the client */
+    issue: Issue,
+  ): void {
+    const { dependencies = null, dependents = null, ...fields } = issue
+    const link = ({ id, dependency_type }: LinkedIssue): IssueLink => ({ id, dependency_type })
+    // Responses may omit the links, leaving the issue as if only seen embedded
+    const known = dependencies !== null && dependents !== null
+    this.entries.set(issue.id, {
+      fields,
+      dependencies: known ? dependencies.map(link) : null,
+      dependents: known ? dependents.map(link) : null,
+    })
+    for (const linked of [...(dependencies ?? []), ...(dependents ?? [])]) this.merge(linked)
+  }
+
+  /** Update an issue's fields from a copy embedded in another issue, unless that copy is older. */
+  private merge(
+    /** Linked issue */
+    linked: LinkedIssue,
+  ): void {
+    const { dependency_type: _type, ...fields } = linked
+    const entry = this.entries.get(linked.id)
+    if (!entry) {
+      this.entries.set(linked.id, { fields, dependencies: null, dependents: null })
+    } else if (fields.updated_at >= entry.fields.updated_at) {
+      entry.fields = { ...entry.fields, ...fields }
+    }
+  }
+
+  /** Build an issue from its entry, resolving its links against the cache. */
+  private denormalize(
+    /** Cache entry with its links known */
+    entry: CacheEntry,
+  ): Issue {
+    const resolve = (links: IssueLink[]): LinkedIssue[] =>
+      links.flatMap(({ id, dependency_type }) => {
+        const target = this.entries.get(id)?.fields
+        if (!target) return []
+        return [
+          {
+            id,
+            title: target.title,
+            description: target.description,
+            status: target.status,
+            priority: target.priority,
+            issue_type: target.issue_type,
+            assignee: target.assignee,
+            labels: target.labels,
+            created_at: target.created_at,
+            updated_at: target.updated_at,
+            closed_at: target.closed_at,
+            due_at: target.due_at,
+            defer_until: target.defer_until,
+            dependency_type,
+            dependency_count: target.dependency_count,
+            dependent_count: target.dependent_count,
+          },
+        ]
+      })
+    return {
+      ...entry.fields,
+      dependencies: resolve(entry.dependencies!),
+      dependents: resolve(entry.dependents!),
+    }
+  }
+}
+
+/** An issue's own fields, without its dependencies and dependents. */
+type IssueFields = Omit<Issue, "dependencies" | "dependents">
+
+/** A dependency or dependent, by ID. */
+interface IssueLink {
+  id: string
+  dependency_type?: DepType
+}
+
+/** One issue in the cache. */
+interface CacheEntry {
+  /** The issue's fields, from its own record or a copy embedded in another issue */
+  fields: IssueFields
+  /** Its dependencies, or null if it has only been seen embedded in another issue */
+  dependencies: IssueLink[] | null
+  /** Its dependents, or null if it has only been seen embedded in another issue */
+  dependents: IssueLink[] | null
+}
+
+/** A live query registered with `IssueCache.watch`. */
+interface LiveQuery {
+  filter: ListFilter
+  callback: (issues: Issue[]) => void
+  /** IDs of the issues in the result, in order */
+  ids: string[]
+  /** Whether the result may have been cut off by the limit */
+  truncated: boolean
+  /** The result last delivered, serialized for comparison */
+  result: string | null
+}
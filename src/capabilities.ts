@@ -0,0 +1,188 @@
+import { UnsupportedOperationError } from "./errors.js"
+
+/** Oldest daemon version the SDK is tested against. */
+export const MIN_DAEMON_VERSION = "0.20.0"
+
+/** First daemon version the SDK does not support (exclusive upper bound). */
+export const MAX_DAEMON_VERSION = "2.0.0"
+
+/** Every operation the SDK knows how to send. */
+export const KNOWN_OPERATIONS: readonly string[] = [
+  "ping",
+  "health",
+  "list",
+  "show",
+  "ready",
+  "blocked",
+  "stats",
+  "create",
+  "update",
+  "close",
+  "delete",
+  "comment_add",
+  "comment_list",
+  "label_add",
+  "label_remove",
+  "label_list",
+  "label_list_all",
+  "dep_add",
+  "dep_remove",
+  "info",
+  "get_mutations",
+]
+
+/** Operations the JSONL fallback answers without a daemon. */
+const JSONL_READ_OPERATIONS = [
+  "ping",
+  "health",
+  "list",
+  "show",
+  "ready",
+  "blocked",
+  "stats",
+  "label_list",
+  "label_list_all",
+]
+
+/** Operations the JSONL fallback supports when writes are enabled. */
+const JSONL_WRITE_OPERATIONS = [
+  "create",
+  "update",
+  "close",
+  "delete",
+  "label_add",
+  "label_remove",
+  "dep_add",
+  "dep_remove",
+]
+
+/**
+ * What the connected data source can do: its mode, the daemon version (when
+ * known), and the set of supported operations. A daemon is assumed to support
+ * every known operation until it rejects one as unknown.
+ */
+export class Capabilities {
+  /** Where data comes from: the daemon, the JSONL fallback, or a custom transport */
+  readonly mode: "daemon" | "jsonl" | "custom"
+  /** Version reported by the daemon's `ping`, or null when unknown */
+  readonly version: string | null
+  /** Whether `list`, `ready` and `blocked` honor the `offset` and `after` page window */
+  readonly pageWindows: boolean
+  private supported: Set<string>
+
+  private constructor(
+    /** Data source mode */
+    mode: Capabilities["mode"],
+    /** Reported version */
+    version: string | null,
+    /** Supported operations */
+    operations: Iterable<string>,
+    /** Whether queries honor the page window */
+    pageWindows: boolean,
+  ) {
+    this.mode = mode
+    this.version = version
+    this.supported = new Set(operations)
+    this.pageWindows = pageWindows
+  }
+
+  /** Capabilities of a daemon reporting the given version, before any operation is rejected. */
+  static forDaemon(
+    /** Version from `ping` */
+    version: string | null,
+  ): Capabilities {
+    return new Capabilities("daemon", version, KNOWN_OPERATIONS, false)
+  }
+
+  /** Capabilities of the JSONL fallback. */
+  static forJsonl(
+    /** Whether writes are enabled */
+    writable: boolean,
+    /** Further operations accepted, e.g. writes queued for the daemon */
+    extra: Iterable<string> = [],
+  ): Capabilities {
+    const operations =
+      writable ? [...JSONL_READ_OPERATIONS, ...JSONL_WRITE_OPERATIONS] : JSONL_READ_OPERATIONS
+    return new Capabilities("jsonl", null, [...operations, ...extra], true)
+  }
+
+  /**
+   * Capabilities of a caller-supplied transport, which is assumed to support every
+   * operation, but not the page window unless it's known to.
+   */
+  static forCustomTransport(
+    /** Whether queries honor the page window (default: false) */
+    pageWindows: boolean = false,
+  ): Capabilities {
+    return new Capabilities("custom", null, KNOWN_OPERATIONS, pageWindows)
+  }
+
+  /** Operations the data source supports */
+  get operations(): ReadonlySet<string> {
+    return this.supported
+  }
+
+  /** Whether the data source supports an operation. Operations the SDK doesn't know are assumed supported. */
+  supports(
+    /** Operation name */
+    operation: string,
+  ): boolean {
+    return this.supported.has(operation) || !KNOWN_OPERATIONS.includes(operation)
+  }
+
+  /** Record that the data source rejected an operation as unknown, so it isn't sent again. */
+  markUnsupported(
+    /** Operation name */
+    operation: string,
+  ): void {
+    this.supported.delete(operation)
+  }
+
+  /** Throw an UnsupportedOperationError if the data source doesn't support an operation. */
+  require(
+    /** Operation name */
+    operation: string,
+  ): void {
+    if (this.supports(operation)) return
+    const source =
+      this.mode !== "daemon" ? `${this.mode} mode`
+      : this.version ? `daemon v${this.version}`
+      : "the daemon"
+    throw new UnsupportedOperationError(`Operation "${operation}" is unsupported by ${source}`, {
+      operation,
+    })
+  }
+}
+
+/** Whether a daemon version is within the supported range. Unrecognized versions count as supported. */
+export function isSupportedVersion(
+  /** Version from `ping` */
+  version: string,
+): boolean {
+  const parsed = parseVersion(version)
+  if (!parsed) return true
+  return (
+    compareVersions(parsed, parseVersion(MIN_DAEMON_VERSION)!) >= 0 &&
+    compareVersions(parsed, parseVersion(MAX_DAEMON_VERSION)!) < 0
+  )
+}
+
+/** Parse a `major.minor.patch` version (with optional `v` prefix and suffix), or null. */
+export function parseVersion(
+  /** Version string, e.g. "0.30.2" or "v1.0.0-rc1" */
+  version: string,
+): [number, number, number] | null {
+  const match = /^v?(\d+)\.(\d+)(?:\.(\d+))?/.exec(version.trim())
+  if (!match) return null
+  return [Number(match[1]), Number(match[2]), Number(match[3] ?? 0)]
+}
+
+/** Compare two parsed versions: negative if `a` is older, positive if newer, 0 if equal. */
+export function compareVersions(
+  /** First version */
+  a: [number, number, number],
+  /** Second version */
+  b: [number, number, number],
+): number {
+  return a[0] - b[0] || a[1] - b[1] || a[2] - b[2]
+}
@@ -0,0 +1,35 @@
+import type { ChangeSet, MutationEvent } from "./types.js"
+
+/** Build a change set from the daemon's mutation events. */
+export function changeSetFromMutations(
+  /** Mutation events, oldest first */
+  mutations: MutationEvent[],
+): ChangeSet {
+  const created = new Set<string>()
+  const updated = new Set<string>()
+  const deleted = new Set<string>()
+  for (const { Type, IssueID } of mutations) {
+    if (Type === "create") {
+      created.add(IssueID)
+      deleted.delete(IssueID)
+    } else if (Type === "delete") {
+      // Created and deleted within the same batch: the consumer never saw it
+      if (!created.delete(IssueID)) deleted.add(IssueID)
+      updated.delete(IssueID)
+    } else if (!created.has(IssueID)) {
+      updated.add(IssueID)
+    }
+  }
+  return {
+    created: [...created],
+    updated: [...updated],
+    deleted: [...deleted],
+    mutations,
+    refetch: false,
+  }
+}
+
+/** A change set for changes the source can't itemize: consumers should refetch everything. */
+export function refetchChangeSet(): ChangeSet {
+  return { created: [], updated: [], deleted: [], mutations: [], refetch: true }
+}
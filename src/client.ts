@@ -1,10 +1,51 @@
+import { join } from "node:path"
 import { DaemonTransport, type DaemonTransportOptions } from "./transport/daemon.js"
 import { JsonlTransport } from "./transport/jsonl.js"
+import { MemoryTransport } from "./transport/memory.js"
+import {
+  OfflineQueue,
+  OfflineTransport,
+  OFFLINE_OPERATIONS,
+  type OfflineConflict,
+  type OfflineEntry,
+  type OfflineReplayResult,
+} from "./transport/offline.js"
+import { findBeadsDir } from "./transport/discovery.js"
 import { ChangePoller } from "./poller.js"
-import { MutationPoller, type WatchMutationsOptions } from "./mutation-poller.js"
+import { refetchChangeSet } from "./changes.js"
+import { DaemonMonitor, type DaemonStatus } from "./daemon-monitor.js"
+import {
+  MutationPoller,
+  mutationStream,
+  type MutationStreamOptions,
+  type WatchMutationsOptions,
+} from "./mutation-poller.js"
 import { batched, MAX_CONCURRENT_REQUESTS } from "./batch.js"
+import { checkDateFilters } from "./filters.js"
+import { compareIssues, normalizeSort } from "./sort.js"
+import { fetchPage, walkPages, type Page, type PageOptions, type PageWindow } from "./pagination.js"
+import {
+  ConnectionRefusedError,
+  DaemonValidationError,
+  isUnknownOperationError,
+  NotConnectedError,
+  ReadOnlyError,
+  UnsupportedVersionError,
+} from "./errors.js"
+import {
+  Capabilities,
+  isSupportedVersion,
+  MAX_DAEMON_VERSION,
+  MIN_DAEMON_VERSION,
+} from "./capabilities.js"
+import { isReadOperation, type RetryPolicy } from "./retry.js"
+import { timingMiddleware, withMiddleware, type Middleware } from "./middleware.js"
+import { TypedEmitter, type BeadsClientEvents, type ClientErrorEvent } from "./events.js"
+import { validationMiddleware } from "./validate.js"
 import type {
   Transport,
+  ConnectionState,
+  ChangeSet,
   Issue,
   BlockedIssue,
   Stats,
@@ -20,20 +61,38 @@ import type {
   DepResult,
   Info,
   MutationEvent,
+  RequestOptions,
+  Operation,
+  OperationArgs,
+  OperationResult,
 } from "./types.js"
 
+/** Results `list` and `ready` return when no `limit` is given, as in `bd`. */
+const DEFAULT_LIMITS = { list: 50, ready: 10 }
+
 /**
  * High-level client for the beads issue tracker.
- * Connects to the daemon via Unix socket, with JSONL fallback for reads.
+ * Connects to the daemon via Unix socket, with JSONL fallback for reads, and
+ * switches between the two as the daemon goes away and comes back.
  */
 export class BeadsClient {
   private daemon: DaemonTransport | null = null
   private jsonl: JsonlTransport | null = null
   private transport: Transport | null = null
   private poller: ChangePoller | null = null
-  private changeCallbacks: Array<() => void> = []
+  private changeCallbacks: Array<(changes: ChangeSet) => void> = []
   private jsonlUnsubscribe: (() => void) | null = null
+  private monitor: DaemonMonitor | null = null
+  private offlineQueue: OfflineQueue | null = null
+  private offlineUnsubscribe: (() => void) | null = null
+  private replaying: Promise<OfflineReplayResult> | null = null
+  /** Transport switch in progress, if any */
+  private switching: Promise<void> = Promise.resolve()
+  private state: ConnectionState = "disconnected"
+  private events: TypedEmitter<BeadsClientEvents> = new TypedEmitter()
+  private mutationPoller: MutationPoller | null = null
   private connected = false
+  private negotiated: Capabilities | null = null
   private workspaceRoot: string | null = null
   private options: BeadsClientOptions
 
@@ -46,63 +105,190 @@ export class BeadsClient {
 
   /**
    * Connect to the daemon at the given workspace root.
-   * Tries the daemon first; falls back to JSONL for read-only access.
+   * Tries the daemon first; falls back to JSONL (read-only unless `no-db` mode or
+   * `jsonlWrites` allows writes). Afterwards, the client keeps checking the daemon
+   * and switches over whenever it goes away or comes back (see `monitorInterval`).
+   * If a `transport` was given in the options, it is used as-is instead.
    * Idempotent: cleans up previous connections before reconnecting.
    */
   async connect(
     /** Path to the workspace root (directory containing or above `.beads/`) */
-    workspaceRoot: string,
+    workspaceRoot: string = process.cwd(),
   ): Promise<void> {
     // Clean up any previous connection to prevent leaked pollers/watchers
     this.cleanupResources()
+    this.connected = false
 
     this.workspaceRoot = workspaceRoot
 
-    // Try daemon first
-    const daemon = new DaemonTransport(workspaceRoot, {
-      requestTimeout: this.options.requestTimeout,
-      actor: this.options.actor,
-    })
-
-    try {
-      await daemon.send("ping", {})
-      this.daemon = daemon
-      this.transport = daemon
+    if (this.options.transport) {
+      this.transport = this.wrap(this.options.transport)
+      this.negotiated = Capabilities.forCustomTransport(
+        this.options.transport instanceof MemoryTransport,
+      )
       this.connected = true
 
-      // Start change polling
-      this.poller = new ChangePoller(daemon)
-      this.poller.onChange(() => this.notifyChange())
-      this.poller.start(this.options.pollInterval ?? 2000)
+      this.startPolling(this.options.transport)
+      this.setState("daemon")
       return
+    }
+
+    if (this.options.offlineWrites) {
+      const beadsDir = findBeadsDir(workspaceRoot)
+      this.offlineQueue = beadsDir ? new OfflineQueue(join(beadsDir, "offline-queue.jsonl")) : null
+    }
+
+    // Try daemon first
+    const daemon = this.createDaemonTransport()
+    // Older daemons may not report a version
+    let pong: Partial<OperationResult<"ping">> | null = null
+    try {
+      pong = (await daemon.send("ping", {})) ?? {}
     } catch {
       // Daemon not available; try JSONL fallback
     }
 
-    // Fall back to JSONL
-    const jsonl = new JsonlTransport(workspaceRoot)
-    const loaded = jsonl.load()
-    if (!loaded) {
-      throw new Error(
+    if (pong) {
+      const version = typeof pong.version === "string" && pong.version ? pong.version : null
+      try {
+        this.checkVersion(version)
+      } catch (err) {
+        daemon.close()
+        throw err
+      }
+      this.useDaemon(daemon, version)
+    } else if (!(await this.useFallback())) {
+      throw new ConnectionRefusedError(
         "Could not connect to daemon or find JSONL file. " +
           "Make sure the beads daemon is running or .beads/issues.jsonl exists.",
       )
     }
-
-    this.jsonl = jsonl
-    this.transport = jsonl
     this.connected = true
 
-    // Watch JSONL for changes
-    jsonl.startWatching()
-    this.jsonlUnsubscribe = jsonl.onChange(() => this.notifyChange())
+    // Watch for the daemon going away or coming back
+    const monitorInterval = this.options.monitorInterval ?? 5000
+    if (monitorInterval > 0) {
+      this.monitor = new DaemonMonitor(workspaceRoot, this.daemon !== null, {
+        requestTimeout: this.options.requestTimeout,
+        actor: this.options.actor,
+      })
+      this.monitor.onChange(status => this.switchTransport(status))
+      this.monitor.start(monitorInterval)
+    }
   }
 
   /** Disconnect and clean up all resources. */
   async disconnect(): Promise<void> {
     this.cleanupResources()
     this.connected = false
+    this.setState("disconnected")
     this.changeCallbacks = []
+    this.events.clear()
+  }
+
+  /**
+   * What the connected data source supports, negotiated on `connect()`: the mode,
+   * the daemon version, and the available operations. Null when not connected.
+   */
+  get capabilities(): Capabilities | null {
+    return this.negotiated
+  }
+
+  /** Which data source the client is currently using. A custom `transport` counts as `daemon`. */
+  get connectionState(): ConnectionState {
+    return this.state
+  }
+
+  /**
+   * Subscribe to connection state changes: `daemon` when connected to (or reconnected
+   * to) the daemon, `fallback` when reading `issues.jsonl` instead, and `disconnected`.
+   * Returns an unsubscribe function.
+   */
+  onConnectionStateChange(
+    /** Callback invoked with the new state */
+    callback: (state: ConnectionState) => void,
+  ): () => void {
+    const handler = ({ state }: { state: ConnectionState }) => callback(state)
+    const unsubscribers = [
+      this.on("connected", handler),
+      this.on("fallback", handler),
+      this.on("disconnected", handler),
+    ]
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe())
+  }
+
+  /**
+   * Subscribe to a client event: connection changes (`connected`, `fallback`,
+   * `disconnected`), data changes (`change`), daemon mutations (`mutation`, polled
+   * only while there are handlers), background failures (`error`) and request
+   * timings (`request`). Like `onChange` subscriptions, handlers are dropped by
+   * `disconnect()`. Returns an unsubscribe function.
+   */
+  on<E extends keyof BeadsClientEvents>(
+    /** Event name */
+    event: E,
+    /** Handler for the event */
+    handler: BeadsClientEvents[E],
+  ): () => void {
+    this.events.on(event, handler)
+    if (event === "mutation") this.syncMutationPoller()
+    return () => this.off(event, handler)
+  }
+
+  /** Subscribe to the next occurrence of a client event. Returns an unsubscribe function. */
+  once<E extends keyof BeadsClientEvents>(
+    /** Event name */
+    event: E,
+    /** Handler for the event */
+    handler: BeadsClientEvents[E],
+  ): () => void {
+    const unsubscribe = this.events.once(event, handler)
+    if (event === "mutation") this.syncMutationPoller()
+    return () => {
+      unsubscribe()
+      if (event === "mutation") this.syncMutationPoller()
+    }
+  }
+
+  /** Remove a handler added with `on()`. */
+  off<E extends keyof BeadsClientEvents>(
+    /** Event name */
+    event: E,
+    /** Handler to remove */
+    handler: BeadsClientEvents[E],
+  ): void {
+    this.events.off(event, handler)
+    if (event === "mutation") this.syncMutationPoller()
+  }
+
+  /** Writes queued while offline and not yet replayed to the daemon, oldest first. */
+  get queuedWrites(): readonly OfflineEntry[] {
+    return this.offlineQueue?.entries ?? []
+  }
+
+  /**
+   * Replay writes queued while offline to the daemon now, in order. This happens
+   * automatically whenever the client connects or reconnects to the daemon; conflicts
+   * are reported through `onConflict` as well as in the result. Resolves with nothing
+   * replayed when not connected to the daemon.
+   */
+  async replayQueuedWrites(): Promise<OfflineReplayResult> {
+    if (this.replaying) return this.replaying
+    const queue = this.offlineQueue
+    const transport = this.transport
+    if (!queue || !this.daemon || !transport) {
+      return { replayed: 0, conflicts: [], remaining: queue?.size ?? 0, ids: {} }
+    }
+
+    this.replaying = queue.replay(transport, this.options.onConflict)
+    try {
+      const result = await this.replaying
+      // Issues created offline now have different IDs
+      if (result.replayed > 0) this.notifyChange(refetchChangeSet())
+      return result
+    } finally {
+      this.replaying = null
+    }
   }
 
   /** Check if the client is connected. */
@@ -111,12 +297,14 @@ export class BeadsClient {
   }
 
   /**
-   * Subscribe to data changes (driven by polling + JSONL file watching).
-   * Returns an unsubscribe function.
+   * Subscribe to data changes. The callback receives the IDs of the issues created,
+   * updated and deleted: from the daemon's `get_mutations` when it supports it (or from
+   * comparing `stats`, with `refetch` set, when it doesn't), and from diffing
+   * `issues.jsonl` on the fallback. Returns an unsubscribe function.
    */
   onChange(
-    /** Callback invoked when data changes */
-    callback: () => void,
+    /** Callback invoked with what changed */
+    callback: (changes: ChangeSet) => void,
   ): () => void {
     this.changeCallbacks.push(callback)
     return () => {
@@ -131,83 +319,239 @@ export class BeadsClient {
   async list(
     /** Filter options */
     filter: ListFilter = {},
+    /** Request options */
+    options?: RequestOptions,
   ): Promise<Issue[]> {
-    return (await this.send("list", { ...filter })) as Issue[]
+    checkDateFilters(filter, "list")
+    if (this.daemon && filter.sort !== undefined) {
+      return this.sortOnDaemon("list", filter, DEFAULT_LIMITS.list, options)
+    }
+    return this.send("list", { ...filter }, options)
   }
 
   /** Show a single issue by ID (with full dependencies/dependents). */
   async show(
     /** Issue ID */
     id: string,
+    /** Request options */
+    options?: RequestOptions,
   ): Promise<Issue> {
-    return (await this.send("show", { id })) as Issue
+    return this.send("show", { id }, options)
   }
 
-  /** Show details for multiple issues, with bounded concurrency. */
+  /**
+   * Show details for multiple issues, with bounded concurrency.
+   * Aborting the signal cancels in-flight requests and stops scheduling further batches.
+   */
   async showMany(
     /** Issue IDs */
     ids: string[],
+    /** Request options */
+    options?: RequestOptions,
   ): Promise<Issue[]> {
     this.requireDaemon("show (batched)")
-    return batched(ids, MAX_CONCURRENT_REQUESTS, id => this.show(id))
+    return batched(ids, MAX_CONCURRENT_REQUESTS, id => this.show(id, options), options?.signal)
   }
 
   /** Show ready work (open issues with no blockers). */
   async ready(
     /** Filter options */
     filter: ReadyFilter = {},
+    /** Request options */
+    options?: RequestOptions,
   ): Promise<Issue[]> {
-    return (await this.send("ready", { ...filter })) as Issue[]
+    if (this.daemon && filter.sort !== undefined) {
+      return this.sortOnDaemon("ready", filter, DEFAULT_LIMITS.ready, options)
+    }
+    return this.send("ready", { ...filter }, options)
   }
 
   /** Show blocked issues. */
   async blocked(
     /** Filter options */
     filter: BlockedFilter = {},
+    /** Request options */
+    options?: RequestOptions,
   ): Promise<BlockedIssue[]> {
-    return (await this.send("blocked", { ...filter })) as BlockedIssue[]
+    if (this.daemon && filter.sort !== undefined) {
+      return this.sortOnDaemon("blocked", filter, Infinity, options)
+    }
+    return this.send("blocked", { ...filter }, options)
+  }
+
+  /**
+   * Fetch one page of issues. Pass the previous page's `nextCursor` to get the next
+   * one; pages stay consistent when issues ahead of the cursor change in between.
+   * Where the data source honors the page window (see `Capabilities.pageWindows`),
+   * each request asks only for that page; otherwise (e.g. the daemon) it asks for
+   * the results up to the end of the page, and the page is cut from those.
+   */
+  async listPage(
+    /** Filter options */
+    filter: Omit<ListFilter, keyof PageWindow> = {},
+    /** Page size and cursor */
+    page?: PageOptions,
+    /** Request options */
+    options?: RequestOptions,
+  ): Promise<Page<Issue>> {
+    this.rejectPagedSort("list", filter)
+    return fetchPage(
+      window => this.list({ ...filter, ...window }, options),
+      page,
+      "list",
+      this.pageWindows,
+    )
+  }
+
+  /** Fetch one page of ready work (see `listPage`). */
+  async readyPage(
+    /** Filter options */
+    filter: Omit<ReadyFilter, keyof PageWindow> = {},
+    /** Page size and cursor */
+    page?: PageOptions,
+    /** Request options */
+    options?: RequestOptions,
+  ): Promise<Page<Issue>> {
+    this.rejectPagedSort("ready", filter)
+    return fetchPage(
+      window => this.ready({ ...filter, ...window }, options),
+      page,
+      "ready",
+      this.pageWindows,
+    )
+  }
+
+  /** Fetch one page of blocked issues (see `listPage`). */
+  async blockedPage(
+    /** Filter options */
+    filter: Omit<BlockedFilter, keyof PageWindow> = {},
+    /** Page size and cursor */
+    page?: PageOptions,
+    /** Request options */
+    options?: RequestOptions,
+  ): Promise<Page<BlockedIssue>> {
+    this.rejectPagedSort("blocked", filter)
+    return fetchPage(
+      window => this.blocked({ ...filter, ...window }, options),
+      page,
+      "blocked",
+      this.pageWindows,
+    )
+  }
+
+  /** Iterate over every matching issue, fetching a page at a time. */
+  listAll(
+    /** Filter options */
+    filter: Omit<ListFilter, keyof PageWindow> = {},
+    /** Page size */
+    page: Omit<PageOptions, "cursor"> = {},
+    /** Request options */
+    options?: RequestOptions,
+  ): AsyncIterable<Issue> {
+    return walkPages(cursor => this.listPage(filter, { ...page, cursor }, options), "list")
+  }
+
+  /** Iterate over all ready work, fetching a page at a time. */
+  readyAll(
+    /** Filter options */
+    filter: Omit<ReadyFilter, keyof PageWindow> = {},
+    /** Page size */
+    page: Omit<PageOptions, "cursor"> = {},
+    /** Request options */
+    options?: RequestOptions,
+  ): AsyncIterable<Issue> {
+    return walkPages(cursor => this.readyPage(filter, { ...page, cursor }, options), "ready")
+  }
+
+  /**
+   * Iterate over every blocked issue, fetching a page at a time. The daemon's
+   * `blocked` takes no `limit` and returns every blocked issue, so there they're
+   * fetched once instead.
+   */
+  blockedAll(
+    /** Filter options */
+    filter: Omit<BlockedFilter, keyof PageWindow> = {},
+    /** Page size */
+    page: Omit<PageOptions, "cursor"> = {},
+    /** Request options */
+    options?: RequestOptions,
+  ): AsyncIterable<BlockedIssue> {
+    if (this.daemon) return iterate(() => this.blocked(filter, options))
+    return walkPages(cursor => this.blockedPage(filter, { ...page, cursor }, options), "blocked")
   }
 
   /** Get database statistics. */
-  async stats(): Promise<Stats> {
-    return (await this.send("stats", {})) as Stats
+  async stats(
+    /** Request options */
+    options?: RequestOptions,
+  ): Promise<Stats> {
+    return this.send("stats", {}, options)
   }
 
   /** Ping the daemon. */
-  async ping(): Promise<{ message: string; version: string }> {
-    return (await this.send("ping", {})) as { message: string; version: string }
+  async ping(
+    /** Request options */
+    options?: RequestOptions,
+  ): Promise<{ message: string; version: string }> {
+    return this.send("ping", {}, options)
   }
 
   /** Get daemon health status. */
-  async health(): Promise<HealthStatus> {
-    return (await this.send("health", {})) as HealthStatus
+  async health(
+    /** Request options */
+    options?: RequestOptions,
+  ): Promise<HealthStatus> {
+    return this.send("health", {}, options)
   }
 
   /** Get database info. Requires daemon connection. */
-  async info(): Promise<Info> {
+  async info(
+    /** Request options */
+    options?: RequestOptions,
+  ): Promise<Info> {
     this.requireDaemon("info")
-    return (await this.send("info", {})) as Info
+    return this.send("info", {}, options)
   }
 
   /** Get mutations since a given timestamp. Requires daemon connection. */
   async getMutations(
     /** Unix timestamp in ms to get mutations since */
     since: number = 0,
+    /** Request options */
+    options?: RequestOptions,
   ): Promise<MutationEvent[]> {
     this.requireDaemon("get_mutations")
-    const result = (await this.send("get_mutations", { since })) as MutationEvent[]
+    const result = await this.send("get_mutations", { since }, options)
     return result ?? []
   }
 
+  /**
+   * Stream mutations as they happen, for use with `for await`. Filter by `types`
+   * and `issueIds`; stop by breaking out of the loop or aborting `signal`. The next
+   * batch is fetched only once the loop has consumed the previous one, and empty
+   * polls are spaced by `interval` (default: `pollInterval`). Requires daemon connection.
+   */
+  mutations(
+    /** Stream options */
+    options: MutationStreamOptions = {},
+  ): AsyncIterable<MutationEvent> {
+    return mutationStream((since, requestOptions) => this.getMutations(since, requestOptions), {
+      interval: this.options.pollInterval ?? 2000,
+      ...options,
+    })
+  }
+
   // ── Write operations ─────────────────────────────────────────────
 
   /** Create a new issue. Requires daemon connection (not JSONL fallback). */
   async create(
     /** Issue creation input */
     input: CreateInput,
+    /** Request options */
+    options?: RequestOptions,
   ): Promise<Issue> {
     this.requireDaemon("create")
-    return (await this.send("create", input as unknown as Record<string, unknown>)) as Issue
+    return this.send("create", input, options)
   }
 
   /** Update an existing issue. Requires daemon connection. */
@@ -216,12 +560,18 @@ export class BeadsClient {
     id: string,
     /** Fields to update */
     changes: UpdateInput,
+    /** Request options */
+    options?: RequestOptions,
   ): Promise<Issue> {
     this.requireDaemon("update")
-    return (await this.send("update", {
-      id,
-      ...changes,
-    })) as Issue
+    return this.send(
+      "update",
+      {
+        id,
+        ...changes,
+      },
+      options,
+    )
   }
 
   /** Update multiple issues with the same changes, with bounded concurrency. */
@@ -230,9 +580,16 @@ export class BeadsClient {
     ids: string[],
     /** Fields to update */
     changes: UpdateInput,
+    /** Request options */
+    options?: RequestOptions,
   ): Promise<Issue[]> {
     this.requireDaemon("update (batched)")
-    return batched(ids, MAX_CONCURRENT_REQUESTS, id => this.update(id, changes))
+    return batched(
+      ids,
+      MAX_CONCURRENT_REQUESTS,
+      id => this.update(id, changes, options),
+      options?.signal,
+    )
   }
 
   /** Close an issue. Requires daemon connection. */
@@ -241,29 +598,35 @@ export class BeadsClient {
     id: string,
     /** Optional close reason */
     reason?: string,
+    /** Request options */
+    options?: RequestOptions,
   ): Promise<Issue> {
     this.requireDaemon("close")
-    const args: Record<string, unknown> = { id }
+    const args: OperationArgs<"close"> = { id }
     if (reason) args.reason = reason
-    return (await this.send("close", args)) as Issue
+    return this.send("close", args, options)
   }
 
   /** Delete an issue. Requires daemon connection. */
   async delete(
     /** Issue ID */
     id: string,
+    /** Request options */
+    options?: RequestOptions,
   ): Promise<void> {
     this.requireDaemon("delete")
-    await this.send("delete", { id, force: true })
+    await this.send("delete", { id, force: true }, options)
   }
 
   /** Delete multiple issues, with bounded concurrency. */
   async deleteMany(
     /** Issue IDs to delete */
     ids: string[],
+    /** Request options */
+    options?: RequestOptions,
   ): Promise<void> {
     this.requireDaemon("delete (batched)")
-    await batched(ids, MAX_CONCURRENT_REQUESTS, id => this.delete(id))
+    await batched(ids, MAX_CONCURRENT_REQUESTS, id => this.delete(id, options), options?.signal)
   }
 
   // ── Comments ─────────────────────────────────────────────────────
@@ -276,20 +639,24 @@ export class BeadsClient {
     text: string,
     /** Optional comment author */
     author?: string,
+    /** Request options */
+    options?: RequestOptions,
   ): Promise<void> {
     this.requireDaemon("comment_add")
-    const args: Record<string, unknown> = { id, text }
+    const args: OperationArgs<"comment_add"> = { id, text }
     if (author) args.author = author
-    await this.send("comment_add", args)
+    await this.send("comment_add", args, options)
   }
 
   /** Get comments for an issue. Requires daemon connection. */
   async getComments(
     /** Issue ID */
     id: string,
+    /** Request options */
+    options?: RequestOptions,
   ): Promise<Comment[]> {
     this.requireDaemon("comment_list")
-    return (await this.send("comment_list", { id })) as Comment[]
+    return this.send("comment_list", { id }, options)
   }
 
   // ── Labels ───────────────────────────────────────────────────────
@@ -298,9 +665,11 @@ export class BeadsClient {
   async getLabels(
     /** Issue ID */
     id: string,
+    /** Request options */
+    options?: RequestOptions,
   ): Promise<string[]> {
     this.requireDaemon("label_list")
-    return (await this.send("label_list", { id })) as string[]
+    return this.send("label_list", { id }, options)
   }
 
   /** Add a label to an issue. Requires daemon connection. */
@@ -309,9 +678,11 @@ export class BeadsClient {
     id: string,
     /** Label to add */
     label: string,
+    /** Request options */
+    options?: RequestOptions,
   ): Promise<LabelResult> {
     this.requireDaemon("label_add")
-    return (await this.send("label_add", { id, label })) as LabelResult
+    return this.send("label_add", { id, label }, options)
   }
 
   /** Remove a label from an issue. Requires daemon connection. */
@@ -320,15 +691,20 @@ export class BeadsClient {
     id: string,
     /** Label to remove */
     label: string,
+    /** Request options */
+    options?: RequestOptions,
   ): Promise<LabelResult> {
     this.requireDaemon("label_remove")
-    return (await this.send("label_remove", { id, label })) as LabelResult
+    return this.send("label_remove", { id, label }, options)
   }
 
   /** List all unique labels in the database. Requires daemon connection. */
-  async listAllLabels(): Promise<string[]> {
+  async listAllLabels(
+    /** Request options */
+    options?: RequestOptions,
+  ): Promise<string[]> {
     this.requireDaemon("label_list_all")
-    return (await this.send("label_list_all", {})) as string[]
+    return this.send("label_list_all", {}, options)
   }
 
   // ── Dependencies ─────────────────────────────────────────────────
@@ -341,13 +717,19 @@ export class BeadsClient {
     toId: string,
     /** Dependency type */
     type: DepType,
+    /** Request options */
+    options?: RequestOptions,
   ): Promise<void> {
     this.requireDaemon("dep_add")
-    await this.send("dep_add", {
-      from_id: fromId,
-      to_id: toId,
-      dep_type: type,
-    })
+    await this.send(
+      "dep_add",
+      {
+        from_id: fromId,
+        to_id: toId,
+        dep_type: type,
+      },
+      options,
+    )
   }
 
   /** Add a blocking dependency between two issues. Requires daemon connection. */
@@ -356,12 +738,18 @@ export class BeadsClient {
     blockedId: string,
     /** ID of the blocking issue */
     blockerId: string,
+    /** Request options */
+    options?: RequestOptions,
   ): Promise<DepResult> {
     this.requireDaemon("dep_add")
-    return (await this.send("dep_add", {
-      from_id: blockedId,
-      to_id: blockerId,
-    })) as DepResult
+    return this.send(
+      "dep_add",
+      {
+        from_id: blockedId,
+        to_id: blockerId,
+      },
+      options,
+    )
   }
 
   /** Remove a blocking dependency between two issues. Requires daemon connection. */
@@ -370,18 +758,36 @@ export class BeadsClient {
     blockedId: string,
     /** ID of the blocking issue */
     blockerId: string,
+    /** Request options */
+    options?: RequestOptions,
   ): Promise<DepResult> {
     this.requireDaemon("dep_remove")
-    return (await this.send("dep_remove", {
-      from_id: blockedId,
-      to_id: blockerId,
-    })) as DepResult
+    return this.send(
+      "dep_remove",
+      {
+        from_id: blockedId,
+        to_id: blockerId,
+      },
+      options,
+    )
   }
 
   // ── Internals ────────────────────────────────────────────────────
 
-  /** Release internal transport resources (poller, watcher, subscriptions). */
+  /** Release internal transport resources (monitor, poller, watcher, subscriptions). */
   private cleanupResources(): void {
+    this.monitor?.stop()
+    this.monitor = null
+    this.offlineQueue = null
+    this.releaseTransports()
+  }
+
+  /** Stop polling and watching, and close the daemon and JSONL transports. */
+  private releaseTransports(): void {
+    this.offlineUnsubscribe?.()
+    this.offlineUnsubscribe = null
+    this.mutationPoller?.stop()
+    this.mutationPoller = null
     this.poller?.stop()
     this.poller = null
     this.jsonlUnsubscribe?.()
@@ -391,39 +797,353 @@ export class BeadsClient {
     this.jsonl?.close()
     this.jsonl = null
     this.transport = null
+    this.negotiated = null
+  }
+
+  /** Apply the configured middlewares (and response validation) to a transport. */
+  private wrap(
+    /** Transport to wrap */
+    transport: Transport,
+  ): Transport {
+    const middleware = [
+      // Outermost, so timings cover the user's middlewares too
+      timingMiddleware(timing => this.events.emit("request", timing)),
+      ...(this.options.middleware ?? []),
+    ]
+    // Innermost, so outer middlewares (e.g. loggers) see validation failures
+    if (this.options.validate) middleware.push(validationMiddleware())
+    return withMiddleware(transport, ...middleware)
+  }
+
+  /** Create a daemon transport with the client's options. */
+  private createDaemonTransport(): DaemonTransport {
+    return new DaemonTransport(this.workspaceRoot ?? process.cwd(), {
+      requestTimeout: this.options.requestTimeout,
+      actor: this.options.actor,
+      persistent: this.options.persistent,
+      retry: this.options.retry,
+    })
+  }
+
+  /** Make a (pinged) daemon transport the active one. */
+  private useDaemon(
+    /** Daemon transport that answered a ping */
+    daemon: DaemonTransport,
+    /** Version it reported */
+    version: string | null,
+  ): void {
+    this.releaseTransports()
+    this.daemon = daemon
+    this.transport = this.wrap(daemon)
+    this.negotiated = Capabilities.forDaemon(version)
+
+    this.startPolling(daemon)
+    this.syncMutationPoller()
+    this.setState("daemon")
+
+    if (this.offlineQueue?.size) {
+      this.replayQueuedWrites().catch(err => this.reportError("replay", err))
+    }
+  }
+
+  /** Start polling a transport for changes. */
+  private startPolling(
+    /** Transport to poll */
+    transport: Transport,
+  ): void {
+    this.poller = new ChangePoller(transport, {
+      mutations: this.negotiated?.supports("get_mutations") ?? false,
+    })
+    this.poller.onChange(changes => this.notifyChange(changes))
+    this.poller.onError(error => this.events.emit("error", { source: "poller", error }))
+    this.poller.start(this.options.pollInterval ?? 2000)
+  }
+
+  /** Poll for mutations while connected to the daemon and there are `mutation` handlers. */
+  private syncMutationPoller(): void {
+    const wanted =
+      this.daemon !== null &&
+      this.events.listenerCount("mutation") > 0 &&
+      this.negotiated?.supports("get_mutations") !== false
+    if (!wanted) {
+      this.mutationPoller?.stop()
+      this.mutationPoller = null
+    } else if (!this.mutationPoller) {
+      this.mutationPoller = new MutationPoller(this.daemon!)
+      this.mutationPoller.onMutation(event => {
+        this.events.emit("mutation", event)
+        // A `once` handler may have been the last one
+        this.syncMutationPoller()
+      })
+      this.mutationPoller.onError(error =>
+        this.events.emit("error", { source: "mutation-poller", error }),
+      )
+      this.mutationPoller.start(this.options.pollInterval ?? 2000)
+    }
+  }
+
+  /**
+   * Switch to the JSONL fallback, once the file is loaded. Resolves with false
+   * (leaving no active transport) if there's no JSONL file to read.
+   */
+  private async useFallback(): Promise<boolean> {
+    const jsonl = new JsonlTransport(this.workspaceRoot ?? process.cwd(), {
+      writable: this.options.jsonlWrites,
+      strict: this.options.jsonlStrict,
+      validate: this.options.validate,
+      actor: this.options.actor,
+    })
+    // Keep the current transport until the file has been streamed in
+    let loaded: boolean
+    try {
+      loaded = await jsonl.load()
+    } finally {
+      this.releaseTransports()
+    }
+    if (!loaded) {
+      this.setState("disconnected")
+      return false
+    }
+
+    this.jsonl = jsonl
+    this.transport = this.wrap(jsonl)
+    this.negotiated = Capabilities.forJsonl(jsonl.writable)
+
+    // Queue writes for the daemon, unless they can go straight to the file
+    if (this.offlineQueue && !jsonl.writable) {
+      const offline = new OfflineTransport(jsonl, this.offlineQueue, { actor: this.options.actor })
+      this.transport = this.wrap(offline)
+      this.negotiated = Capabilities.forJsonl(false, OFFLINE_OPERATIONS)
+      this.offlineUnsubscribe = offline.onChange(changes => this.notifyChange(changes))
+    }
+
+    // Watch JSONL for changes
+    jsonl.startWatching()
+    this.jsonlUnsubscribe = jsonl.onChange(({ added, updated, removed }) =>
+      this.notifyChange({
+        created: added,
+        updated,
+        deleted: removed,
+        mutations: [],
+        refetch: false,
+      }),
+    )
+    this.setState("fallback")
+    return true
+  }
+
+  /**
+   * Hop between the daemon and the JSONL fallback when the daemon's availability
+   * changes. Switches run one at a time, in order, since loading the fallback takes a while.
+   */
+  private switchTransport(
+    /** Result of the latest availability check */
+    status: DaemonStatus,
+  ): void {
+    const monitor = this.monitor
+    this.switching = this.switching.then(async () => {
+      // Disconnected or reconnected since
+      if (this.monitor !== monitor) return
+      try {
+        if (status.available) {
+          this.checkVersion(status.version)
+          this.useDaemon(this.createDaemonTransport(), status.version)
+        } else {
+          await this.useFallback()
+        }
+      } catch (err) {
+        // E.g. an unsupported daemon version, or a malformed JSONL file in strict mode
+        this.reportError("monitor", err)
+        return
+      }
+      // The new source may hold different data than the old one
+      this.notifyChange(refetchChangeSet())
+    })
   }
 
   /** Send an operation through the active transport. */
-  private async send(
+  private async send<K extends Operation>(
     /** Operation name */
-    operation: string,
+    operation: K,
     /** Operation arguments */
-    args: Record<string, unknown>,
-  ): Promise<unknown> {
-    if (!this.transport) {
-      throw new Error("Not connected. Call connect() first.")
+    args: OperationArgs<K>,
+    /** Request options */
+    options?: RequestOptions,
+  ): Promise<OperationResult<K>> {
+    // Writes queued while offline go first
+    if (this.replaying) await this.replaying.catch(() => {})
+
+    const transport = this.activeTransport(operation)
+    if (this.daemon) this.negotiated?.require(operation)
+    try {
+      return await transport.send(operation, args, options)
+    } catch (err) {
+      // The daemon is too old for this operation: remember that, and fail fast from now on
+      if (this.daemon && this.negotiated && isUnknownOperationError(err)) {
+        this.negotiated.markUnsupported(operation)
+        this.negotiated.require(operation)
+      }
+      // The daemon went away: switch to the fallback now rather than on the next
+      // check, and retry reads there. Writes are queued only if they never reached
+      // the daemon, since one that did may have been applied.
+      if (!(err instanceof ConnectionRefusedError) || !this.daemon || !this.monitor) throw err
+      await this.monitor.check()
+      await this.switching
+      const queueable = !err.sent && this.offlineQueue !== null && OFFLINE_OPERATIONS.has(operation)
+      if (this.daemon || !(isReadOperation(operation) || queueable)) throw err
+      return this.activeTransport(operation).send(operation, args, options)
     }
-    return this.transport.send(operation, args)
   }
 
-  /** Throw if not connected to the daemon (JSONL is read-only). */
+  /** The transport requests currently go through. */
+  private activeTransport(
+    /** Operation about to be sent, for error messages */
+    operation: string,
+  ): Transport {
+    if (this.transport) return this.transport
+    if (this.connected) {
+      throw new ConnectionRefusedError(
+        "The daemon is unavailable and there is no JSONL file to fall back to",
+        { operation },
+      )
+    }
+    throw new NotConnectedError("Not connected. Call connect() first.", { operation })
+  }
+
+  /** Throw if connected through the JSONL fallback without write support. */
   private requireDaemon(
     /** Operation name for error message */
     operation: string,
   ): void {
-    if (!this.daemon) {
-      throw new Error(
+    if (this.jsonl && !this.jsonl.writable && !this.offlineQueue) {
+      throw new ReadOnlyError(
         `Operation "${operation}" requires a daemon connection. ` + `JSONL fallback is read-only.`,
+        { operation },
       )
     }
   }
 
+  /** Whether the data source honors the page window (`offset` and `after`). */
+  private get pageWindows(): boolean {
+    return this.negotiated?.pageWindows ?? false
+  }
+
+  /**
+   * Run a sorted query on the daemon, which ignores `sort`: fetch every match
+   * (raising the limit until the daemon returns fewer than asked for), sort them
+   * here as the JSONL fallback would, then apply the caller's limit.
+   */
+  private async sortOnDaemon<K extends "list" | "ready" | "blocked">(
+    /** Operation name */
+    operation: K,
+    /** Filter, including its `sort` */
+    filter: ListFilter | ReadyFilter | BlockedFilter,
+    /** Limit when the filter doesn't set one */
+    defaultLimit: number,
+    /** Request options */
+    options?: RequestOptions,
+  ): Promise<OperationResult<K>> {
+    const { sort, ...rest } = filter
+    const compare = compareIssues<Issue>(normalizeSort(sort, operation))
+    const limit = filter.limit ?? defaultLimit
+
+    let fetchLimit = Math.max(limit, 1)
+    let results: Issue[]
+    for (;;) {
+      const args = Number.isFinite(fetchLimit) ? { ...rest, limit: fetchLimit } : rest
+      results = (await this.send(operation, args as OperationArgs<K>, options)) as Issue[]
+      if (!Number.isFinite(fetchLimit) || results.length < fetchLimit) break
+      fetchLimit *= 2
+    }
+    return results.sort(compare).slice(0, limit) as OperationResult<K>
+  }
+
+  /**
+   * Throw if a paged query would need the daemon to sort: each page would mean
+   * fetching and sorting every match again.
+   */
+  private rejectPagedSort(
+    /** Operation name for error message */
+    operation: string,
+    /** Filter that may carry a `sort` */
+    filter: { sort?: unknown },
+  ): void {
+    if (this.daemon && filter.sort !== undefined) {
+      throw new DaemonValidationError(
+        `sort isn't supported when paging ${operation} results from the daemon; ` +
+          `call ${operation}() to get them sorted`,
+        { operation },
+      )
+    }
+  }
+
+  /** Warn about (or reject) a daemon version outside the supported range. */
+  private checkVersion(
+    /** Version reported by the daemon, if any */
+    version: string | null,
+  ): void {
+    const policy = this.options.versionCheck ?? "warn"
+    if (policy === "ignore" || !version || isSupportedVersion(version)) return
+
+    const message =
+      `beads daemon v${version} is outside the supported range ` +
+      `(v${MIN_DAEMON_VERSION} to before v${MAX_DAEMON_VERSION})`
+    if (policy === "error") throw new UnsupportedVersionError(message, { operation: "ping" })
+    this.warn(message)
+  }
+
+  /** Report a warning through `onWarning`. */
+  private warn(
+    /** Warning message */
+    message: string,
+  ): void {
+    ;(this.options.onWarning ?? console.warn)(message)
+  }
+
+  /** Emit an `error` event, or warn through `onWarning` if nothing handles it. */
+  private reportError(
+    /** Background task that failed */
+    source: ClientErrorEvent["source"],
+    /** What went wrong */
+    error: unknown,
+  ): void {
+    if (this.events.listenerCount("error") > 0) {
+      this.events.emit("error", { source, error })
+    } else {
+      this.warn(`beads ${source} error: ${error instanceof Error ? error.message : error}`)
+    }
+  }
+
+  /** Record a connection state change and notify subscribers. */
+  private setState(
+    /** New state */
+    state: ConnectionState,
+  ): void {
+    const previous = this.state
+    if (state === previous) return
+    this.state = state
+    const event = state === "daemon" ? "connected" : state
+    this.events.emit(event, { state, previous })
+  }
+
   /** Notify all change subscribers. */
-  private notifyChange(): void {
-    for (const cb of this.changeCallbacks) cb()
+  private notifyChange(
+    /** What changed */
+    changes: ChangeSet,
+  ): void {
+    for (const cb of this.changeCallbacks) cb(changes)
+    this.events.emit("change", changes)
   }
 }
 
+/** Yield the items of a query, fetched when iteration starts. */
+async function* iterate<T>(
+  /** Fetch the items */
+  fetch: () => Promise<T[]>,
+): AsyncGenerator<T, void, undefined> {
+  yield* await fetch()
+}
+
 /**
  * Watch for mutation events from the beads daemon.
  * Polls the daemon periodically for new mutations and calls the callback for each event.
@@ -435,11 +1155,11 @@ export function watchMutations(
   /** Watch options */
   options: WatchMutationsOptions = {},
 ): () => void {
-  const { workspacePath, interval = 1000, since } = options
+  const { workspacePath, interval = 1000, since, checkpoint } = options
 
   const cwd = workspacePath ?? process.cwd()
   const daemon = new DaemonTransport(cwd, { actor: "sdk" })
-  const poller = new MutationPoller(daemon, since)
+  const poller = new MutationPoller(daemon, since, checkpoint)
   poller.onMutation(onMutation)
   poller.start(interval)
 
@@ -457,4 +1177,49 @@ export interface BeadsClientOptions {
   actor?: string
   /** Change polling interval in ms (default: 2000) */
   pollInterval?: number
+  /** Multiplex daemon requests over a pool of persistent connections (default: false) */
+  persistent?: boolean
+  /**
+   * Retry transient daemon failures with exponential backoff (default: no retries).
+   * Reads are retried automatically; writes only when called with `{ idempotent: true }`.
+   */
+  retry?: RetryPolicy
+  /**
+   * Allow writes through the JSONL fallback, rewriting `.beads/issues.jsonl` directly
+   * (default: enabled when `.beads/config.yaml` sets `no-db: true`)
+   */
+  jsonlWrites?: boolean
+  /** Fail to connect through the JSONL fallback if any line of the file is malformed (default: false) */
+  jsonlStrict?: boolean
+  /** Middlewares applied to every request the client sends, outermost first */
+  middleware?: Middleware[]
+  /**
+   * What to do when the daemon's version is outside the supported range: log a
+   * warning (default), throw an UnsupportedVersionError from `connect()`, or ignore it
+   */
+  versionCheck?: "warn" | "error" | "ignore"
+  /**
+   * How often to check whether the daemon went away or came back, switching between
+   * it and the JSONL fallback, in ms (default: 5000; 0 disables switching)
+   */
+  monitorInterval?: number
+  /**
+   * Accept writes while on the JSONL fallback, queueing them in `.beads/offline-queue.jsonl`
+   * and replaying them to the daemon once it's reachable (default: false)
+   */
+  offlineWrites?: boolean
+  /** Called for each queued write the daemon rejects on replay, e.g. because the issue was deleted */
+  onConflict?: (conflict: OfflineConflict) => void
+  /** Receives SDK warnings, such as an unsupported daemon version (default: console.warn) */
+  onWarning?: (message: string) => void
+  /**
+   * Check every response (and JSONL record) against the expected schema, raising a
+   * SchemaValidationError that names the offending field on a mismatch (default: false)
+   */
+  validate?: boolean
+  /**
+   * Use this transport instead of discovering the daemon or JSONL file
+   * (e.g. a `MemoryTransport` in tests). The caller remains responsible for closing it.
+   */
+  transport?: Transport
 }
@@ -0,0 +1,106 @@
+import { DaemonTransport } from "./transport/daemon.js"
+import { findSocketPath } from "./transport/discovery.js"
+import type { OperationResult } from "./types.js"
+
+/**
+ * Periodically checks whether the beads daemon is reachable and emits an event
+ * whenever that changes. A check pings the daemon through a fresh connection
+ * when its socket exists; unlike `DaemonTransport`, it never tries to start a
+ * daemon that isn't running. At most one check is in flight at a time.
+ */
+export class DaemonMonitor {
+  private workspaceRoot: string
+  private requestTimeout: number
+  private actor: string | undefined
+  private intervalId: NodeJS.Timeout | null = null
+  private callbacks: Array<(status: DaemonStatus) => void> = []
+  private available: boolean
+  private pending: Promise<DaemonStatus> | null = null
+
+  constructor(
+    /** Workspace root directory */
+    workspaceRoot: string,
+    /** Whether the daemon is known to be available right now */
+    available: boolean,
+    /** Monitor options */
+    options: { requestTimeout?: number; actor?: string } = {},
+  ) {
+    this.workspaceRoot = workspaceRoot
+    this.available = available
+    this.requestTimeout = options.requestTimeout ?? 5000
+    this.actor = options.actor
+  }
+
+  /** Start checking on an interval. */
+  start(
+    /** Check interval in ms (default: 5000) */
+    intervalMs: number = 5000,
+  ): void {
+    if (this.intervalId) return
+    this.intervalId = setInterval(() => this.check(), intervalMs)
+  }
+
+  /** Stop checking. */
+  stop(): void {
+    if (this.intervalId) {
+      clearInterval(this.intervalId)
+      this.intervalId = null
+    }
+  }
+
+  /** Register a callback for availability changes. Returns an unsubscribe function. */
+  onChange(
+    /** Callback invoked when the daemon comes up or goes away */
+    callback: (status: DaemonStatus) => void,
+  ): () => void {
+    this.callbacks.push(callback)
+    return () => {
+      const idx = this.callbacks.indexOf(callback)
+      if (idx >= 0) this.callbacks.splice(idx, 1)
+    }
+  }
+
+  /**
+   * Check the daemon now, emitting a change event if its availability differs
+   * from the last check. Joins the check already in flight, if any.
+   */
+  check(): Promise<DaemonStatus> {
+    this.pending ??= this.probe().finally(() => (this.pending = null))
+    return this.pending
+  }
+
+  /** Ping the daemon and record the result. */
+  private async probe(): Promise<DaemonStatus> {
+    let status: DaemonStatus = { available: false, version: null }
+    if (findSocketPath(this.workspaceRoot)) {
+      const transport = new DaemonTransport(this.workspaceRoot, {
+        requestTimeout: this.requestTimeout,
+        actor: this.actor,
+      })
+      try {
+        // Older daemons may not report a version
+        const pong: Partial<OperationResult<"ping">> = (await transport.send("ping", {})) ?? {}
+        const version = typeof pong.version === "string" && pong.version ? pong.version : null
+        status = { available: true, version }
+      } catch {
+        // Socket exists but nothing answers: treat as down
+      } finally {
+        transport.close()
+      }
+    }
+
+    if (status.available !== this.available) {
+      this.available = status.available
+      for (const cb of this.callbacks) cb(status)
+    }
+    return status
+  }
+}
+
+/** Result of a daemon availability check. */
+export interface DaemonStatus {
+  /** Whether the daemon answered a ping */
+  available: boolean
+  /** Version it reported, if any */
+  version: string | null
+}
@@ -0,0 +1,266 @@
+import type { JsonlDiagnostic } from "./types.js"
+
+/** Stable, machine-readable error codes for every error the SDK raises. */
+export type BeadsErrorCode =
+  | "TIMEOUT"
+  | "CONNECTION_REFUSED"
+  | "FRAMING_ERROR"
+  | "NOT_FOUND"
+  | "READ_ONLY"
+  | "VALIDATION_ERROR"
+  | "NOT_CONNECTED"
+  | "ABORTED"
+  | "REPLAY_MISS"
+  | "PARSE_ERROR"
+  | "SCHEMA_MISMATCH"
+  | "UNSUPPORTED_OPERATION"
+  | "UNSUPPORTED_VERSION"
+
+/** Details attached to a BeadsError. */
+export interface BeadsErrorDetails {
+  /** Operation that was being performed (e.g. "show", "create") */
+  operation?: string
+  /** Original `error` payload reported by the daemon, if any */
+  daemonError?: string
+  /** Underlying error, if this one wraps another */
+  cause?: unknown
+}
+
+/** Details attached to a ConnectionRefusedError. */
+export interface ConnectionRefusedErrorDetails extends BeadsErrorDetails {
+  /** Whether the request may have reached the daemon (default: true) */
+  sent?: boolean
+}
+
+/** Details attached to a JsonlParseError. */
+export interface JsonlParseErrorDetails extends BeadsErrorDetails {
+  /** Problems found in the file */
+  diagnostics?: JsonlDiagnostic[]
+}
+
+/** Details attached to a SchemaValidationError. */
+export interface SchemaValidationErrorDetails extends BeadsErrorDetails {
+  /** Path of the offending field (e.g. `list[3].priority`) */
+  path?: string
+  /** What the field should have been */
+  expected?: string
+}
+
+/**
+ * Base class for all SDK errors. Branch on `code` (or `instanceof`) rather than
+ * matching on `message`, which is meant for humans and may change.
+ */
+export class BeadsError extends Error {
+  readonly code: BeadsErrorCode
+  readonly operation?: string
+  readonly daemonError?: string
+  readonly cause?: unknown
+
+  constructor(
+    /** Error code */
+    code: BeadsErrorCode,
+    /** Human-readable message */
+    message: string,
+    /** Additional details */
+    details: BeadsErrorDetails = {},
+  ) {
+    super(message)
+    this.name = new.target.name
+    this.code = code
+    this.operation = details.operation
+    this.daemonError = details.daemonError
+    this.cause = details.cause
+  }
+}
+
+/** The daemon did not respond within the request timeout. */
+export class DaemonTimeoutError extends BeadsError {
+  constructor(message: string, details: BeadsErrorDetails = {}) {
+    super("TIMEOUT", message, details)
+  }
+}
+
+/**
+ * The daemon socket could not be reached (missing, refused, or reset). `sent` is
+ * false only when the request certainly never reached the daemon; when the
+ * connection broke after it was written, the daemon may have applied it.
+ */
+export class ConnectionRefusedError extends BeadsError {
+  /** Whether the request may have reached the daemon */
+  readonly sent: boolean
+
+  constructor(message: string, details: ConnectionRefusedErrorDetails = {}) {
+    super("CONNECTION_REFUSED", message, details)
+    this.sent = details.sent ?? true
+  }
+}
+
+/** The daemon's response was empty or not valid JSON. */
+export class FramingError extends BeadsError {
+  constructor(message: string, details: BeadsErrorDetails = {}) {
+    super("FRAMING_ERROR", message, details)
+  }
+}
+
+/** The requested issue (or other entity) does not exist. */
+export class NotFoundError extends BeadsError {
+  constructor(message: string, details: BeadsErrorDetails = {}) {
+    super("NOT_FOUND", message, details)
+  }
+}
+
+/** A write was attempted against the read-only JSONL fallback. */
+export class ReadOnlyError extends BeadsError {
+  constructor(message: string, details: BeadsErrorDetails = {}) {
+    super("READ_ONLY", message, details)
+  }
+}
+
+/** The daemon rejected the request (bad arguments, invalid state transition, etc.). */
+export class DaemonValidationError extends BeadsError {
+  constructor(message: string, details: BeadsErrorDetails = {}) {
+    super("VALIDATION_ERROR", message, details)
+  }
+}
+
+/** No data source is available: the client isn't connected, or the JSONL file is missing. */
+export class NotConnectedError extends BeadsError {
+  constructor(message: string, details: BeadsErrorDetails = {}) {
+    super("NOT_CONNECTED", message, details)
+  }
+}
+
+/** The request was cancelled through its AbortSignal. */
+export class AbortedError extends BeadsError {
+  constructor(message: string, details: BeadsErrorDetails = {}) {
+    super("ABORTED", message, details)
+  }
+}
+
+/** A replay transport has no recorded response matching the request. */
+export class ReplayMissError extends BeadsError {
+  constructor(message: string, details: BeadsErrorDetails = {}) {
+    super("REPLAY_MISS", message, details)
+  }
+}
+
+/** The JSONL file contains malformed records and strict parsing was requested. */
+export class JsonlParseError extends BeadsError {
+  /** Every problem found in the file */
+  readonly diagnostics: JsonlDiagnostic[]
+
+  constructor(message: string, details: JsonlParseErrorDetails = {}) {
+    super("PARSE_ERROR", message, details)
+    this.diagnostics = details.diagnostics ?? []
+  }
+}
+
+/** A response or record doesn't have the expected shape. */
+export class SchemaValidationError extends BeadsError {
+  /** Path of the offending field (e.g. `list[3].priority`) */
+  readonly path?: string
+  /** What the field should have been */
+  readonly expected?: string
+
+  constructor(message: string, details: SchemaValidationErrorDetails = {}) {
+    super("SCHEMA_MISMATCH", message, details)
+    this.path = details.path
+    this.expected = details.expected
+  }
+}
+
+/** The connected daemon doesn't support the requested operation. */
+export class UnsupportedOperationError extends BeadsError {
+  constructor(message: string, details: BeadsErrorDetails = {}) {
+    super("UNSUPPORTED_OPERATION", message, details)
+  }
+}
+
+/** The daemon's version is outside the range the SDK supports. */
+export class UnsupportedVersionError extends BeadsError {
+  constructor(message: string, details: BeadsErrorDetails = {}) {
+    super("UNSUPPORTED_VERSION", message, details)
+  }
+}
+
+/** Build the AbortedError for a request cancelled through the given signal. */
+export function abortedError(
+  /** Operation that was cancelled */
+  operation: string | undefined,
+  /** The signal that fired */
+  signal: AbortSignal,
+): AbortedError {
+  return new AbortedError(`Operation "${operation ?? "request"}" was aborted`, {
+    operation,
+    cause: signal.reason,
+  })
+}
+
+/** Throw an AbortedError if the signal has already fired. */
+export function throwIfAborted(
+  /** Signal to check */
+  signal: AbortSignal | undefined,
+  /** Operation being performed */
+  operation?: string,
+): void {
+  if (signal?.aborted) throw abortedError(operation, signal)
+}
+
+/** Convert an unsuccessful daemon response into the matching error class. */
+export function daemonResponseError(
+  /** Operation that failed */
+  operation: string,
+  /** The daemon's `error` payload */
+  daemonError: string | undefined,
+): BeadsError {
+  const message = daemonError ?? "Unknown daemon error"
+  const details = { operation, daemonError }
+  return /not found/i.test(message) ?
+      new NotFoundError(message, details)
+    : new DaemonValidationError(message, details)
+}
+
+/**
+ * Whether an error means the data source doesn't know an operation: an
+ * UnsupportedOperationError, or a daemon rejecting it as an unknown operation.
+ */
+export function isUnknownOperationError(
+  /** Error to check */
+  error: unknown,
+): boolean {
+  if (error instanceof UnsupportedOperationError) return true
+  return (
+    error instanceof DaemonValidationError &&
+    /unknown operation/i.test(error.daemonError ?? error.message)
+  )
+}
+
+/** Error class for each code, used to rebuild errors from serialized form. */
+const ERROR_CLASSES: Record<BeadsErrorCode, typeof DaemonTimeoutError> = {
+  TIMEOUT: DaemonTimeoutError,
+  CONNECTION_REFUSED: ConnectionRefusedError,
+  FRAMING_ERROR: FramingError,
+  NOT_FOUND: NotFoundError,
+  READ_ONLY: ReadOnlyError,
+  VALIDATION_ERROR: DaemonValidationError,
+  NOT_CONNECTED: NotConnectedError,
+  ABORTED: AbortedError,
+  REPLAY_MISS: ReplayMissError,
+  PARSE_ERROR: JsonlParseError,
+  SCHEMA_MISMATCH: SchemaValidationError,
+  UNSUPPORTED_OPERATION: UnsupportedOperationError,
+  UNSUPPORTED_VERSION: UnsupportedVersionError,
+}
+
+/** Rebuild an error of the matching class from its code (e.g. when replaying a recording). */
+export function errorFromCode(
+  /** Error code */
+  code: BeadsErrorCode,
+  /** Error message */
+  message: string,
+  /** Additional details, including `sent` for a ConnectionRefusedError */
+  details: ConnectionRefusedErrorDetails = {},
+): BeadsError {
+  const ErrorClass = ERROR_CLASSES[code]
+  return ErrorClass ? new ErrorClass(message, details) : new BeadsError(code, message, details)
+}
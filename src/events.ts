@@ -0,0 +1,106 @@
+import type { RequestTiming } from "./middleware.js"
+import type { ChangeSet, ConnectionState, MutationEvent } from "./types.js"
+
+/**
+ * Minimal typed event emitter. Handlers run synchronously, in the order they
+ * were added; emitting an event with no handlers (including `error`) is a no-op.
+ */
+export class TypedEmitter<Events extends { [E in keyof Events]: (...args: never[]) => void }> {
+  private handlers: { [E in keyof Events]?: Array<Events[E]> } = {}
+
+  /** Add a handler. Returns a function that removes it. */
+  on<E extends keyof Events>(
+    /** Event name */
+    event: E,
+    /** Handler to call when the event is emitted */
+    handler: Events[E],
+  ): () => void {
+    const handlers = (this.handlers[event] ??= [])
+    handlers.push(handler)
+    return () => this.off(event, handler)
+  }
+
+  /** Add a handler that is removed after it first runs. Returns a function that removes it. */
+  once<E extends keyof Events>(
+    /** Event name */
+    event: E,
+    /** Handler to call the next time the event is emitted */
+    handler: Events[E],
+  ): () => void {
+    const wrapper = ((...args: Parameters<Events[E]>) => {
+      this.off(event, wrapper)
+      handler(...args)
+    }) as Events[E]
+    return this.on(event, wrapper)
+  }
+
+  /** Remove a handler. */
+  off<E extends keyof Events>(
+    /** Event name */
+    event: E,
+    /** Handler to remove */
+    handler: Events[E],
+  ): void {
+    const handlers = this.handlers[event]
+    const idx = handlers?.indexOf(handler) ?? -1
+    if (idx >= 0) handlers!.splice(idx, 1)
+  }
+
+  /** Call every handler for an event. */
+  emit<E extends keyof Events>(
+    /** Event name */
+    event: E,
+    /** Event arguments */
+    ...args: Parameters<Events[E]>
+  ): void {
+    // Copied so handlers can unsubscribe while the event is being delivered
+    for (const handler of [...(this.handlers[event] ?? [])]) handler(...args)
+  }
+
+  /** Number of handlers for an event. */
+  listenerCount(
+    /** Event name */
+    event: keyof Events,
+  ): number {
+    return this.handlers[event]?.length ?? 0
+  }
+
+  /** Remove every handler for every event. */
+  clear(): void {
+    this.handlers = {}
+  }
+}
+
+/** Events emitted by BeadsClient, and the signature of their handlers. */
+export interface BeadsClientEvents {
+  /** Connected (or reconnected) to the daemon, or to a custom transport */
+  connected: (event: ConnectionStateEvent) => void
+  /** Switched to the JSONL fallback */
+  fallback: (event: ConnectionStateEvent) => void
+  /** Lost every data source, or `disconnect()` was called */
+  disconnected: (event: ConnectionStateEvent) => void
+  /** Issue data changed (see `BeadsClient.onChange`) */
+  change: (changes: ChangeSet) => void
+  /** A mutation reported by the daemon's `get_mutations` (polled while there are handlers) */
+  mutation: (event: MutationEvent) => void
+  /** A background task failed: change or mutation polling, switching transports, or replay */
+  error: (event: ClientErrorEvent) => void
+  /** A request completed or failed */
+  request: (timing: RequestTiming) => void
+}
+
+/** Payload of the `connected`, `fallback` and `disconnected` events. */
+export interface ConnectionStateEvent {
+  /** The new state */
+  state: ConnectionState
+  /** The state before the change */
+  previous: ConnectionState
+}
+
+/** Payload of the `error` event. */
+export interface ClientErrorEvent {
+  /** The background task that failed */
+  source: "poller" | "mutation-poller" | "monitor" | "replay"
+  /** What went wrong */
+  error: unknown
+}
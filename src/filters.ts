@@ -0,0 +1,94 @@
+import { DaemonValidationError } from "./errors.js"
+import type { ListFilter } from "./types.js"
+
+/** Date-range filters: the timestamp field each one looks at, and which end of the range it sets. */
+export const DATE_FILTERS: Readonly<
+  Record<string, { field: DatedField; bound: "after" | "before" }>
+> = {
+  created_after: { field: "created_at", bound: "after" },
+  created_before: { field: "created_at", bound: "before" },
+  updated_after: { field: "updated_at", bound: "after" },
+  updated_before: { field: "updated_at", bound: "before" },
+  closed_after: { field: "closed_at", bound: "after" },
+  closed_before: { field: "closed_at", bound: "before" },
+  due_after: { field: "due_at", bound: "after" },
+  due_before: { field: "due_at", bound: "before" },
+  defer_after: { field: "defer_until", bound: "after" },
+  defer_before: { field: "defer_until", bound: "before" },
+}
+
+/** Timestamp fields the date-range filters look at. */
+type DatedField = "created_at" | "updated_at" | "closed_at" | "due_at" | "defer_until"
+
+/** Fields of an issue (or raw JSONL record) that list filters look at. */
+export interface FilterableIssue {
+  title: string
+  description?: string
+  status: string
+  priority: number
+  issue_type: string
+  assignee?: string
+  labels?: string[]
+  created_at?: string
+  updated_at?: string
+  closed_at?: string
+  due_at?: string
+  defer_until?: string
+}
+
+/**
+ * Whether an issue matches a list filter, as the `list` operation decides it.
+ * Ignores `limit`, which applies to the result rather than to each issue. Date
+ * ranges include their `_after` bound and exclude their `_before` bound, and an
+ * issue without the timestamp (e.g. `closed_at` on an open issue) never matches.
+ */
+export function matchesListFilter(
+  /** Issue to test */
+  issue: FilterableIssue,
+  /** List filter */
+  filter: ListFilter,
+): boolean {
+  if (filter.status && issue.status !== filter.status) return false
+  if (filter.priority !== undefined && issue.priority !== filter.priority) return false
+  if (filter.issue_type && issue.issue_type !== filter.issue_type) return false
+  if (filter.assignee && issue.assignee !== filter.assignee) return false
+  if (filter.unassigned && issue.assignee) return false
+  if (filter.query) {
+    const q = String(filter.query).toLowerCase()
+    const matches =
+      issue.title.toLowerCase().includes(q) || (issue.description ?? "").toLowerCase().includes(q)
+    if (!matches) return false
+  }
+  const labels = issue.labels ?? []
+  if (Array.isArray(filter.labels) && !filter.labels.every(l => labels.includes(l))) return false
+  if (Array.isArray(filter.labels_any) && !filter.labels_any.some(l => labels.includes(l))) {
+    return false
+  }
+  for (const [key, { field, bound }] of Object.entries(DATE_FILTERS)) {
+    const limit = filter[key as keyof ListFilter] as string | Date | undefined
+    if (limit === undefined) continue
+    const value = issue[field]
+    if (!value) return false
+    const time = Date.parse(value)
+    const limitTime = new Date(limit).getTime()
+    if (bound === "after" ? time < limitTime : time >= limitTime) return false
+  }
+  return true
+}
+
+/** Throw a DaemonValidationError if a date-range filter isn't a valid date. */
+export function checkDateFilters(
+  /** List filter */
+  filter: ListFilter,
+  /** Operation being filtered, for error messages */
+  operation: string,
+): void {
+  for (const key of Object.keys(DATE_FILTERS)) {
+    const limit = filter[key as keyof ListFilter] as string | Date | undefined
+    if (limit !== undefined && Number.isNaN(new Date(limit).getTime())) {
+      throw new DaemonValidationError(`${key} is not a valid date: ${String(limit)}`, {
+        operation,
+      })
+    }
+  }
+}
@@ -11,37 +11,155 @@ export type {
   Stats,
   HealthStatus,
   ListFilter,
+  SortField,
+  SortSpec,
   ReadyFilter,
   BlockedFilter,
   CreateInput,
   UpdateInput,
+  RequestOptions,
   Transport,
+  OperationMap,
+  Operation,
+  OperationArgs,
+  OperationResult,
+  NoArgs,
+  ConnectionState,
   RawJsonlDependency,
   RawJsonlIssue,
+  JsonlDiagnostic,
   Comment,
   LabelResult,
   DepResult,
   Info,
   MutationType,
   MutationEvent,
+  ChangeSet,
   RegistryEntry,
   WorkspaceInfo,
 } from "./types.js"
 
+export {
+  BeadsError,
+  DaemonTimeoutError,
+  ConnectionRefusedError,
+  FramingError,
+  NotFoundError,
+  ReadOnlyError,
+  DaemonValidationError,
+  NotConnectedError,
+  AbortedError,
+  ReplayMissError,
+  JsonlParseError,
+  SchemaValidationError,
+  UnsupportedOperationError,
+  UnsupportedVersionError,
+} from "./errors.js"
+export type {
+  BeadsErrorCode,
+  BeadsErrorDetails,
+  ConnectionRefusedErrorDetails,
+  JsonlParseErrorDetails,
+  SchemaValidationErrorDetails,
+} from "./errors.js"
+
+export {
+  validateIssue,
+  validateLinkedIssue,
+  validateBlockedIssue,
+  validateStats,
+  validateHealthStatus,
+  validateComment,
+  validateLabelResult,
+  validateDepResult,
+  validateInfo,
+  validateMutationEvent,
+  validateRawJsonlIssue,
+  validateResponse,
+  validationMiddleware,
+} from "./validate.js"
+export type { Validator } from "./validate.js"
+
+export {
+  withRetry,
+  backoffDelay,
+  isReadOperation,
+  isTransientError,
+  READ_OPERATIONS,
+} from "./retry.js"
+export type { RetryPolicy } from "./retry.js"
+
+export {
+  MiddlewareTransport,
+  withMiddleware,
+  createMiddleware,
+  loggerMiddleware,
+  timingMiddleware,
+  retryMiddleware,
+} from "./middleware.js"
+export type { Middleware, MiddlewareHooks, RequestContext, RequestTiming } from "./middleware.js"
+
+export {
+  Capabilities,
+  isSupportedVersion,
+  parseVersion,
+  compareVersions,
+  MIN_DAEMON_VERSION,
+  MAX_DAEMON_VERSION,
+  KNOWN_OPERATIONS,
+} from "./capabilities.js"
+
+export { TypedEmitter } from "./events.js"
+export type { BeadsClientEvents, ConnectionStateEvent, ClientErrorEvent } from "./events.js"
+
 export { BeadsClient, watchMutations } from "./client.js"
 export type { BeadsClientOptions } from "./client.js"
 
+export { IssueCache } from "./cache.js"
+export { matchesListFilter, checkDateFilters, DATE_FILTERS } from "./filters.js"
+export type { FilterableIssue } from "./filters.js"
+export { compareIssues, compareReady, normalizeSort, SORT_FIELDS } from "./sort.js"
+export type { SortableIssue } from "./sort.js"
+
 export { DaemonTransport } from "./transport/daemon.js"
 export type { DaemonTransportOptions } from "./transport/daemon.js"
 
 export { JsonlTransport } from "./transport/jsonl.js"
+export type { JsonlTransportOptions, JsonlChangeEvent } from "./transport/jsonl.js"
+export { parseJsonl, parseJsonlFile } from "./transport/jsonl-parser.js"
+export type { JsonlParseOptions, JsonlParseResult } from "./transport/jsonl-parser.js"
+
+export { OfflineQueue, OfflineTransport, OFFLINE_OPERATIONS } from "./transport/offline.js"
+export type { OfflineEntry, OfflineConflict, OfflineReplayResult } from "./transport/offline.js"
+
+export { MemoryTransport } from "./transport/memory.js"
+export type { MemoryTransportOptions } from "./transport/memory.js"
+
+export { RecordingTransport, ReplayTransport } from "./transport/recording.js"
+export type { CassetteEntry, CassetteError } from "./transport/recording.js"
 
 export { findSocketPath, findJsonlPath, findBeadsDir } from "./transport/discovery.js"
 
 export { ChangePoller } from "./poller.js"
+export type { ChangePollerOptions } from "./poller.js"
+export { changeSetFromMutations, refetchChangeSet } from "./changes.js"
+
+export { DaemonMonitor } from "./daemon-monitor.js"
+export type { DaemonStatus } from "./daemon-monitor.js"
+
+export { MutationPoller, mutationStream } from "./mutation-poller.js"
+export type { WatchMutationsOptions, MutationStreamOptions } from "./mutation-poller.js"
+
+export {
+  MutationCheckpoint,
+  MemoryCursorStore,
+  FileCursorStore,
+  mutationKey,
+} from "./mutation-cursor.js"
+export type { MutationCursor, CursorStore } from "./mutation-cursor.js"
 
-export { MutationPoller } from "./mutation-poller.js"
-export type { WatchMutationsOptions } from "./mutation-poller.js"
+export { fetchPage, walkPages, DEFAULT_PAGE_SIZE } from "./pagination.js"
+export type { Page, PageOptions, PageWindow } from "./pagination.js"
 
 export { batched, MAX_CONCURRENT_REQUESTS } from "./batch.js"
 
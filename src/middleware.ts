@@ -0,0 +1,193 @@
+import { isReadOperation, withRetry, type RetryPolicy } from "./retry.js"
+import type { RequestOptions, Transport, OperationArgs, OperationResult } from "./types.js"
+
+/**
+ * Transport that runs every request through a chain of middlewares before
+ * handing it to the wrapped transport. Middlewares run in the order given:
+ * the first one sees the request first and the response last.
+ */
+export class MiddlewareTransport implements Transport {
+  private transport: Transport
+  private middlewares: Middleware[]
+
+  constructor(
+    /** Transport to wrap */
+    transport: Transport,
+    /** Middlewares to apply, outermost first */
+    middlewares: Middleware[],
+  ) {
+    this.transport = transport
+    this.middlewares = middlewares
+  }
+
+  /** Send an operation through the middleware chain. */
+  send<K extends string>(
+    /** Operation name */
+    operation: K,
+    /** Operation arguments */
+    args: OperationArgs<K>,
+    /** Per-request options */
+    options?: RequestOptions,
+  ): Promise<OperationResult<K>>
+  async send(
+    /** Operation name */
+    operation: string,
+    /** Operation arguments */
+    args: Record<string, unknown> = {},
+    /** Per-request options */
+    options: RequestOptions = {},
+  ): Promise<unknown> {
+    const context: RequestContext = { operation, args, options, meta: {} }
+
+    const dispatch = (index: number): Promise<unknown> => {
+      const middleware = this.middlewares[index]
+      if (!middleware) {
+        return this.transport.send(context.operation, context.args, context.options)
+      }
+      return middleware(context, () => dispatch(index + 1))
+    }
+
+    return dispatch(0)
+  }
+
+  /** Close the wrapped transport. */
+  close(): void {
+    this.transport.close()
+  }
+}
+
+/** Wrap a transport with one or more middlewares. */
+export function withMiddleware(
+  /** Transport to wrap */
+  transport: Transport,
+  /** Middlewares to apply, outermost first */
+  ...middlewares: Middleware[]
+): Transport {
+  return middlewares.length === 0 ? transport : new MiddlewareTransport(transport, middlewares)
+}
+
+/**
+ * Build a middleware from before/after/error hooks.
+ * - `before` may rewrite `context.args` or `context.options`.
+ * - `after` may return a replacement result (return `undefined` to keep the original).
+ * - `onError` may return a fallback result to recover; if it returns `undefined`
+ *   (e.g. it only logs), the original error is rethrown.
+ */
+export function createMiddleware(
+  /** Hooks to run around each request */
+  hooks: MiddlewareHooks,
+): Middleware {
+  return async (context, next) => {
+    await hooks.before?.(context)
+    let result: unknown
+    try {
+      result = await next()
+    } catch (err) {
+      if (!hooks.onError) throw err
+      const recovered = await hooks.onError(context, err)
+      if (recovered === undefined) throw err
+      return recovered
+    }
+    if (!hooks.after) return result
+    const replaced = await hooks.after(context, result)
+    return replaced === undefined ? result : replaced
+  }
+}
+
+/** Log each request's operation, outcome and duration. */
+export function loggerMiddleware(
+  /** Log sink (default: console.log) */
+  log: (message: string) => void = console.log,
+): Middleware {
+  return async (context, next) => {
+    const start = Date.now()
+    try {
+      const result = await next()
+      log(`[beads] ${context.operation} ok (${Date.now() - start}ms)`)
+      return result
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err)
+      log(`[beads] ${context.operation} failed (${Date.now() - start}ms): ${message}`)
+      throw err
+    }
+  }
+}
+
+/** Report the duration of each request, whether it succeeded or failed. */
+export function timingMiddleware(
+  /** Called once per request with its timing */
+  onTiming: (timing: RequestTiming) => void,
+): Middleware {
+  return async (context, next) => {
+    const start = Date.now()
+    try {
+      const result = await next()
+      onTiming({ operation: context.operation, durationMs: Date.now() - start, success: true })
+      return result
+    } catch (err) {
+      onTiming({
+        operation: context.operation,
+        durationMs: Date.now() - start,
+        success: false,
+        error: err,
+      })
+      throw err
+    }
+  }
+}
+
+/**
+ * Retry transient failures with exponential backoff. Like the daemon transport's
+ * built-in policy, writes are only retried when the request is marked `idempotent`.
+ */
+export function retryMiddleware(
+  /** Retry policy */
+  policy: RetryPolicy = {},
+): Middleware {
+  return (context, next) => {
+    const retryable = context.options.idempotent ?? isReadOperation(context.operation)
+    if (!retryable) return next()
+    return withRetry(next, policy, undefined, context.options.signal)
+  }
+}
+
+/**
+ * A middleware receives the request context and a `next` function that invokes
+ * the rest of the chain, and returns (or transforms) the result.
+ */
+export type Middleware = (
+  /** Mutable request context */
+  context: RequestContext,
+  /** Invoke the remaining middlewares and the underlying transport */
+  next: () => Promise<unknown>,
+) => Promise<unknown>
+
+/** A request as seen by middlewares. Fields may be rewritten before calling `next`. */
+export interface RequestContext {
+  /** Operation name */
+  operation: string
+  /** Operation arguments */
+  args: Record<string, unknown>
+  /** Per-request options */
+  options: RequestOptions
+  /** Scratch space for middlewares to share state about this request */
+  meta: Record<string, unknown>
+}
+
+/** Hooks for `createMiddleware`. */
+export interface MiddlewareHooks {
+  /** Runs before the request is sent */
+  before?: (context: RequestContext) => void | Promise<void>
+  /** Runs after a successful response; may return a replacement result */
+  after?: (context: RequestContext, result: unknown) => unknown
+  /** Runs when the request fails; return a value to recover, or `undefined` to rethrow the error */
+  onError?: (context: RequestContext, error: unknown) => unknown
+}
+
+/** Timing information reported by `timingMiddleware`. */
+export interface RequestTiming {
+  operation: string
+  durationMs: number
+  success: boolean
+  error?: unknown
+}
@@ -0,0 +1,164 @@
+import { readFileSync, renameSync, rmSync, writeFileSync } from "node:fs"
+import type { MutationEvent } from "./types.js"
+
+/**
+ * Position in the daemon's mutation log: the newest delivered mutation's
+ * timestamp, plus the keys of every mutation delivered at exactly that
+ * millisecond (the daemon's `since` has millisecond granularity, so more may
+ * follow at the same timestamp).
+ */
+export interface MutationCursor {
+  /** Timestamp in ms of the newest delivered mutation */
+  timestamp: number
+  /** Keys (see `mutationKey`) of the mutations delivered at `timestamp` */
+  delivered: string[]
+}
+
+/** Persists a mutation cursor so that watching can resume after a restart. */
+export interface CursorStore {
+  /** Read the saved cursor, or null if there is none yet. */
+  load(): MutationCursor | null | Promise<MutationCursor | null>
+  /** Save the cursor, replacing the previous one. */
+  save(cursor: MutationCursor): void | Promise<void>
+}
+
+/** Cursor store that keeps the cursor in memory, e.g. to share it between pollers. */
+export class MemoryCursorStore implements CursorStore {
+  private cursor: MutationCursor | null
+
+  constructor(
+    /** Initial cursor */
+    cursor: MutationCursor | null = null,
+  ) {
+    this.cursor = cursor
+  }
+
+  /** Read the saved cursor. */
+  load(): MutationCursor | null {
+    return this.cursor && { ...this.cursor, delivered: [...this.cursor.delivered] }
+  }
+
+  /** Save the cursor. */
+  save(
+    /** Cursor to save */
+    cursor: MutationCursor,
+  ): void {
+    this.cursor = { ...cursor, delivered: [...cursor.delivered] }
+  }
+}
+
+/**
+ * Cursor store backed by a JSON file. The file is rewritten atomically (temp
+ * file + rename) on every save, so a crash never leaves a torn cursor behind.
+ */
+export class FileCursorStore implements CursorStore {
+  /** Path of the cursor file */
+  readonly path: string
+
+  constructor(
+    /** Path of the cursor file (created on the first save) */
+    path: string,
+  ) {
+    this.path = path
+  }
+
+  /** Read the cursor file, or null if it's missing or unreadable. */
+  load(): MutationCursor | null {
+    try {
+      const cursor = JSON.parse(readFileSync(this.path, "utf-8")) as MutationCursor
+      if (typeof cursor.timestamp !== "number" || !Array.isArray(cursor.delivered)) return null
+      return cursor
+    } catch {
+      return null
+    }
+  }
+
+  /** Atomically rewrite the cursor file. */
+  save(
+    /** Cursor to save */
+    cursor: MutationCursor,
+  ): void {
+    const tempPath = `${this.path}.${process.pid}.tmp`
+    try {
+      writeFileSync(tempPath, JSON.stringify(cursor) + "\n")
+      renameSync(tempPath, this.path)
+    } catch (err) {
+      rmSync(tempPath, { force: true })
+      throw err
+    }
+  }
+}
+
+/** Identity of a mutation event, used to deduplicate it: `Timestamp|Type|IssueID`. */
+export function mutationKey(
+  /** Mutation event */
+  event: MutationEvent,
+): string {
+  return `${event.Timestamp}|${event.Type}|${event.IssueID}`
+}
+
+/**
+ * Tracks which mutations have been delivered, so each is delivered exactly once
+ * even though the daemon's `since` is only accurate to the millisecond. Once a
+ * mutation has been delivered, the next query re-reads its millisecond and skips
+ * what was already seen there. With a store, the cursor is loaded before the
+ * first query and saved after every delivered mutation.
+ */
+export class MutationCheckpoint {
+  private cursor: MutationCursor
+  private store: CursorStore | undefined
+  private loading: Promise<void> | null = null
+
+  constructor(
+    /** Timestamp in ms to deliver mutations after, when the store has no cursor (default: now) */
+    since: number = Date.now(),
+    /** Store to resume from and save the cursor to */
+    store?: CursorStore,
+  ) {
+    this.cursor = { timestamp: since, delivered: [] }
+    this.store = store
+  }
+
+  /** Current position. */
+  get position(): MutationCursor {
+    return this.cursor
+  }
+
+  /** Load the saved cursor from the store, once. */
+  load(): Promise<void> {
+    this.loading ??= (async () => {
+      const saved = await this.store?.load()
+      if (saved) this.cursor = saved
+    })()
+    return this.loading
+  }
+
+  /** The `since` to query `get_mutations` with. */
+  get since(): number {
+    // Re-read the current millisecond if something in it was already delivered
+    return this.cursor.delivered.length > 0 ? this.cursor.timestamp - 1 : this.cursor.timestamp
+  }
+
+  /** Whether a mutation returned by the daemon hasn't been delivered yet. */
+  isNew(
+    /** Mutation event */
+    event: MutationEvent,
+  ): boolean {
+    const time = new Date(event.Timestamp).getTime()
+    if (time !== this.cursor.timestamp) return time > this.cursor.timestamp
+    return !this.cursor.delivered.includes(mutationKey(event))
+  }
+
+  /** Record a mutation as delivered, saving the cursor to the store. */
+  async advance(
+    /** Mutation event */
+    event: MutationEvent,
+  ): Promise<void> {
+    const time = new Date(event.Timestamp).getTime()
+    const key = mutationKey(event)
+    if (time > this.cursor.timestamp) this.cursor = { timestamp: time, delivered: [key] }
+    else if (time === this.cursor.timestamp) this.cursor.delivered.push(key)
+    else return
+    await this.store?.save(this.cursor)
+  }
+}
@@ -1,24 +1,34 @@
-import type { Transport, MutationEvent } from "./types.js"
+import { throwIfAborted } from "./errors.js"
+import { MutationCheckpoint, type CursorStore } from "./mutation-cursor.js"
+import { sleep } from "./retry.js"
+import type { Transport, MutationEvent, MutationType, RequestOptions } from "./types.js"
 
 /**
  * Polls the daemon's `get_mutations` endpoint and emits detailed mutation events.
  * Unlike ChangePoller (which only detects "something changed"), this provides
- * the actual mutation events with type, issue ID, and status changes.
+ * the actual mutation events with type, issue ID, and status changes. Each event
+ * is emitted once, even when several share a millisecond; with a cursor store,
+ * polling resumes after the last emitted event across restarts. At most one poll
+ * is in flight at any time.
  */
 export class MutationPoller {
   private transport: Transport
   private intervalId: NodeJS.Timeout | null = null
   private callbacks: Array<(event: MutationEvent) => void> = []
-  private lastTimestamp: number
+  private errorCallbacks: Array<(error: unknown) => void> = []
+  private checkpoint: MutationCheckpoint
+  private polling: boolean = false
 
   constructor(
     /** Transport to poll through */
     transport: Transport,
-    /** Initial timestamp to start watching from (default: now) */
+    /** Initial timestamp to start watching from, if the store has no cursor (default: now) */
     since?: number,
+    /** Store to resume from and save the cursor to after each emitted event */
+    checkpoint?: CursorStore,
   ) {
     this.transport = transport
-    this.lastTimestamp = since ?? Date.now()
+    this.checkpoint = new MutationCheckpoint(since, checkpoint)
   }
 
   /** Start polling for mutations. */
@@ -51,20 +61,38 @@ export class MutationPoller {
     }
   }
 
-  /** Check for new mutations since last poll. */
+  /** Register a callback for failed polls. Returns an unsubscribe function. */
+  onError(
+    /** Callback invoked with the error when a poll fails */
+    callback: (error: unknown) => void,
+  ): () => void {
+    this.errorCallbacks.push(callback)
+    return () => {
+      const idx = this.errorCallbacks.indexOf(callback)
+      if (idx >= 0) this.errorCallbacks.splice(idx, 1)
+    }
+  }
+
+  /** Check for new mutations since last poll. Skips if a poll is already in flight. */
   private async poll(): Promise<void> {
+    if (this.polling) return
+    this.polling = true
     try {
-      const mutations = (await this.transport.send("get_mutations", {
-        since: this.lastTimestamp,
-      })) as MutationEvent[]
+      await this.checkpoint.load()
+      const mutations = await this.transport.send("get_mutations", {
+        since: this.checkpoint.since,
+      })
       if (!mutations || !Array.isArray(mutations)) return
       for (const mutation of mutations) {
+        if (!this.checkpoint.isNew(mutation)) continue
         for (const cb of this.callbacks) cb(mutation)
-        const mutationTime = new Date(mutation.Timestamp).getTime()
-        if (mutationTime > this.lastTimestamp) this.lastTimestamp = mutationTime
+        await this.checkpoint.advance(mutation)
       }
-    } catch {
+    } catch (err) {
       // Daemon might be temporarily unavailable; skip this cycle
+      for (const cb of this.errorCallbacks) cb(err)
+    } finally {
+      this.polling = false
     }
   }
 }
@@ -75,6 +103,61 @@ export interface WatchMutationsOptions {
   workspacePath?: string
   /** Polling interval in ms (default: 1000) */
   interval?: number
-  /** Initial timestamp to start watching from (default: now) */
+  /** Initial timestamp to start watching from, if the checkpoint store has no cursor (default: now) */
   since?: number
+  /** Store to resume from and save the cursor to, e.g. a FileCursorStore */
+  checkpoint?: CursorStore
+}
+
+/**
+ * Stream mutation events as an async iterable. Pull-based: the next batch is only
+ * fetched once the consumer has taken every event from the previous one, and an
+ * empty batch waits `interval` ms before asking again. Failed fetches end the
+ * stream by throwing from the loop, and aborting the signal throws an AbortedError.
+ * An event counts as delivered (and is saved to the `checkpoint` store) once the
+ * consumer asks for the next one, so the event a loop breaks out on is yielded
+ * again when a later stream resumes from the same store.
+ */
+export async function* mutationStream(
+  /** Fetch the mutations after a timestamp in ms */
+  fetch: (since: number, options: RequestOptions) => Promise<MutationEvent[]>,
+  /** Stream options */
+  options: MutationStreamOptions = {},
+): AsyncGenerator<MutationEvent, void, undefined> {
+  const { types, issueIds, signal, interval = 1000 } = options
+  const typeSet = types ? new Set<string>(types) : null
+  const idSet = issueIds ? new Set(issueIds) : null
+  const checkpoint = new MutationCheckpoint(options.since, options.checkpoint)
+  await checkpoint.load()
+
+  while (true) {
+    throwIfAborted(signal, "get_mutations")
+    const mutations = (await fetch(checkpoint.since, { signal })).filter(m => checkpoint.isNew(m))
+    for (const mutation of mutations) {
+      const wanted =
+        (!typeSet || typeSet.has(mutation.Type)) && (!idSet || idSet.has(mutation.IssueID))
+      if (wanted) {
+        yield mutation
+        throwIfAborted(signal, "get_mutations")
+      }
+      await checkpoint.advance(mutation)
+    }
+    if (mutations.length === 0) await sleep(interval, signal)
+  }
+}
+
+/** Options for `mutationStream` and `BeadsClient.mutations`. */
+export interface MutationStreamOptions {
+  /** Timestamp in ms to stream mutations after, if the checkpoint store has no cursor (default: now) */
+  since?: number
+  /** Store to resume from and save the cursor to as events are consumed */
+  checkpoint?: CursorStore
+  /** Only yield mutations of these types (default: all) */
+  types?: MutationType[]
+  /** Only yield mutations of these issues (default: all) */
+  issueIds?: string[]
+  /** Ends the stream with an AbortedError, cancelling any request or wait in progress */
+  signal?: AbortSignal
+  /** Time to wait between polls that return nothing, in ms (default: 1000) */
+  interval?: number
 }
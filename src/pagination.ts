@@ -0,0 +1,182 @@
+import { DaemonValidationError } from "./errors.js"
+
+/** Number of items per page when `pageSize` isn't given. */
+export const DEFAULT_PAGE_SIZE = 50
+
+/**
+ * Fetch one page of a query's results, asking for one more than `pageSize` (the
+ * extra one tells whether there are more). The cursor remembers the last item
+ * handed out, so if issues ahead of it were added or removed since, the next
+ * page resumes right after that item, and nothing is skipped or repeated.
+ *
+ * A `windowed` transport is sent the cursor (`offset` and `after`) and returns
+ * just the page. Any other transport only takes a `limit`, so the page is cut
+ * from the first `offset + pageSize + 1` results. Throws a DaemonValidationError
+ * if the results don't move past the cursor.
+ */
+export async function fetchPage<T extends { id: string }>(
+  /** Fetch the results in a window of the query, in a stable order */
+  fetch: (window: PageWindow) => Promise<T[]>,
+  /** Page size and cursor */
+  page: PageOptions = {},
+  /** Operation being paginated, for error messages */
+  operation: string = "list",
+  /** Whether the transport honors `offset` and `after` */
+  windowed: boolean = false,
+): Promise<Page<T>> {
+  const pageSize = page.pageSize ?? DEFAULT_PAGE_SIZE
+  if (!Number.isInteger(pageSize) || pageSize < 1) {
+    throw new DaemonValidationError(`pageSize must be a positive integer, got ${pageSize}`, {
+      operation,
+    })
+  }
+  const cursor = page.cursor ? decodeCursor(page.cursor, operation) : { offset: 0 }
+
+  /** Where the page starts in results that begin at the top of the query. */
+  const startOf = (results: T[]): number => {
+    const idx = cursor.last ? results.findIndex(item => item.id === cursor.last) : -1
+    return idx >= 0 ? idx + 1 : cursor.offset
+  }
+
+  let results: T[]
+  let start = 0
+  if (windowed) {
+    const window: PageWindow = { offset: cursor.offset, limit: pageSize + 1 }
+    if (cursor.last !== undefined) window.after = cursor.last
+    results = await fetch(window)
+  } else {
+    let limit = cursor.offset + pageSize + 1
+    results = await fetch({ limit })
+    start = startOf(results)
+    if (results.length >= limit && start + pageSize + 1 > limit) {
+      // The last item moved further down; fetch far enough to fill the page from there
+      limit = start + pageSize + 1
+      results = await fetch({ limit })
+      start = startOf(results)
+    }
+  }
+
+  const items = results.slice(start, start + pageSize)
+  if (cursor.last !== undefined && items.some(item => item.id === cursor.last)) {
+    throw new DaemonValidationError(
+      "Page did not move past the cursor (the transport ignored offset or after)",
+      { operation },
+    )
+  }
+  const hasMore = results.length > start + pageSize
+  const offset = (windowed ? cursor.offset : start) + items.length
+  const nextCursor = hasMore ? encodeCursor({ offset, last: items[items.length - 1]?.id }) : null
+  return { items, hasMore, nextCursor }
+}
+
+/**
+ * Apply a page window to a query's full, ordered results, as the `list`, `ready`
+ * and `blocked` operations do: skip past the `after` item if it's present, or
+ * else the first `offset` results, then keep up to `limit`. Throws a
+ * DaemonValidationError for a negative or fractional `offset`.
+ */
+export function applyWindow<T extends { id: string }>(
+  /** Full, ordered results */
+  results: T[],
+  /** Operation arguments */
+  args: Record<string, unknown>,
+  /** Limit when the arguments don't set one */
+  defaultLimit: number,
+  /** Operation, for error messages */
+  operation: string,
+): T[] {
+  const offset = args.offset ?? 0
+  if (typeof offset !== "number" || !Number.isInteger(offset) || offset < 0) {
+    throw new DaemonValidationError(`offset must be a non-negative integer, got ${offset}`, {
+      operation,
+    })
+  }
+  const idx = typeof args.after === "string" ? results.findIndex(r => r.id === args.after) : -1
+  const start = idx >= 0 ? idx + 1 : offset
+  const limit = typeof args.limit === "number" ? args.limit : defaultLimit
+  return results.slice(start, start + limit)
+}
+
+/**
+ * Yield every item of a paginated query, fetching each page once the previous one
+ * is used up. Throws a DaemonValidationError if a page holds only items already
+ * yielded, rather than fetching the same page forever.
+ */
+export async function* walkPages<T extends { id: string }>(
+  /** Fetch the page at a cursor (undefined for the first page) */
+  fetch: (cursor: string | undefined) => Promise<Page<T>>,
+  /** Operation being paginated, for error messages */
+  operation: string = "list",
+): AsyncGenerator<T, void, undefined> {
+  const seen = new Set<string>()
+  let cursor: string | undefined
+  do {
+    const page = await fetch(cursor)
+    if (page.items.length > 0 && page.items.every(item => seen.has(item.id))) {
+      throw new DaemonValidationError("Page did not move past the cursor", { operation })
+    }
+    for (const item of page.items) seen.add(item.id)
+    yield* page.items
+    cursor = page.nextCursor ?? undefined
+  } while (cursor)
+}
+
+/** Serialize a cursor into an opaque string. */
+function encodeCursor(
+  /** Cursor position */
+  cursor: PageCursor,
+): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url")
+}
+
+/** Parse a cursor produced by `encodeCursor`. */
+function decodeCursor(
+  /** Opaque cursor string */
+  cursor: string,
+  /** Operation being paginated, for error messages */
+  operation: string,
+): PageCursor {
+  try {
+    const parsed = JSON.parse(Buffer.from(cursor, "base64url").toString("utf-8")) as PageCursor
+    if (Number.isInteger(parsed.offset) && parsed.offset >= 0) return parsed
+  } catch {
+    // Fall through to the error below
+  }
+  throw new DaemonValidationError(`Invalid page cursor: ${cursor}`, { operation })
+}
+
+/** Position in a paginated query. */
+interface PageCursor {
+  /** Number of items before the next page */
+  offset: number
+  /** ID of the last item handed out */
+  last?: string
+}
+
+/** One page of results. */
+export interface Page<T> {
+  /** Items on this page */
+  items: T[]
+  /** Whether there are more items after this page */
+  hasMore: boolean
+  /** Cursor for the next page, or null on the last page */
+  nextCursor: string | null
+}
+
+/** The slice of a query's results to fetch, as sent to the transport. */
+export interface PageWindow {
+  /** Number of results to skip, if `after` isn't found (sent only to transports that honor it) */
+  offset?: number
+  /** ID of the last item handed out; results resume right after it */
+  after?: string
+  /** Maximum number of results */
+  limit: number
+}
+
+/** Which page to fetch. */
+export interface PageOptions {
+  /** Number of items per page (default: 50) */
+  pageSize?: number
+  /** `nextCursor` from the previous page (default: the first page) */
+  cursor?: string
+}
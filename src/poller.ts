@@ -1,24 +1,38 @@
-import type { Transport } from "./types.js"
+import { changeSetFromMutations, refetchChangeSet } from "./changes.js"
+import { isUnknownOperationError } from "./errors.js"
+import { MutationCheckpoint } from "./mutation-cursor.js"
+import type { ChangeSet, MutationEvent, Transport } from "./types.js"
 
 /**
- * Polls the daemon's `stats` endpoint on a configurable interval
- * and emits change events when the data changes. At most one poll
- * request is in flight at any time; interval ticks that fire while
- * a poll is running are skipped to prevent overlapping requests and
+ * Polls the daemon on a configurable interval and emits change events when
+ * the data changes. With `mutations` enabled, it polls `get_mutations` and
+ * reports which issues were created, updated or deleted, each mutation once;
+ * otherwise (or if the daemon doesn't know `get_mutations`) it hashes the `stats`
+ * response, which only tells that something changed and misses edits that leave
+ * the counts alone.
+ * At most one poll request is in flight at any time; interval ticks that fire
+ * while a poll is running are skipped to prevent overlapping requests and
  * out-of-order `lastHash` updates.
  */
 export class ChangePoller {
   private transport: Transport
   private intervalId: NodeJS.Timeout | null = null
-  private callbacks: Array<() => void> = []
+  private callbacks: Array<(changes: ChangeSet) => void> = []
+  private errorCallbacks: Array<(error: unknown) => void> = []
   private lastHash: string = ""
+  private checkpoint: MutationCheckpoint
+  private useMutations: boolean
   private polling: boolean = false
 
   constructor(
     /** Transport to poll through */
     transport: Transport,
+    /** Poller options */
+    options: ChangePollerOptions = {},
   ) {
     this.transport = transport
+    this.useMutations = options.mutations ?? false
+    this.checkpoint = new MutationCheckpoint(options.since)
   }
 
   /** Start polling for changes. */
@@ -42,8 +56,8 @@ export class ChangePoller {
 
   /** Register a change callback. Returns an unsubscribe function. */
   onChange(
-    /** Callback invoked when changes are detected */
-    callback: () => void,
+    /** Callback invoked with what changed */
+    callback: (changes: ChangeSet) => void,
   ): () => void {
     this.callbacks.push(callback)
     return () => {
@@ -52,21 +66,68 @@ export class ChangePoller {
     }
   }
 
-  /** Check for changes by comparing stats hashes. Skips if a poll is already in flight. */
+  /** Register a callback for failed polls. Returns an unsubscribe function. */
+  onError(
+    /** Callback invoked with the error when a poll fails */
+    callback: (error: unknown) => void,
+  ): () => void {
+    this.errorCallbacks.push(callback)
+    return () => {
+      const idx = this.errorCallbacks.indexOf(callback)
+      if (idx >= 0) this.errorCallbacks.splice(idx, 1)
+    }
+  }
+
+  /** Check for changes. Skips if a poll is already in flight. */
   private async poll(): Promise<void> {
     if (this.polling) return
     this.polling = true
     try {
-      const stats = await this.transport.send("stats", {})
-      const hash = JSON.stringify(stats)
-      if (this.lastHash && hash !== this.lastHash) {
-        for (const cb of this.callbacks) cb()
-      }
-      this.lastHash = hash
-    } catch {
+      if (this.useMutations) await this.pollMutations()
+      else await this.pollStats()
+    } catch (err) {
       // Daemon might be temporarily unavailable; skip this cycle
+      for (const cb of this.errorCallbacks) cb(err)
     } finally {
       this.polling = false
     }
   }
+
+  /** Report the mutations since the last poll. */
+  private async pollMutations(): Promise<void> {
+    let mutations: MutationEvent[] | null
+    try {
+      mutations = await this.transport.send("get_mutations", { since: this.checkpoint.since })
+    } catch (err) {
+      // Other rejections may be passing; only an unknown operation means it will never work
+      if (!isUnknownOperationError(err)) throw err
+      this.useMutations = false
+      return this.pollStats()
+    }
+    if (!Array.isArray(mutations)) return
+
+    const fresh = mutations.filter(mutation => this.checkpoint.isNew(mutation))
+    if (fresh.length === 0) return
+    for (const mutation of fresh) await this.checkpoint.advance(mutation)
+    const changes = changeSetFromMutations(fresh)
+    for (const cb of this.callbacks) cb(changes)
+  }
+
+  /** Report a change when the stats hash differs from the last poll's. */
+  private async pollStats(): Promise<void> {
+    const stats = await this.transport.send("stats", {})
+    const hash = JSON.stringify(stats)
+    if (this.lastHash && hash !== this.lastHash) {
+      for (const cb of this.callbacks) cb(refetchChangeSet())
+    }
+    this.lastHash = hash
+  }
+}
+
+/** Options for ChangePoller. */
+export interface ChangePollerOptions {
+  /** Poll `get_mutations` to report which issues changed, instead of hashing `stats` (default: false) */
+  mutations?: boolean
+  /** With `mutations`, the timestamp in ms to report changes after (default: now) */
+  since?: number
 }
@@ -0,0 +1,120 @@
+import {
+  ConnectionRefusedError,
+  DaemonTimeoutError,
+  FramingError,
+  abortedError,
+  throwIfAborted,
+} from "./errors.js"
+
+/** Operations that never modify data and are always safe to retry. */
+export const READ_OPERATIONS: ReadonlySet<string> = new Set([
+  "list",
+  "show",
+  "ready",
+  "blocked",
+  "stats",
+  "ping",
+  "health",
+  "info",
+  "get_mutations",
+  "comment_list",
+  "label_list",
+  "label_list_all",
+])
+
+/** Whether an operation is read-only (and therefore retryable by default). */
+export function isReadOperation(
+  /** Operation name */
+  operation: string,
+): boolean {
+  return READ_OPERATIONS.has(operation)
+}
+
+/**
+ * Whether an error is transient: the daemon was unreachable, restarting, or slow.
+ * Errors the daemon reported deliberately (not found, validation) are never retried.
+ */
+export function isTransientError(
+  /** Error thrown by a transport */
+  error: unknown,
+): boolean {
+  return (
+    error instanceof ConnectionRefusedError ||
+    error instanceof DaemonTimeoutError ||
+    error instanceof FramingError
+  )
+}
+
+/** Compute the delay before a given retry, with exponential growth and random jitter. */
+export function backoffDelay(
+  /** Zero-based retry number */
+  attempt: number,
+  /** Retry policy */
+  policy: RetryPolicy = {},
+): number {
+  const { minDelay = 100, maxDelay = 2000, factor = 2, jitter = 0.5 } = policy
+  const base = Math.min(maxDelay, minDelay * factor ** attempt)
+  // Spread retries from many clients so they don't all hit a restarting daemon at once
+  const spread = base * Math.min(1, Math.max(0, jitter))
+  return Math.round(base - spread + Math.random() * spread)
+}
+
+/**
+ * Run an async function, retrying with backoff while it fails with a retryable error.
+ * The last error is rethrown once retries are exhausted.
+ */
+export async function withRetry<T>(
+  /** Function to attempt */
+  fn: () => Promise<T>,
+  /** Retry policy */
+  policy: RetryPolicy = {},
+  /** Decides whether an error is worth retrying (default: transient errors only) */
+  shouldRetry: (error: unknown) => boolean = isTransientError,
+  /** Stops further attempts and interrupts the backoff delay */
+  signal?: AbortSignal,
+): Promise<T> {
+  const retries = policy.retries ?? 3
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn()
+    } catch (err) {
+      if (attempt >= retries || !shouldRetry(err) || signal?.aborted) throw err
+      await sleep(backoffDelay(attempt, policy), signal)
+    }
+  }
+}
+
+/** Wait for the given delay, rejecting early if the signal fires. */
+export function sleep(
+  /** Delay in ms */
+  ms: number,
+  /** Cancellation signal */
+  signal?: AbortSignal,
+): Promise<void> {
+  throwIfAborted(signal)
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(abortedError(undefined, signal!))
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort)
+      resolve()
+    }, ms)
+    signal?.addEventListener("abort", onAbort, { once: true })
+  })
+}
+
+/** Retry policy for transient daemon failures. */
+export interface RetryPolicy {
+  /** Maximum number of retries after the first attempt (default: 3) */
+  retries?: number
+  /** Delay before the first retry in ms (default: 100) */
+  minDelay?: number
+  /** Upper bound on any single delay in ms (default: 2000) */
+  maxDelay?: number
+  /** Multiplier applied to the delay after each retry (default: 2) */
+  factor?: number
+  /** Fraction of each delay to randomize, from 0 to 1 (default: 0.5) */
+  jitter?: number
+}
@@ -0,0 +1,111 @@
+import { DaemonValidationError } from "./errors.js"
+import type { ReadyFilter, SortField, SortSpec } from "./types.js"
+
+/** Fields issues can be sorted by. */
+export const SORT_FIELDS: readonly SortField[] = [
+  "priority",
+  "created_at",
+  "updated_at",
+  "closed_at",
+  "title",
+  "dependent_count",
+]
+
+/** How long an issue counts as recent under the `hybrid` ready policy (48 hours, as in `bd ready`). */
+const RECENT_MS = 48 * 60 * 60 * 1000
+
+/** Fields of an issue (or raw JSONL record) that sorting looks at. */
+export interface SortableIssue {
+  title: string
+  priority: number
+  created_at: string
+  updated_at: string
+  closed_at?: string
+  dependent_count?: number
+}
+
+/**
+ * Check and normalize a `sort` argument: a single key or a list of keys, most
+ * significant first. Throws a DaemonValidationError for unknown fields or directions.
+ */
+export function normalizeSort(
+  /** The `sort` argument */
+  sort: unknown,
+  /** Operation being sorted, for error messages */
+  operation: string,
+): Required<SortSpec>[] {
+  const specs = Array.isArray(sort) ? sort : [sort]
+  return specs.map(spec => {
+    const { field, direction = "asc" } = (spec ?? {}) as SortSpec
+    if (!SORT_FIELDS.includes(field)) {
+      throw new DaemonValidationError(`Cannot sort by ${JSON.stringify(field)}`, { operation })
+    }
+    if (direction !== "asc" && direction !== "desc") {
+      throw new DaemonValidationError(`Invalid sort direction ${JSON.stringify(direction)}`, {
+        operation,
+      })
+    }
+    return { field, direction }
+  })
+}
+
+/**
+ * Comparator for issues by sort keys, each breaking the previous one's ties.
+ * Issues without a value (e.g. `closed_at` on open issues) sort last in either
+ * direction; issues equal on every key keep their order.
+ */
+export function compareIssues<T extends SortableIssue>(
+  /** Sort keys, most significant first */
+  sort: Required<SortSpec>[],
+  /** Look up an issue's dependent count, if it isn't stored on the issue */
+  dependentCount: (issue: T) => number = issue => issue.dependent_count ?? 0,
+): (a: T, b: T) => number {
+  const value = (issue: T, field: SortField): string | number | undefined => {
+    if (field === "dependent_count") return dependentCount(issue)
+    const v = issue[field]
+    // Timestamps are empty rather than absent in some records
+    return v === "" || v === null ? undefined : v
+  }
+  return (a, b) => {
+    for (const { field, direction } of sort) {
+      const x = value(a, field)
+      const y = value(b, field)
+      if (x === y) continue
+      if (x === undefined) return 1
+      if (y === undefined) return -1
+      const order = x < y ? -1 : 1
+      return direction === "asc" ? order : -order
+    }
+    return 0
+  }
+}
+
+/**
+ * Comparator for a `ready` sort policy, matching the daemon:
+ * - `priority`: highest priority first, then oldest first
+ * - `oldest`: oldest first
+ * - `hybrid` (default): issues created in the last 48 hours first, by priority;
+ *   then older issues, oldest first
+ */
+export function compareReady<T extends SortableIssue>(
+  /** Sort policy (default: hybrid) */
+  policy: ReadyFilter["sort_policy"] = "hybrid",
+  /** Current time, to tell recent issues from old ones */
+  now: Date = new Date(),
+): (a: T, b: T) => number {
+  const byPriority = compareIssues<T>([
+    { field: "priority", direction: "asc" },
+    { field: "created_at", direction: "asc" },
+  ])
+  const byAge = compareIssues<T>([{ field: "created_at", direction: "asc" }])
+  if (policy === "priority") return byPriority
+  if (policy === "oldest") return byAge
+
+  const cutoff = now.getTime() - RECENT_MS
+  const isRecent = (issue: T) => new Date(issue.created_at).getTime() >= cutoff
+  return (a, b) => {
+    const recentA = isRecent(a)
+    if (recentA !== isRecent(b)) return recentA ? -1 : 1
+    return recentA ? byPriority(a, b) : byAge(a, b)
+  }
+}
@@ -0,0 +1,7 @@
+export { MockDaemon } from "./mock-daemon.js"
+export type {
+  MockDaemonOptions,
+  MockDaemonRequest,
+  MockDaemonHandler,
+  MockDaemonFault,
+} from "./mock-daemon.js"
@@ -0,0 +1,259 @@
+import { createServer, type Server, type Socket } from "node:net"
+import { mkdirSync, mkdtempSync, rmSync } from "node:fs"
+import { join } from "node:path"
+import { tmpdir } from "node:os"
+import { MemoryTransport, type MemoryTransportOptions } from "../transport/memory.js"
+
+/**
+ * A fake beads daemon for integration tests. Listens on `.beads/bd.sock` in a
+ * workspace (a fresh temp directory by default) and speaks the daemon's
+ * newline-delimited JSON protocol, backed by a `MemoryTransport`.
+ *
+ * Operations can be scripted with `handle()`, and faults (errors, framing
+ * errors, EOFs, hangs) injected with `fail()`, so tools can be tested
+ * end-to-end through the real `DaemonTransport` code path.
+ */
+export class MockDaemon {
+  /** Workspace root containing `.beads/bd.sock` */
+  readonly workspaceRoot: string
+  /** Path of the Unix socket the daemon listens on */
+  readonly socketPath: string
+  /** In-memory store backing the default operation handlers */
+  readonly store: MemoryTransport
+  /** Every request received, in order */
+  readonly requests: MockDaemonRequest[] = []
+
+  private server: Server
+  private sockets: Set<Socket> = new Set()
+  private handlers: Map<string, MockDaemonHandler> = new Map()
+  private faults: MockDaemonFault[] = []
+  private latency: number
+  private ownsWorkspace: boolean
+
+  private constructor(
+    /** Workspace root */
+    workspaceRoot: string,
+    /** Whether the workspace is a temp directory to delete on stop */
+    ownsWorkspace: boolean,
+    /** Daemon options */
+    options: MockDaemonOptions,
+  ) {
+    this.workspaceRoot = workspaceRoot
+    this.ownsWorkspace = ownsWorkspace
+    this.socketPath = join(workspaceRoot, ".beads", "bd.sock")
+    this.latency = options.latency ?? 0
+    this.store = new MemoryTransport({
+      issues: options.issues,
+      actor: options.actor,
+      prefix: options.prefix,
+      now: options.now,
+    })
+    this.server = createServer(socket => this.accept(socket))
+  }
+
+  /** Create a mock daemon and start listening. */
+  static async start(
+    /** Daemon options */
+    options: MockDaemonOptions = {},
+  ): Promise<MockDaemon> {
+    const ownsWorkspace = !options.workspaceRoot
+    const workspaceRoot = options.workspaceRoot ?? mkdtempSync(join(tmpdir(), "beads-mock-"))
+    mkdirSync(join(workspaceRoot, ".beads"), { recursive: true })
+
+    const daemon = new MockDaemon(workspaceRoot, ownsWorkspace, options)
+    await new Promise<void>((resolve, reject) => {
+      daemon.server.once("error", reject)
+      daemon.server.listen(daemon.socketPath, () => resolve())
+    })
+    return daemon
+  }
+
+  /**
+   * Override an operation with a custom handler. The handler's return value is
+   * sent as `data`; throwing sends `{ success: false, error: message }`.
+   */
+  handle(
+    /** Operation name */
+    operation: string,
+    /** Handler for the operation */
+    handler: MockDaemonHandler,
+  ): this {
+    this.handlers.set(operation, handler)
+    return this
+  }
+
+  /** Inject a fault into upcoming requests (all operations unless `operation` is set). */
+  fail(
+    /** Fault to inject */
+    fault: MockDaemonFault,
+  ): this {
+    this.faults.push({ times: 1, ...fault })
+    return this
+  }
+
+  /** Delay every response by the given number of milliseconds. */
+  setLatency(
+    /** Latency in ms */
+    ms: number,
+  ): this {
+    this.latency = ms
+    return this
+  }
+
+  /** Stop listening, drop open connections, and delete the temp workspace if one was created. */
+  async stop(): Promise<void> {
+    for (const socket of this.sockets) socket.destroy()
+    this.sockets.clear()
+    await new Promise<void>(resolve => this.server.close(() => resolve()))
+    if (this.ownsWorkspace) rmSync(this.workspaceRoot, { recursive: true, force: true })
+  }
+
+  /** Read newline-delimited requests from a client connection. */
+  private accept(
+    /** Newly accepted client socket */
+    socket: Socket,
+  ): void {
+    this.sockets.add(socket)
+    socket.on("close", () => this.sockets.delete(socket))
+    socket.on("error", () => {})
+
+    let buffer = ""
+    socket.on("data", (chunk: Buffer) => {
+      buffer += chunk.toString()
+      let newline = buffer.indexOf("\n")
+      while (newline >= 0) {
+        const line = buffer.slice(0, newline).trim()
+        buffer = buffer.slice(newline + 1)
+        if (line) void this.respond(socket, line)
+        newline = buffer.indexOf("\n")
+      }
+    })
+  }
+
+  /** Handle one request line and write the response (or the injected fault). */
+  private async respond(
+    /** Client socket */
+    socket: Socket,
+    /** A complete request line */
+    line: string,
+  ): Promise<void> {
+    let request: MockDaemonRequest
+    try {
+      request = JSON.parse(line) as MockDaemonRequest
+    } catch {
+      this.write(socket, { success: false, error: "invalid request: malformed JSON" }, undefined)
+      return
+    }
+    this.requests.push(request)
+
+    if (this.latency > 0) await new Promise(r => setTimeout(r, this.latency))
+
+    const fault = this.takeFault(request.operation)
+    if (fault) {
+      switch (fault.kind) {
+        case "error":
+          this.write(
+            socket,
+            { success: false, error: fault.message ?? "injected failure" },
+            request,
+          )
+          return
+        case "framing":
+          socket.end("{not valid json")
+          return
+        case "eof":
+          socket.end()
+          return
+        case "hang":
+          return
+      }
+    }
+
+    try {
+      const handler = this.handlers.get(request.operation)
+      const data =
+        handler ?
+          await handler(request.args ?? {}, request)
+        : await this.store.send(request.operation, request.args ?? {})
+      this.write(socket, { success: true, data }, request)
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err)
+      this.write(socket, { success: false, error: message }, request)
+    }
+  }
+
+  /**
+   * Write a response. Requests carrying an `id` (persistent mode) get it echoed back
+   * and the connection stays open; otherwise the connection is closed, as the real daemon does.
+   */
+  private write(
+    /** Client socket */
+    socket: Socket,
+    /** Response body */
+    response: { success: boolean; data?: unknown; error?: string },
+    /** The request being answered, if it could be parsed */
+    request: MockDaemonRequest | undefined,
+  ): void {
+    if (socket.destroyed) return
+    const line = JSON.stringify(
+      request?.id === undefined ? response : { ...response, id: request.id },
+    )
+    if (request?.id === undefined) socket.end(line + "\n")
+    else socket.write(line + "\n")
+  }
+
+  /** Consume the first pending fault that applies to this operation. */
+  private takeFault(
+    /** Operation of the current request */
+    operation: string,
+  ): MockDaemonFault | undefined {
+    const idx = this.faults.findIndex(f => !f.operation || f.operation === operation)
+    if (idx < 0) return undefined
+    const fault = this.faults[idx]
+    fault.times = (fault.times ?? 1) - 1
+    if (fault.times <= 0) this.faults.splice(idx, 1)
+    return fault
+  }
+}
+
+/** A request as received by the mock daemon. */
+export interface MockDaemonRequest {
+  operation: string
+  args?: Record<string, unknown>
+  cwd?: string
+  actor?: string
+  id?: number
+}
+
+/** Custom handler for a scripted operation. */
+export type MockDaemonHandler = (
+  /** Request arguments */
+  args: Record<string, unknown>,
+  /** The full request */
+  request: MockDaemonRequest,
+) => unknown
+
+/** A fault to inject into upcoming requests. */
+export interface MockDaemonFault {
+  /**
+   * - `error`: respond with `{ success: false, error: message }`
+   * - `framing`: send invalid JSON and close
+   * - `eof`: close the connection without responding
+   * - `hang`: never respond
+   */
+  kind: "error" | "framing" | "eof" | "hang"
+  /** Error message for `error` faults */
+  message?: string
+  /** Only apply to this operation (default: any) */
+  operation?: string
+  /** Number of requests to affect (default: 1) */
+  times?: number
+}
+
+/** Options for MockDaemon. */
+export interface MockDaemonOptions extends MemoryTransportOptions {
+  /** Workspace root to listen in (default: a new temp directory, deleted on stop) */
+  workspaceRoot?: string
+  /** Delay before each response in ms (default: 0) */
+  latency?: number
+}
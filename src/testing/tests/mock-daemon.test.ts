@@ -0,0 +1,112 @@
+import { describe, it, expect, afterEach } from "vitest"
+import { existsSync } from "node:fs"
+import { MockDaemon } from "../index.js"
+import { DaemonTransport } from "../../transport/daemon.js"
+import { BeadsClient } from "../../client.js"
+import {
+  DaemonTimeoutError,
+  DaemonValidationError,
+  FramingError,
+  NotFoundError,
+} from "../../errors.js"
+import type { Issue } from "../../types.js"
+
+describe("MockDaemon", () => {
+  let daemon: MockDaemon | null = null
+
+  afterEach(async () => {
+    await daemon?.stop()
+    daemon = null
+  })
+
+  it("serves the full operation set through DaemonTransport", async () => {
+    daemon = await MockDaemon.start({ prefix: "mock" })
+    const transport = new DaemonTransport(daemon.workspaceRoot)
+
+    const created = (await transport.send("create", { title: "From test" })) as Issue
+    expect(created.id).toMatch(/^mock-/)
+
+    const shown = (await transport.send("show", { id: created.id })) as Issue
+    expect(shown.title).toBe("From test")
+    await expect(transport.send("show", { id: "mock-nope" })).rejects.toBeInstanceOf(NotFoundError)
+
+    expect(daemon.requests.map(r => r.operation)).toEqual(["create", "show", "show"])
+    expect(daemon.requests[0]).toMatchObject({ cwd: daemon.workspaceRoot, actor: "sdk" })
+  })
+
+  it("supports persistent connections", async () => {
+    daemon = await MockDaemon.start()
+    const transport = new DaemonTransport(daemon.workspaceRoot, { persistent: true })
+
+    const results = await Promise.all([
+      transport.send("ping", {}),
+      transport.send("stats", {}),
+      transport.send("list", {}),
+    ])
+    expect(results[0]).toEqual({ message: "pong", version: "memory" })
+    expect(results[2]).toEqual([])
+    transport.close()
+  })
+
+  it("runs scripted handlers", async () => {
+    daemon = await MockDaemon.start()
+    daemon.handle("ping", () => ({ message: "pong", version: "0.49.0" }))
+    daemon.handle("stats", () => {
+      throw new Error("database is locked")
+    })
+    const transport = new DaemonTransport(daemon.workspaceRoot)
+
+    expect(await transport.send("ping", {})).toEqual({ message: "pong", version: "0.49.0" })
+    await expect(transport.send("stats", {})).rejects.toBeInstanceOf(DaemonValidationError)
+  })
+
+  it("injects faults", async () => {
+    daemon = await MockDaemon.start()
+    const transport = new DaemonTransport(daemon.workspaceRoot, { requestTimeout: 100 })
+
+    daemon.fail({ kind: "framing" })
+    await expect(transport.send("list", {})).rejects.toBeInstanceOf(FramingError)
+
+    daemon.fail({ kind: "eof" })
+    await expect(transport.send("list", {})).rejects.toThrow(/EOF/)
+
+    daemon.fail({ kind: "hang", operation: "stats" })
+    expect(await transport.send("list", {})).toEqual([])
+    await expect(transport.send("stats", {})).rejects.toBeInstanceOf(DaemonTimeoutError)
+
+    daemon.fail({ kind: "error", message: "boom", times: 2 })
+    await expect(transport.send("list", {})).rejects.toThrow("boom")
+    await expect(transport.send("list", {})).rejects.toThrow("boom")
+    expect(await transport.send("list", {})).toEqual([])
+  })
+
+  it("adds latency", async () => {
+    daemon = await MockDaemon.start({ latency: 50 })
+    const transport = new DaemonTransport(daemon.workspaceRoot)
+
+    const start = Date.now()
+    await transport.send("ping", {})
+    expect(Date.now() - start).toBeGreaterThanOrEqual(45)
+  })
+
+  it("lets BeadsClient connect and write through the daemon", async () => {
+    daemon = await MockDaemon.start()
+    const client = new BeadsClient({ pollInterval: 60_000 })
+    await client.connect(daemon.workspaceRoot)
+
+    const issue = await client.create({ title: "End to end" })
+    await client.close(issue.id)
+    expect((await client.show(issue.id)).status).toBe("closed")
+
+    await client.disconnect()
+  })
+
+  it("removes its temp workspace on stop", async () => {
+    daemon = await MockDaemon.start()
+    const root = daemon.workspaceRoot
+    await daemon.stop()
+    daemon = null
+
+    expect(existsSync(root)).toBe(false)
+  })
+})
@@ -0,0 +1,33 @@
+import { describe, it, expect, vi } from "vitest"
+import { batched } from "../batch.js"
+import { AbortedError } from "../errors.js"
+
+describe("batched", () => {
+  it("processes every item in order with bounded concurrency", async () => {
+    let active = 0
+    let maxActive = 0
+    const results = await batched([1, 2, 3, 4, 5], 2, async n => {
+      active++
+      maxActive = Math.max(maxActive, active)
+      await new Promise(r => setTimeout(r, 1))
+      active--
+      return n * 10
+    })
+
+    expect(results).toEqual([10, 20, 30, 40, 50])
+    expect(maxActive).toBeLessThanOrEqual(2)
+  })
+
+  it("stops scheduling batches once the signal is aborted", async () => {
+    const controller = new AbortController()
+    const fn = vi.fn(async (n: number) => {
+      if (n === 2) controller.abort()
+      return n
+    })
+
+    await expect(batched([1, 2, 3, 4, 5], 2, fn, controller.signal)).rejects.toBeInstanceOf(
+      AbortedError,
+    )
+    expect(fn).toHaveBeenCalledTimes(2)
+  })
+})
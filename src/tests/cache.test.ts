@@ -0,0 +1,140 @@
+import { describe, it, expect, vi, afterEach } from "vitest"
+import { IssueCache } from "../cache.js"
+import { BeadsClient } from "../client.js"
+import { MemoryTransport } from "../transport/memory.js"
+import type { Issue, OperationArgs, Transport } from "../types.js"
+
+/** Create a minimal raw issue record. */
+function makeIssue(overrides: Record<string, unknown> = {}) {
+  return {
+    id: "bd-1",
+    title: "Test issue",
+    status: "open",
+    priority: 2,
+    issue_type: "task",
+    created_at: "2025-01-01T00:00:00Z",
+    updated_at: "2025-01-01T00:00:00Z",
+    ...overrides,
+  }
+}
+
+describe("IssueCache", () => {
+  let client: BeadsClient
+  let cache: IssueCache
+
+  afterEach(async () => {
+    cache.close()
+    await client.disconnect()
+  })
+
+  /** Connect a client to an in-memory daemon with the given issues, and cache it. */
+  async function setup(issues: ReturnType<typeof makeIssue>[]): Promise<void> {
+    client = new BeadsClient({ transport: new MemoryTransport({ issues }), pollInterval: 10 })
+    await client.connect()
+    cache = new IssueCache(client)
+    // Mutations are polled by millisecond timestamp, from the moment of connecting
+    await new Promise(r => setTimeout(r, 5))
+  }
+
+  /** The IDs in the last result a watch callback received. */
+  function lastIds(callback: ReturnType<typeof vi.fn>): string[] {
+    return (callback.mock.lastCall?.[0] as Issue[] | undefined)?.map(i => i.id) ?? []
+  }
+
+  it("keeps a live query up to date as issues change", async () => {
+    await setup([makeIssue({ id: "bd-1" }), makeIssue({ id: "bd-2", status: "closed" })])
+    const callback = vi.fn()
+    cache.watch({ status: "open" }, callback)
+    await vi.waitFor(() => expect(lastIds(callback)).toEqual(["bd-1"]))
+
+    const created = await client.create({ title: "New" })
+    await vi.waitFor(() => expect(lastIds(callback)).toEqual(["bd-1", created.id]))
+
+    await client.close("bd-1")
+    await vi.waitFor(() => expect(lastIds(callback)).toEqual([created.id]))
+    expect(cache.get("bd-1")?.status).toBe("closed")
+  })
+
+  it("re-fetches only the issues that changed", async () => {
+    await setup([makeIssue({ id: "bd-1" }), makeIssue({ id: "bd-2" })])
+    const callback = vi.fn()
+    cache.watch({}, callback)
+    await vi.waitFor(() => expect(callback).toHaveBeenCalledTimes(1))
+
+    const show = vi.spyOn(client, "show")
+    const list = vi.spyOn(client, "list")
+    await client.update("bd-2", { title: "Renamed" })
+
+    await vi.waitFor(() => expect(callback).toHaveBeenCalledTimes(2))
+    expect(show.mock.calls.map(([id]) => id)).toEqual(["bd-2"])
+    expect(list).not.toHaveBeenCalled()
+    expect(cache.get("bd-2")?.title).toBe("Renamed")
+  })
+
+  it("shows an edit everywhere the issue appears", async () => {
+    await setup([
+      makeIssue({ id: "bd-1", dependencies: [{ depends_on_id: "bd-2", type: "blocks" }] }),
+      makeIssue({ id: "bd-2", status: "closed", due_at: "2025-02-01T00:00:00Z" }),
+    ])
+    const callback = vi.fn()
+    cache.watch({ status: "open" }, callback)
+    await vi.waitFor(() => expect(lastIds(callback)).toEqual(["bd-1"]))
+
+    await client.update("bd-2", { title: "Renamed blocker" })
+
+    await vi.waitFor(() =>
+      expect(callback.mock.lastCall?.[0][0].dependencies[0]).toMatchObject({
+        id: "bd-2",
+        title: "Renamed blocker",
+        due_at: "2025-02-01T00:00:00Z",
+        dependency_type: "blocks",
+      }),
+    )
+  })
+
+  it("fills in issues listed without their links once they're fetched in full", async () => {
+    const memory = new MemoryTransport({ issues: [makeIssue({ id: "bd-1" })] })
+    const transport: Transport = {
+      send: async <K extends string>(operation: K, args: OperationArgs<K>) => {
+        const result = await memory.send(operation, args)
+        if (operation !== "list") return result
+        const issues = result as Issue[]
+        return issues.map(
+          ({ dependencies: _d, dependents: _t, ...fields }) => fields,
+        ) as typeof result
+      },
+      close: () => memory.close(),
+    }
+    client = new BeadsClient({ transport, pollInterval: 10 })
+    await client.connect()
+    cache = new IssueCache(client)
+    await new Promise(r => setTimeout(r, 5))
+    const errors = vi.fn()
+    cache.onError(errors)
+    const callback = vi.fn()
+    cache.watch({}, callback)
+    await cache.idle()
+    expect(cache.get("bd-1")).toBeUndefined()
+
+    await client.update("bd-1", { title: "Renamed" })
+    await vi.waitFor(() => expect(lastIds(callback)).toEqual(["bd-1"]))
+    expect(cache.get("bd-1")).toMatchObject({ title: "Renamed", dependencies: [], dependents: [] })
+    expect(errors).not.toHaveBeenCalled()
+  })
+
+  it("drops deleted issues and stops notifying after unsubscribe", async () => {
+    await setup([makeIssue({ id: "bd-1" }), makeIssue({ id: "bd-2" })])
+    const callback = vi.fn()
+    const unsubscribe = cache.watch({}, callback)
+    await vi.waitFor(() => expect(lastIds(callback)).toEqual(["bd-1", "bd-2"]))
+
+    await client.delete("bd-2")
+    await vi.waitFor(() => expect(lastIds(callback)).toEqual(["bd-1"]))
+    expect(cache.get("bd-2")).toBeUndefined()
+
+    unsubscribe()
+    await client.update("bd-1", { title: "Unwatched" })
+    await vi.waitFor(() => expect(cache.get("bd-1")?.title).toBe("Unwatched"))
+    expect(callback).toHaveBeenCalledTimes(2)
+  })
+})
@@ -0,0 +1,162 @@
+import { describe, it, expect, vi, afterEach } from "vitest"
+import { Capabilities, compareVersions, isSupportedVersion, parseVersion } from "../capabilities.js"
+import { BeadsClient } from "../client.js"
+import {
+  DaemonValidationError,
+  UnsupportedOperationError,
+  UnsupportedVersionError,
+} from "../errors.js"
+import { MockDaemon } from "../testing/mock-daemon.js"
+import { MemoryTransport } from "../transport/memory.js"
+
+describe("parseVersion", () => {
+  it("parses semver-like versions", () => {
+    expect(parseVersion("0.30.2")).toEqual([0, 30, 2])
+    expect(parseVersion("v1.2")).toEqual([1, 2, 0])
+    expect(parseVersion("1.0.0-rc1")).toEqual([1, 0, 0])
+  })
+
+  it("returns null for anything else", () => {
+    expect(parseVersion("memory")).toBeNull()
+    expect(parseVersion("")).toBeNull()
+  })
+
+  it("compares versions numerically", () => {
+    expect(compareVersions([0, 9, 0], [0, 10, 0])).toBeLessThan(0)
+    expect(compareVersions([1, 0, 0], [0, 99, 99])).toBeGreaterThan(0)
+    expect(compareVersions([0, 25, 1], [0, 25, 1])).toBe(0)
+  })
+})
+
+describe("isSupportedVersion", () => {
+  it("accepts versions in range and unrecognized versions", () => {
+    expect(isSupportedVersion("0.30.0")).toBe(true)
+    expect(isSupportedVersion("memory")).toBe(true)
+  })
+
+  it("rejects versions outside the range", () => {
+    expect(isSupportedVersion("0.1.0")).toBe(false)
+    expect(isSupportedVersion("2.0.0")).toBe(false)
+  })
+})
+
+describe("Capabilities", () => {
+  it("assumes a daemon supports every operation until it rejects one", () => {
+    const caps = Capabilities.forDaemon("0.25.0")
+    expect(caps.supports("get_mutations")).toBe(true)
+    expect(Capabilities.forDaemon(null).supports("get_mutations")).toBe(true)
+
+    caps.markUnsupported("get_mutations")
+    expect(caps.supports("get_mutations")).toBe(false)
+    expect(caps.supports("label_list_all")).toBe(true)
+  })
+
+  it("names the daemon version when rejecting an operation", () => {
+    const caps = Capabilities.forDaemon("0.24.3")
+    caps.markUnsupported("label_list_all")
+    expect(() => caps.require("label_list_all")).toThrow(
+      'Operation "label_list_all" is unsupported by daemon v0.24.3',
+    )
+  })
+
+  it("sends page windows only where queries are known to honor them", () => {
+    expect(Capabilities.forDaemon("0.30.0").pageWindows).toBe(false)
+    expect(Capabilities.forJsonl(false).pageWindows).toBe(true)
+    expect(Capabilities.forCustomTransport().pageWindows).toBe(false)
+    expect(Capabilities.forCustomTransport(true).pageWindows).toBe(true)
+  })
+
+  it("reports JSONL write support only when writable", () => {
+    expect(Capabilities.forJsonl(false).supports("create")).toBe(false)
+    expect(Capabilities.forJsonl(true).supports("create")).toBe(true)
+    expect(Capabilities.forJsonl(true).supports("comment_add")).toBe(false)
+  })
+})
+
+describe("BeadsClient capability negotiation", () => {
+  let daemon: MockDaemon | null = null
+  let client: BeadsClient | null = null
+
+  afterEach(async () => {
+    await client?.disconnect()
+    await daemon?.stop()
+    client = null
+    daemon = null
+  })
+
+  /** Start a mock daemon that reports the given version from `ping`. */
+  async function startDaemon(version: string): Promise<MockDaemon> {
+    daemon = await MockDaemon.start()
+    daemon.handle("ping", () => ({ message: "pong", version }))
+    return daemon
+  }
+
+  it("exposes the daemon's capabilities after connecting", async () => {
+    const { workspaceRoot } = await startDaemon("0.30.1")
+    client = new BeadsClient({ pollInterval: 60_000 })
+    expect(client.capabilities).toBeNull()
+
+    await client.connect(workspaceRoot)
+    expect(client.capabilities?.mode).toBe("daemon")
+    expect(client.capabilities?.version).toBe("0.30.1")
+    expect(client.capabilities?.supports("get_mutations")).toBe(true)
+
+    await client.disconnect()
+    expect(client.capabilities).toBeNull()
+  })
+
+  it("stops sending an operation once the daemon rejects it as unknown", async () => {
+    const mock = await startDaemon("0.24.0")
+    mock.handle("get_mutations", () => {
+      throw new Error("unknown operation: get_mutations")
+    })
+    client = new BeadsClient({ pollInterval: 60_000 })
+    await client.connect(mock.workspaceRoot)
+
+    const sent = () => mock.requests.filter(r => r.operation === "get_mutations").length
+    await expect(client.getMutations()).rejects.toThrow(UnsupportedOperationError)
+    const sentBefore = sent()
+    await expect(client.getMutations()).rejects.toThrow(
+      'Operation "get_mutations" is unsupported by daemon v0.24.0',
+    )
+    expect(client.capabilities?.supports("get_mutations")).toBe(false)
+    expect(sent()).toBe(sentBefore)
+  })
+
+  it("keeps an operation the daemon rejects for other reasons", async () => {
+    const mock = await startDaemon("0.30.0")
+    mock.handle("get_mutations", () => {
+      throw new Error("database is locked")
+    })
+    client = new BeadsClient({ pollInterval: 60_000 })
+    await client.connect(mock.workspaceRoot)
+
+    await expect(client.getMutations()).rejects.toThrow(DaemonValidationError)
+    expect(client.capabilities?.supports("get_mutations")).toBe(true)
+  })
+
+  it("warns about an out-of-range daemon version by default", async () => {
+    const { workspaceRoot } = await startDaemon("0.5.0")
+    const onWarning = vi.fn()
+    client = new BeadsClient({ pollInterval: 60_000, onWarning })
+
+    await client.connect(workspaceRoot)
+    expect(client.isConnected()).toBe(true)
+    expect(onWarning).toHaveBeenCalledWith(expect.stringContaining("v0.5.0"))
+  })
+
+  it("refuses an out-of-range daemon version when versionCheck is error", async () => {
+    const { workspaceRoot } = await startDaemon("3.0.0")
+    client = new BeadsClient({ pollInterval: 60_000, versionCheck: "error" })
+
+    await expect(client.connect(workspaceRoot)).rejects.toThrow(UnsupportedVersionError)
+    expect(client.isConnected()).toBe(false)
+  })
+
+  it("treats a custom transport as supporting everything", async () => {
+    client = new BeadsClient({ transport: new MemoryTransport() })
+    await client.connect()
+    expect(client.capabilities?.mode).toBe("custom")
+    expect(client.capabilities?.supports("get_mutations")).toBe(true)
+  })
+})
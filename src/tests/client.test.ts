@@ -1,10 +1,19 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest"
-import { mkdirSync, rmSync, writeFileSync } from "node:fs"
+import { mkdirSync, readFileSync, rmSync, writeFileSync } from "node:fs"
 import { join } from "node:path"
 import { mkdtempSync } from "node:fs"
 import { tmpdir } from "node:os"
 import { BeadsClient } from "../client.js"
-import type { Issue } from "../types.js"
+import {
+  AbortedError,
+  ConnectionRefusedError,
+  DaemonValidationError,
+  NotConnectedError,
+  ReadOnlyError,
+} from "../errors.js"
+import { MockDaemon } from "../testing/mock-daemon.js"
+import { MemoryTransport } from "../transport/memory.js"
+import type { ConnectionState, Issue, OperationArgs, RequestOptions, Transport } from "../types.js"
 
 /** Create a minimal JSONL issue record. */
 function makeIssue(overrides: Record<string, unknown> = {}) {
@@ -101,6 +110,82 @@ describe("BeadsClient", () => {
 
       await client.disconnect()
     })
+
+    it("sorts the daemon's results, which come back in its own order", async () => {
+      const issues = Array.from({ length: 12 }, (_, i) =>
+        makeIssue({ id: `bd-${i}`, priority: i % 4, title: `Issue ${i}` }),
+      )
+      const daemon = await MockDaemon.start({ workspaceRoot: tempDir })
+      // Like bd, honor the limit but not the sort
+      const unsorted = (args: Record<string, unknown>) =>
+        issues.slice(0, typeof args.limit === "number" ? args.limit : issues.length)
+      daemon.handle("list", unsorted).handle("ready", unsorted).handle("blocked", unsorted)
+      const client = new BeadsClient({ pollInterval: 60_000, monitorInterval: 0 })
+      await client.connect(tempDir)
+
+      const sort = [{ field: "priority" }, { field: "title", direction: "desc" }] as const
+      const expected = (n: number) =>
+        [...issues]
+          .sort((a, b) => a.priority - b.priority || b.title.localeCompare(a.title))
+          .slice(0, n)
+          .map(i => i.id)
+      const ids = (results: Issue[]) => results.map(i => i.id)
+      expect(ids(await client.list({ sort: [...sort], limit: 5 }))).toEqual(expected(5))
+      expect(ids(await client.ready({ sort: [...sort] }))).toEqual(expected(10))
+      expect(ids(await client.blocked({ sort: [...sort] }))).toEqual(expected(12))
+
+      // Each query kept asking for more until it had every match
+      const limits = daemon.requests.filter(r => r.operation === "list").map(r => r.args?.limit)
+      expect(limits).toEqual([5, 10, 20])
+      expect(daemon.requests.every(r => !("sort" in (r.args ?? {})))).toBe(true)
+
+      await client.disconnect()
+      await daemon.stop()
+    })
+
+    it("rejects sort when paging through the daemon's results", async () => {
+      const daemon = await MockDaemon.start({ workspaceRoot: tempDir })
+      const client = new BeadsClient({ pollInterval: 60_000, monitorInterval: 0 })
+      await client.connect(tempDir)
+
+      const sort = { field: "priority" } as const
+      await expect(client.listPage({ sort })).rejects.toBeInstanceOf(DaemonValidationError)
+      await expect(client.readyPage({ sort })).rejects.toThrow(/sort/)
+      expect(daemon.requests.map(r => r.operation)).not.toContain("list")
+
+      await client.disconnect()
+      await daemon.stop()
+    })
+
+    it("checks date filters before asking the daemon", async () => {
+      const daemon = await MockDaemon.start({ workspaceRoot: tempDir })
+      const client = new BeadsClient({ pollInterval: 60_000, monitorInterval: 0 })
+      await client.connect(tempDir)
+
+      await expect(client.list({ due_after: "next week" })).rejects.toBeInstanceOf(
+        DaemonValidationError,
+      )
+      expect(daemon.requests.map(r => r.operation)).not.toContain("list")
+
+      await client.disconnect()
+      await daemon.stop()
+    })
+
+    it("sorts through the JSONL fallback", async () => {
+      writeFileSync(
+        jsonlPath,
+        [makeIssue({ id: "bd-1", priority: 3 }), makeIssue({ id: "bd-2", priority: 1 })]
+          .map(i => JSON.stringify(i))
+          .join("\n"),
+      )
+      const client = new BeadsClient()
+      await client.connect(tempDir)
+
+      const issues = await client.list({ sort: { field: "priority" } })
+      expect(issues.map(i => i.id)).toEqual(["bd-2", "bd-1"])
+
+      await client.disconnect()
+    })
   })
 
   describe("show", () => {
@@ -217,6 +302,365 @@ describe("BeadsClient", () => {
 
       await client.disconnect()
     })
+
+    it("raises a ReadOnlyError naming the operation", async () => {
+      writeFileSync(jsonlPath, JSON.stringify(makeIssue()))
+      const client = new BeadsClient()
+      await client.connect(tempDir)
+
+      const error = await client.delete("bd-1").catch(e => e)
+      expect(error).toBeInstanceOf(ReadOnlyError)
+      expect(error.code).toBe("READ_ONLY")
+      expect(error.operation).toBe("delete")
+
+      await client.disconnect()
+    })
+  })
+
+  describe("write operations in no-db mode", () => {
+    it("writes through the JSONL file when config.yaml sets no-db", async () => {
+      writeFileSync(jsonlPath, JSON.stringify(makeIssue()))
+      writeFileSync(join(beadsDir, "config.yaml"), "no-db: true\n")
+      const client = new BeadsClient()
+      await client.connect(tempDir)
+
+      const created = await client.create({ title: "Offline" })
+      await client.close(created.id, "done")
+      const shown = await client.show(created.id)
+      expect(shown.status).toBe("closed")
+      expect(readFileSync(jsonlPath, "utf-8")).toContain(created.id)
+
+      await client.disconnect()
+    })
+
+    it("writes through the JSONL file when jsonlWrites is set", async () => {
+      writeFileSync(jsonlPath, JSON.stringify(makeIssue({ id: "bd-1" })))
+      const client = new BeadsClient({ jsonlWrites: true })
+      await client.connect(tempDir)
+
+      const updated = await client.update("bd-1", { title: "Updated" })
+      expect(updated.title).toBe("Updated")
+
+      await client.disconnect()
+    })
+  })
+
+  describe("transport switching", () => {
+    let daemon: MockDaemon | null = null
+    let client: BeadsClient | null = null
+
+    afterEach(async () => {
+      await client?.disconnect()
+      await daemon?.stop()
+      client = null
+      daemon = null
+    })
+
+    it("falls back to JSONL when the daemon dies and returns when it restarts", async () => {
+      writeFileSync(jsonlPath, JSON.stringify(makeIssue({ id: "bd-jsonl" })))
+      daemon = await MockDaemon.start({ workspaceRoot: tempDir })
+      client = new BeadsClient({ pollInterval: 60_000, monitorInterval: 20 })
+      const states: ConnectionState[] = []
+      client.onConnectionStateChange(state => states.push(state))
+
+      await client.connect(tempDir)
+      expect(client.connectionState).toBe("daemon")
+
+      await daemon.stop()
+      daemon = null
+      await vi.waitFor(() => expect(client?.connectionState).toBe("fallback"))
+      expect((await client.list()).map(i => i.id)).toEqual(["bd-jsonl"])
+
+      daemon = await MockDaemon.start({ workspaceRoot: tempDir })
+      await vi.waitFor(() => expect(client?.connectionState).toBe("daemon"))
+      expect(await client.list()).toEqual([])
+
+      await client.disconnect()
+      expect(states).toEqual(["daemon", "fallback", "daemon", "disconnected"])
+    })
+
+    it("retries a read through the fallback as soon as the daemon refuses it", async () => {
+      writeFileSync(jsonlPath, JSON.stringify(makeIssue({ id: "bd-jsonl" })))
+      daemon = await MockDaemon.start({ workspaceRoot: tempDir })
+      client = new BeadsClient({ pollInterval: 60_000, monitorInterval: 60_000 })
+      await client.connect(tempDir)
+
+      await daemon.stop()
+      daemon = null
+      expect((await client.list()).map(i => i.id)).toEqual(["bd-jsonl"])
+      expect(client.connectionState).toBe("fallback")
+    })
+
+    it("reports disconnected when the daemon dies and there is no JSONL file", async () => {
+      daemon = await MockDaemon.start({ workspaceRoot: tempDir })
+      client = new BeadsClient({ pollInterval: 60_000, monitorInterval: 60_000 })
+      await client.connect(tempDir)
+
+      await daemon.stop()
+      daemon = null
+      await expect(client.list()).rejects.toThrow(ConnectionRefusedError)
+      expect(client.connectionState).toBe("disconnected")
+      await expect(client.list()).rejects.toThrow("no JSONL file to fall back to")
+    })
+  })
+
+  describe("offline writes", () => {
+    let daemon: MockDaemon | null = null
+
+    afterEach(async () => {
+      await daemon?.stop()
+      daemon = null
+    })
+
+    it("queues writes on the fallback and replays them when the daemon returns", async () => {
+      writeFileSync(jsonlPath, JSON.stringify(makeIssue({ id: "bd-1" })))
+      const onConflict = vi.fn()
+      const client = new BeadsClient({
+        pollInterval: 60_000,
+        monitorInterval: 20,
+        offlineWrites: true,
+        onConflict,
+      })
+      await client.connect(tempDir)
+      expect(client.connectionState).toBe("fallback")
+
+      const created = await client.create({ title: "Written offline" })
+      await client.addComment(created.id, "queued too")
+      expect((await client.show(created.id)).title).toBe("Written offline")
+      expect(client.queuedWrites.map(e => e.operation)).toEqual(["create", "comment_add"])
+
+      daemon = await MockDaemon.start({ workspaceRoot: tempDir, prefix: "real" })
+      await vi.waitFor(() => expect(client.queuedWrites).toHaveLength(0))
+
+      const [issue] = await client.list({ query: "Written offline" })
+      expect(issue.id).toMatch(/^real-/)
+      expect((await client.getComments(issue.id)).map(c => c.text)).toEqual(["queued too"])
+      expect(onConflict).not.toHaveBeenCalled()
+
+      await client.disconnect()
+    })
+
+    it("doesn't queue a write whose connection broke after it was sent", async () => {
+      writeFileSync(jsonlPath, JSON.stringify(makeIssue({ id: "bd-1" })))
+      daemon = await MockDaemon.start({ workspaceRoot: tempDir })
+      const running = daemon
+      const client = new BeadsClient({
+        pollInterval: 60_000,
+        monitorInterval: 60_000,
+        offlineWrites: true,
+      })
+      await client.connect(tempDir)
+
+      // The daemon applies the create, then goes away before its reply arrives
+      const { DaemonTransport } = await import("../transport/daemon.js")
+      const send = DaemonTransport.prototype.send as Transport["send"]
+      const sendSpy = vi
+        .spyOn(DaemonTransport.prototype, "send")
+        .mockImplementation(async function <K extends string>(
+          this: Transport,
+          operation: K,
+          args: OperationArgs<K>,
+          options?: RequestOptions,
+        ) {
+          const result = await send.bind(this)(operation, args, options)
+          if (operation !== "create") return result
+          await running.stop()
+          throw new ConnectionRefusedError("Daemon connection error: read ECONNRESET", {
+            operation,
+          })
+        } as Transport["send"])
+      daemon = null
+
+      await expect(client.create({ title: "Applied" })).rejects.toThrow(ConnectionRefusedError)
+      expect(client.connectionState).toBe("fallback")
+      expect(client.queuedWrites).toHaveLength(0)
+
+      sendSpy.mockRestore()
+      await client.disconnect()
+    })
+
+    it("still refuses writes on the fallback without offlineWrites", async () => {
+      writeFileSync(jsonlPath, JSON.stringify(makeIssue({ id: "bd-1" })))
+      const client = new BeadsClient({ monitorInterval: 0 })
+      await client.connect(tempDir)
+
+      await expect(client.create({ title: "Nope" })).rejects.toThrow(ReadOnlyError)
+      await client.disconnect()
+    })
+  })
+
+  describe("events", () => {
+    it("reports connection changes and request timings", async () => {
+      const client = new BeadsClient({ transport: new MemoryTransport(), pollInterval: 60_000 })
+      const connected = vi.fn()
+      const disconnected = vi.fn()
+      const requests: string[] = []
+      client.on("connected", connected)
+      client.on("disconnected", disconnected)
+      client.on("request", timing => requests.push(`${timing.operation}:${timing.success}`))
+
+      await client.connect()
+      await client.list()
+      await client.show("bd-nope").catch(() => {})
+
+      expect(connected).toHaveBeenCalledWith({ state: "daemon", previous: "disconnected" })
+      expect(requests).toEqual(["list:true", "show:false"])
+
+      await client.disconnect()
+      expect(disconnected).toHaveBeenCalledWith({ state: "disconnected", previous: "daemon" })
+    })
+
+    it("surfaces poller errors", async () => {
+      const failure = new Error("stats unavailable")
+      const transport: Transport = {
+        send: async () => {
+          throw failure
+        },
+        close: () => {},
+      }
+      const client = new BeadsClient({ transport, pollInterval: 60_000 })
+      const onError = vi.fn()
+      client.on("error", onError)
+
+      await client.connect()
+      await vi.waitFor(() =>
+        expect(onError).toHaveBeenCalledWith({ source: "poller", error: failure }),
+      )
+      await client.disconnect()
+    })
+
+    it("polls for mutations while there are mutation handlers", async () => {
+      const daemon = await MockDaemon.start({ workspaceRoot: tempDir })
+      const client = new BeadsClient({ pollInterval: 20, monitorInterval: 0 })
+      await client.connect(tempDir)
+
+      const mutations: string[] = []
+      const unsubscribe = client.on("mutation", event => mutations.push(event.Type))
+      // Mutations are polled by millisecond timestamp, from the moment of subscribing
+      await new Promise(r => setTimeout(r, 5))
+      await client.create({ title: "Watched" })
+      await vi.waitFor(() => expect(mutations).toContain("create"))
+
+      unsubscribe()
+      expect((client as unknown as { mutationPoller: unknown }).mutationPoller).toBeNull()
+
+      await client.disconnect()
+      await daemon.stop()
+    })
+  })
+
+  describe("pagination", () => {
+    /** Connect to an in-memory daemon with `n` open issues, every third blocked by the first. */
+    async function connectWithIssues(n: number): Promise<BeadsClient> {
+      const issues = Array.from({ length: n }, (_, i) =>
+        makeIssue({
+          id: `bd-${i}`,
+          dependencies: i > 0 && i % 3 === 0 ? [{ depends_on_id: "bd-0", type: "blocks" }] : [],
+        }),
+      )
+      const client = new BeadsClient({
+        transport: new MemoryTransport({ issues }),
+        pollInterval: 60_000,
+      })
+      await client.connect()
+      return client
+    }
+
+    it("walks every issue past the default limits", async () => {
+      const client = await connectWithIssues(120)
+
+      const listed: string[] = []
+      for await (const issue of client.listAll({}, { pageSize: 25 })) listed.push(issue.id)
+      expect(listed).toHaveLength(120)
+      expect(new Set(listed).size).toBe(120)
+
+      let ready = 0
+      for await (const _ of client.readyAll()) ready++
+      expect(ready).toBe(81)
+
+      let blocked = 0
+      for await (const _ of client.blockedAll({}, { pageSize: 7 })) blocked++
+      expect(blocked).toBe(39)
+      await client.disconnect()
+    })
+
+    it("returns a page envelope", async () => {
+      const client = await connectWithIssues(3)
+
+      const first = await client.listPage({}, { pageSize: 2 })
+      expect(first).toMatchObject({ hasMore: true, nextCursor: expect.any(String) })
+      const second = await client.listPage({}, { pageSize: 2, cursor: first.nextCursor! })
+      expect(second.items.map(i => i.id)).toEqual(["bd-2"])
+      expect(second).toMatchObject({ hasMore: false, nextCursor: null })
+      await client.disconnect()
+    })
+
+    it("cuts pages from the daemon's results, which take only a limit", async () => {
+      const issues = Array.from({ length: 5 }, (_, i) => makeIssue({ id: `bd-${i}` }))
+      const daemon = await MockDaemon.start({ workspaceRoot: tempDir, issues })
+      const client = new BeadsClient({ pollInterval: 60_000, monitorInterval: 0 })
+      await client.connect(tempDir)
+
+      const listed: string[] = []
+      for await (const issue of client.listAll({}, { pageSize: 2 })) listed.push(issue.id)
+      expect(listed).toEqual(issues.map(i => i.id))
+
+      const lists = daemon.requests.filter(r => r.operation === "list").map(r => r.args)
+      expect(lists).toEqual([{ limit: 3 }, { limit: 5 }, { limit: 7 }])
+      await client.disconnect()
+      await daemon.stop()
+    })
+
+    it("walks every issue on a daemon that ignores the page window", async () => {
+      const issues = Array.from({ length: 5 }, (_, i) => makeIssue({ id: `bd-${i}` }))
+      const daemon = await MockDaemon.start({ workspaceRoot: tempDir })
+      daemon.handle("list", args => issues.slice(0, Number(args.limit ?? 50)))
+      daemon.handle("blocked", () => issues)
+      const client = new BeadsClient({ pollInterval: 60_000, monitorInterval: 0 })
+      await client.connect(tempDir)
+
+      const listed: string[] = []
+      for await (const issue of client.listAll({}, { pageSize: 2 })) listed.push(issue.id)
+      expect(listed).toEqual(issues.map(i => i.id))
+
+      const blocked: string[] = []
+      for await (const issue of client.blockedAll({}, { pageSize: 2 })) blocked.push(issue.id)
+      expect(blocked).toEqual(issues.map(i => i.id))
+      expect(daemon.requests.filter(r => r.operation === "blocked")).toHaveLength(1)
+
+      await client.disconnect()
+      await daemon.stop()
+    })
+  })
+
+  describe("mutations", () => {
+    it("streams matching mutations until aborted", async () => {
+      const daemon = await MockDaemon.start({ workspaceRoot: tempDir })
+      const client = new BeadsClient({ pollInterval: 20, monitorInterval: 0 })
+      await client.connect(tempDir)
+      const issue = await client.create({ title: "Watched" })
+      await client.create({ title: "Ignored" })
+      await client.update(issue.id, { title: "Renamed" })
+
+      const controller = new AbortController()
+      const seen: string[] = []
+      const loop = (async () => {
+        const stream = client.mutations({
+          since: 0,
+          issueIds: [issue.id],
+          signal: controller.signal,
+        })
+        for await (const event of stream) {
+          seen.push(event.Type)
+          if (seen.length === 2) controller.abort()
+        }
+      })()
+
+      await expect(loop).rejects.toThrow(AbortedError)
+      expect(seen).toEqual(["create", "update"])
+      await client.disconnect()
+      await daemon.stop()
+    })
   })
 
   describe("onChange", () => {
@@ -232,6 +676,57 @@ describe("BeadsClient", () => {
       unsub()
       await client.disconnect()
     })
+
+    it("says which issues changed in the JSONL file", async () => {
+      writeFileSync(jsonlPath, JSON.stringify(makeIssue({ id: "bd-1" })))
+      const client = new BeadsClient({ monitorInterval: 0 })
+      await client.connect(tempDir)
+      const callback = vi.fn()
+      client.onChange(callback)
+
+      writeFileSync(
+        jsonlPath,
+        [
+          makeIssue({ id: "bd-1", title: "Renamed", updated_at: "2025-02-01T00:00:00Z" }),
+          makeIssue({ id: "bd-2" }),
+        ]
+          .map(i => JSON.stringify(i))
+          .join("\n"),
+      )
+
+      await vi.waitFor(() =>
+        expect(callback).toHaveBeenCalledWith({
+          created: ["bd-2"],
+          updated: ["bd-1"],
+          deleted: [],
+          mutations: [],
+          refetch: false,
+        }),
+      )
+      await client.disconnect()
+    })
+
+    it("reports edits from the daemon's mutations, even when counts don't change", async () => {
+      const daemon = await MockDaemon.start({
+        workspaceRoot: tempDir,
+        issues: [makeIssue({ id: "bd-1" })],
+      })
+      const client = new BeadsClient({ pollInterval: 20, monitorInterval: 0 })
+      await client.connect(tempDir)
+      const callback = vi.fn()
+      client.onChange(callback)
+
+      await new Promise(r => setTimeout(r, 5))
+      await client.update("bd-1", { title: "Renamed" })
+
+      await vi.waitFor(() =>
+        expect(callback).toHaveBeenCalledWith(
+          expect.objectContaining({ updated: ["bd-1"], refetch: false }),
+        ),
+      )
+      await client.disconnect()
+      await daemon.stop()
+    })
   })
 
   describe("connect idempotency", () => {
@@ -362,5 +857,12 @@ describe("BeadsClient", () => {
       const client = new BeadsClient()
       await expect(client.list()).rejects.toThrow("Not connected")
     })
+
+    it("raises a NotConnectedError", async () => {
+      const client = new BeadsClient()
+      const error = await client.show("bd-1").catch(e => e)
+      expect(error).toBeInstanceOf(NotConnectedError)
+      expect(error.code).toBe("NOT_CONNECTED")
+    })
   })
 })
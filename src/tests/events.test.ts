@@ -0,0 +1,50 @@
+import { describe, it, expect, vi } from "vitest"
+import { TypedEmitter } from "../events.js"
+
+interface TestEvents {
+  ping: (n: number) => void
+  done: () => void
+}
+
+describe("TypedEmitter", () => {
+  it("calls handlers in order with the event arguments", () => {
+    const emitter = new TypedEmitter<TestEvents>()
+    const calls: string[] = []
+    emitter.on("ping", n => calls.push(`a${n}`))
+    emitter.on("ping", n => calls.push(`b${n}`))
+
+    emitter.emit("ping", 1)
+    expect(calls).toEqual(["a1", "b1"])
+  })
+
+  it("removes handlers through off() or the returned function", () => {
+    const emitter = new TypedEmitter<TestEvents>()
+    const a = vi.fn()
+    const b = vi.fn()
+    const unsubscribe = emitter.on("ping", a)
+    emitter.on("ping", b)
+
+    unsubscribe()
+    emitter.off("ping", b)
+    emitter.emit("ping", 1)
+
+    expect(a).not.toHaveBeenCalled()
+    expect(b).not.toHaveBeenCalled()
+    expect(emitter.listenerCount("ping")).toBe(0)
+  })
+
+  it("runs once() handlers a single time", () => {
+    const emitter = new TypedEmitter<TestEvents>()
+    const handler = vi.fn()
+    emitter.once("done", handler)
+
+    emitter.emit("done")
+    emitter.emit("done")
+    expect(handler).toHaveBeenCalledTimes(1)
+  })
+
+  it("ignores events without handlers", () => {
+    const emitter = new TypedEmitter<TestEvents>()
+    expect(() => emitter.emit("done")).not.toThrow()
+  })
+})
@@ -0,0 +1,149 @@
+import { describe, it, expect, vi } from "vitest"
+import {
+  createMiddleware,
+  loggerMiddleware,
+  retryMiddleware,
+  timingMiddleware,
+  withMiddleware,
+  type Middleware,
+} from "../middleware.js"
+import { ConnectionRefusedError } from "../errors.js"
+import type { OperationArgs, OperationResult, Transport } from "../types.js"
+
+/** Create a mock transport that echoes the operation and args it receives. */
+function echoTransport(): Transport {
+  return {
+    send: vi.fn<Transport["send"]>(
+      async <K extends string>(operation: K, args: OperationArgs<K>) =>
+        ({ operation, args }) as OperationResult<K>,
+    ) as Transport["send"],
+    close: vi.fn(),
+  }
+}
+
+describe("withMiddleware", () => {
+  it("returns the transport unchanged when there are no middlewares", () => {
+    const transport = echoTransport()
+    expect(withMiddleware(transport)).toBe(transport)
+  })
+
+  it("runs middlewares in order, outermost first", async () => {
+    const calls: string[] = []
+    const tag =
+      (name: string): Middleware =>
+      async (_context, next) => {
+        calls.push(`${name}:before`)
+        const result = await next()
+        calls.push(`${name}:after`)
+        return result
+      }
+
+    const transport = withMiddleware(echoTransport(), tag("a"), tag("b"))
+    await transport.send("list", {})
+
+    expect(calls).toEqual(["a:before", "b:before", "b:after", "a:after"])
+  })
+
+  it("forwards options and closes the wrapped transport", async () => {
+    const inner = echoTransport()
+    const transport = withMiddleware(inner, (_context, next) => next())
+    await transport.send("update", { id: "bd-1" }, { idempotent: true })
+    transport.close()
+
+    expect(inner.send).toHaveBeenCalledWith("update", { id: "bd-1" }, { idempotent: true })
+    expect(inner.close).toHaveBeenCalled()
+  })
+})
+
+describe("createMiddleware", () => {
+  it("lets `before` rewrite arguments", async () => {
+    const injectActor = createMiddleware({
+      before: context => {
+        context.args = { ...context.args, assignee: "herb" }
+      },
+    })
+    const transport = withMiddleware(echoTransport(), injectActor)
+
+    expect(await transport.send("list", { status: "open" })).toEqual({
+      operation: "list",
+      args: { status: "open", assignee: "herb" },
+    })
+  })
+
+  it("lets `after` replace the result", async () => {
+    const transport = withMiddleware(
+      echoTransport(),
+      createMiddleware({ after: (_context, result) => ({ wrapped: result }) }),
+    )
+
+    expect(await transport.send("ping", {})).toEqual({
+      wrapped: { operation: "ping", args: {} },
+    })
+  })
+
+  it("lets `onError` recover from a failure", async () => {
+    const failing: Transport = {
+      send: vi.fn(async () => {
+        throw new Error("boom")
+      }),
+      close: vi.fn(),
+    }
+    const transport = withMiddleware(failing, createMiddleware({ onError: () => [] }))
+
+    expect(await transport.send("list", {})).toEqual([])
+  })
+
+  it("rethrows the error when `onError` returns nothing", async () => {
+    const error = new Error("boom")
+    const failing: Transport = {
+      send: vi.fn(async () => {
+        throw error
+      }),
+      close: vi.fn(),
+    }
+    const seen = vi.fn()
+    const transport = withMiddleware(failing, createMiddleware({ onError: (_, err) => seen(err) }))
+
+    await expect(transport.send("list", {})).rejects.toBe(error)
+    expect(seen).toHaveBeenCalledWith(error)
+  })
+})
+
+describe("built-in middlewares", () => {
+  it("logs each request", async () => {
+    const log = vi.fn()
+    const transport = withMiddleware(echoTransport(), loggerMiddleware(log))
+    await transport.send("stats", {})
+
+    expect(log).toHaveBeenCalledWith(expect.stringMatching(/^\[beads\] stats ok \(\d+ms\)$/))
+  })
+
+  it("reports request timings", async () => {
+    const onTiming = vi.fn()
+    const transport = withMiddleware(echoTransport(), timingMiddleware(onTiming))
+    await transport.send("show", { id: "bd-1" })
+
+    expect(onTiming).toHaveBeenCalledWith(
+      expect.objectContaining({ operation: "show", success: true }),
+    )
+  })
+
+  it("retries transient failures for reads but not writes", async () => {
+    let calls = 0
+    const flaky: Transport = {
+      send: vi.fn<Transport["send"]>(async <K extends string>() => {
+        if (++calls === 1) throw new ConnectionRefusedError("down")
+        return "ok" as OperationResult<K>
+      }) as Transport["send"],
+      close: vi.fn(),
+    }
+    const transport = withMiddleware(flaky, retryMiddleware({ minDelay: 1, maxDelay: 1 }))
+
+    expect(await transport.send("list", {})).toBe("ok")
+    expect(calls).toBe(2)
+
+    calls = 0
+    await expect(transport.send("create", { title: "x" })).rejects.toThrow("down")
+    expect(calls).toBe(1)
+  })
+})
@@ -0,0 +1,57 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest"
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs"
+import { join } from "node:path"
+import { tmpdir } from "node:os"
+import { FileCursorStore, MutationCheckpoint, mutationKey } from "../mutation-cursor.js"
+import type { MutationEvent } from "../types.js"
+
+/** Create a mutation event at the given timestamp in ms. */
+function makeMutation(time: number, issueId: string): MutationEvent {
+  return { Timestamp: new Date(time).toISOString(), Type: "update", IssueID: issueId }
+}
+
+describe("MutationCheckpoint", () => {
+  it("skips what was delivered and re-reads the last millisecond", async () => {
+    const checkpoint = new MutationCheckpoint(0)
+    expect(checkpoint.since).toBe(0)
+
+    const first = makeMutation(1000, "bd-1")
+    await checkpoint.advance(first)
+
+    expect(checkpoint.since).toBe(999)
+    expect(checkpoint.isNew(first)).toBe(false)
+    expect(checkpoint.isNew(makeMutation(1000, "bd-2"))).toBe(true)
+    expect(checkpoint.isNew(makeMutation(999, "bd-3"))).toBe(false)
+    expect(checkpoint.position).toEqual({ timestamp: 1000, delivered: [mutationKey(first)] })
+  })
+})
+
+describe("FileCursorStore", () => {
+  let tempDir: string
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), "beads-cursor-test-"))
+  })
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true })
+  })
+
+  it("round-trips the cursor through the file", async () => {
+    const path = join(tempDir, "cursor.json")
+    const checkpoint = new MutationCheckpoint(0, new FileCursorStore(path))
+    await checkpoint.advance(makeMutation(1000, "bd-1"))
+
+    const resumed = new MutationCheckpoint(0, new FileCursorStore(path))
+    await resumed.load()
+    expect(resumed.isNew(makeMutation(1000, "bd-1"))).toBe(false)
+    expect(resumed.since).toBe(999)
+  })
+
+  it("treats a missing or corrupt file as no cursor", () => {
+    const path = join(tempDir, "cursor.json")
+    expect(new FileCursorStore(path).load()).toBeNull()
+    writeFileSync(path, "{not json")
+    expect(new FileCursorStore(path).load()).toBeNull()
+  })
+})
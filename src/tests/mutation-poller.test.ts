@@ -0,0 +1,135 @@
+import { describe, it, expect, vi } from "vitest"
+import { MutationPoller, mutationStream } from "../mutation-poller.js"
+import { MemoryCursorStore } from "../mutation-cursor.js"
+import { AbortedError } from "../errors.js"
+import type {
+  MutationEvent,
+  MutationType,
+  OperationArgs,
+  OperationResult,
+  Transport,
+} from "../types.js"
+
+/** Create a mutation event at the given timestamp in ms. */
+function makeMutation(time: number, type: MutationType, issueId: string): MutationEvent {
+  return { Timestamp: new Date(time).toISOString(), Type: type, IssueID: issueId }
+}
+
+describe("mutationStream", () => {
+  it("yields mutations in order, asking for the ones after the last seen", async () => {
+    const batches = [
+      [makeMutation(1000, "create", "bd-1"), makeMutation(2000, "update", "bd-1")],
+      [makeMutation(3000, "delete", "bd-1")],
+    ]
+    const fetch = vi.fn(async (_since: number) => batches.shift() ?? [])
+
+    const seen: string[] = []
+    for await (const event of mutationStream(fetch, { since: 0, interval: 1 })) {
+      seen.push(event.Type)
+      if (seen.length === 3) break
+    }
+
+    expect(seen).toEqual(["create", "update", "delete"])
+    expect(fetch.mock.calls.map(([since]) => since)).toEqual([0, 1999])
+  })
+
+  it("only fetches the next batch once the previous one is consumed", async () => {
+    const fetch = vi.fn(async (since: number) => [makeMutation(since + 2, "update", "bd-1")])
+    const stream = mutationStream(fetch, { since: 0 })
+
+    await stream.next()
+    await stream.next()
+    expect(fetch).toHaveBeenCalledTimes(2)
+    await stream.return()
+  })
+
+  it("filters by type and issue ID", async () => {
+    const fetch = vi.fn(async () => [
+      makeMutation(1000, "create", "bd-1"),
+      makeMutation(2000, "status", "bd-2"),
+      makeMutation(3000, "status", "bd-1"),
+      makeMutation(4000, "update", "bd-1"),
+    ])
+    const stream = mutationStream(fetch, { since: 0, types: ["status"], issueIds: ["bd-1"] })
+
+    const { value } = await stream.next()
+    expect(value).toMatchObject({ Type: "status", IssueID: "bd-1" })
+    await stream.return()
+  })
+
+  it("resumes after the last event the consumer asked past", async () => {
+    const log = [makeMutation(1000, "create", "bd-1"), makeMutation(1000, "create", "bd-2")]
+    const fetch = vi.fn(async (since: number) =>
+      log.filter(m => new Date(m.Timestamp).getTime() > since),
+    )
+    const store = new MemoryCursorStore()
+
+    for await (const event of mutationStream(fetch, { since: 0, checkpoint: store })) {
+      if (event.IssueID === "bd-2") break
+    }
+
+    const stream = mutationStream(fetch, { since: 0, checkpoint: store })
+    expect((await stream.next()).value).toMatchObject({ IssueID: "bd-2" })
+    await stream.return()
+  })
+
+  it("throws an AbortedError when the signal fires while waiting", async () => {
+    const controller = new AbortController()
+    const fetch = vi.fn(async () => [])
+    const stream = mutationStream(fetch, { signal: controller.signal, interval: 60_000 })
+
+    const next = stream.next()
+    setTimeout(() => controller.abort(), 5)
+    await expect(next).rejects.toThrow(AbortedError)
+  })
+})
+
+describe("MutationPoller", () => {
+  /** A transport serving `get_mutations` from a list, like the daemon does. */
+  function mutationLog(log: MutationEvent[]): Transport {
+    return {
+      send: async <K extends string>(_operation: K, args: OperationArgs<K>) => {
+        const { since = 0 } = args as OperationArgs<"get_mutations">
+        return log.filter(m => new Date(m.Timestamp).getTime() > since) as OperationResult<K>
+      },
+      close: () => {},
+    }
+  }
+
+  it("delivers events sharing a millisecond exactly once", async () => {
+    const log = [makeMutation(1000, "create", "bd-1")]
+    const poller = new MutationPoller(mutationLog(log), 0)
+    const seen: string[] = []
+    poller.onMutation(event => seen.push(`${event.Type} ${event.IssueID}`))
+
+    poller.start(5)
+    await vi.waitFor(() => expect(seen).toHaveLength(1))
+    // Arrives after the first poll, in the same millisecond
+    log.push(makeMutation(1000, "create", "bd-2"))
+    await vi.waitFor(() => expect(seen).toHaveLength(2))
+    await new Promise(r => setTimeout(r, 20))
+    poller.stop()
+
+    expect(seen).toEqual(["create bd-1", "create bd-2"])
+  })
+
+  it("resumes from the checkpoint store after a restart", async () => {
+    const log = [makeMutation(1000, "create", "bd-1"), makeMutation(2000, "update", "bd-1")]
+    const store = new MemoryCursorStore()
+
+    const first = new MutationPoller(mutationLog(log), 0, store)
+    const firstSeen = vi.fn()
+    first.onMutation(firstSeen)
+    first.start(5)
+    await vi.waitFor(() => expect(firstSeen).toHaveBeenCalledTimes(2))
+    first.stop()
+
+    log.push(makeMutation(3000, "delete", "bd-1"))
+    const second = new MutationPoller(mutationLog(log), 0, store)
+    const secondSeen: string[] = []
+    second.onMutation(event => secondSeen.push(event.Type))
+    second.start(5)
+    await vi.waitFor(() => expect(secondSeen).toEqual(["delete"]))
+    second.stop()
+  })
+})
@@ -0,0 +1,145 @@
+import { describe, it, expect, vi } from "vitest"
+import { applyWindow, fetchPage, walkPages, type PageWindow } from "../pagination.js"
+import { DaemonValidationError } from "../errors.js"
+
+/** Items with IDs item-0 … item-(n-1). */
+function makeItems(n: number): Array<{ id: string }> {
+  return Array.from({ length: n }, (_, i) => ({ id: `item-${i}` }))
+}
+
+/** A query over a mutable list that honours the page window. */
+function queryOver(items: Array<{ id: string }>) {
+  return vi.fn(async (window: PageWindow) => applyWindow(items, { ...window }, 50, "list"))
+}
+
+describe("fetchPage", () => {
+  it("pages through results with hasMore and nextCursor", async () => {
+    const fetch = queryOver(makeItems(5))
+
+    const first = await fetchPage(fetch, { pageSize: 2 }, "list", true)
+    expect(first.items.map(i => i.id)).toEqual(["item-0", "item-1"])
+    expect(first.hasMore).toBe(true)
+    expect(fetch).toHaveBeenLastCalledWith({ offset: 0, limit: 3 })
+
+    const second = await fetchPage(fetch, { pageSize: 2, cursor: first.nextCursor! }, "list", true)
+    expect(second.items.map(i => i.id)).toEqual(["item-2", "item-3"])
+    expect(fetch).toHaveBeenLastCalledWith({ offset: 2, after: "item-1", limit: 3 })
+
+    const last = await fetchPage(fetch, { pageSize: 2, cursor: second.nextCursor! }, "list", true)
+    expect(last).toEqual({ items: [{ id: "item-4" }], hasMore: false, nextCursor: null })
+  })
+
+  it("resumes after the last item seen when earlier items come and go", async () => {
+    const items = makeItems(6)
+    const fetch = queryOver(items)
+    const first = await fetchPage(fetch, { pageSize: 2 }, "list", true)
+
+    // One issue ahead of the cursor is removed, so everything shifts up
+    items.splice(0, 1)
+    const afterRemoval = await fetchPage(
+      fetch,
+      { pageSize: 2, cursor: first.nextCursor! },
+      "list",
+      true,
+    )
+    expect(afterRemoval.items.map(i => i.id)).toEqual(["item-2", "item-3"])
+
+    // Two are added ahead of it, so everything shifts down
+    items.unshift({ id: "new-1" }, { id: "new-2" })
+    const afterInsert = await fetchPage(
+      fetch,
+      { pageSize: 2, cursor: afterRemoval.nextCursor! },
+      "list",
+      true,
+    )
+    expect(afterInsert.items.map(i => i.id)).toEqual(["item-4", "item-5"])
+    expect(afterInsert.hasMore).toBe(false)
+  })
+
+  it("cuts the page from the top results when the transport only takes a limit", async () => {
+    const items = makeItems(6)
+    const fetch = vi.fn(async ({ limit }: PageWindow) => items.slice(0, limit))
+
+    const first = await fetchPage(fetch, { pageSize: 2 })
+    expect(first.items.map(i => i.id)).toEqual(["item-0", "item-1"])
+    expect(fetch).toHaveBeenLastCalledWith({ limit: 3 })
+
+    // Two are added ahead of the cursor, so the page is fetched again far enough down
+    items.unshift({ id: "new-1" }, { id: "new-2" })
+    const second = await fetchPage(fetch, { pageSize: 2, cursor: first.nextCursor! })
+    expect(second.items.map(i => i.id)).toEqual(["item-2", "item-3"])
+    expect(fetch.mock.calls.slice(1).map(([window]) => window)).toEqual([
+      { limit: 5 },
+      { limit: 7 },
+    ])
+  })
+
+  it("throws when a windowed transport doesn't move past the cursor", async () => {
+    const items = makeItems(5)
+    const fetch = vi.fn(async ({ limit }: PageWindow) => items.slice(0, limit))
+
+    const first = await fetchPage(fetch, { pageSize: 2 }, "list", true)
+    await expect(
+      fetchPage(fetch, { pageSize: 2, cursor: first.nextCursor! }, "list", true),
+    ).rejects.toThrow(DaemonValidationError)
+  })
+
+  it("rejects malformed cursors and page sizes", async () => {
+    const fetch = queryOver(makeItems(3))
+    await expect(fetchPage(fetch, { cursor: "nope" })).rejects.toThrow(DaemonValidationError)
+    await expect(fetchPage(fetch, { pageSize: 0 })).rejects.toThrow(DaemonValidationError)
+    expect(fetch).not.toHaveBeenCalled()
+  })
+})
+
+describe("applyWindow", () => {
+  const items = makeItems(5)
+  const ids = (results: Array<{ id: string }>) => results.map(i => i.id)
+
+  it("skips past the after item, or else the offset", () => {
+    expect(ids(applyWindow(items, { after: "item-1", limit: 2 }, 50, "list"))).toEqual([
+      "item-2",
+      "item-3",
+    ])
+    expect(ids(applyWindow(items, { after: "gone", offset: 3 }, 50, "list"))).toEqual([
+      "item-3",
+      "item-4",
+    ])
+    expect(ids(applyWindow(items, {}, 2, "list"))).toEqual(["item-0", "item-1"])
+  })
+
+  it("rejects an invalid offset", () => {
+    expect(() => applyWindow(items, { offset: -1 }, 50, "list")).toThrow(DaemonValidationError)
+    expect(() => applyWindow(items, { offset: 1.5 }, 50, "list")).toThrow(DaemonValidationError)
+  })
+})
+
+describe("walkPages", () => {
+  it("yields every item across pages, fetching each item once", async () => {
+    const fetch = queryOver(makeItems(5))
+    const seen: string[] = []
+    for await (const item of walkPages(cursor =>
+      fetchPage(fetch, { pageSize: 2, cursor }, "list", true),
+    )) {
+      seen.push(item.id)
+    }
+    expect(seen).toEqual(makeItems(5).map(i => i.id))
+
+    // Each page asks for its own items plus one to look ahead
+    const fetched = await Promise.all(fetch.mock.results.map(r => r.value as Promise<unknown[]>))
+    expect(fetched.map(r => r.length)).toEqual([3, 3, 1])
+  })
+
+  it("throws instead of looping when pages repeat", async () => {
+    const pages = [
+      { items: [{ id: "a" }, { id: "b" }], hasMore: true, nextCursor: "next" },
+      { items: [{ id: "a" }, { id: "b" }], hasMore: true, nextCursor: "next" },
+    ]
+    const seen: string[] = []
+    const walk = async () => {
+      for await (const item of walkPages(async cursor => pages[cursor ? 1 : 0])) seen.push(item.id)
+    }
+    await expect(walk()).rejects.toThrow(DaemonValidationError)
+    expect(seen).toEqual(["a", "b"])
+  })
+})
@@ -1,16 +1,17 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest"
 import { ChangePoller } from "../poller.js"
-import type { Transport } from "../types.js"
+import { DaemonValidationError } from "../errors.js"
+import type { MutationEvent, OperationResult, Transport } from "../types.js"
 
 /** Create a mock transport that returns stats. */
 function mockTransport(statsSequence: unknown[]): Transport {
   let callIndex = 0
   return {
-    send: vi.fn(async () => {
+    send: vi.fn<Transport["send"]>(async <K extends string>() => {
       const result = statsSequence[Math.min(callIndex, statsSequence.length - 1)]
       callIndex++
-      return result
-    }),
+      return result as OperationResult<K>
+    }) as Transport["send"],
     close: vi.fn(),
   }
 }
@@ -104,9 +105,9 @@ describe("ChangePoller", () => {
 
   it("survives transport errors", async () => {
     const transport: Transport = {
-      send: vi.fn(async () => {
+      send: vi.fn<Transport["send"]>(async () => {
         throw new Error("connection refused")
-      }),
+      }) as Transport["send"],
       close: vi.fn(),
     }
     const callback = vi.fn()
@@ -123,19 +124,38 @@ describe("ChangePoller", () => {
     poller.stop()
   })
 
+  it("reports failed polls to error callbacks", async () => {
+    const failure = new Error("connection refused")
+    const transport: Transport = {
+      send: vi.fn<Transport["send"]>(async () => {
+        throw failure
+      }) as Transport["send"],
+      close: vi.fn(),
+    }
+    const onError = vi.fn()
+
+    const poller = new ChangePoller(transport)
+    poller.onError(onError)
+    poller.start(1000)
+
+    await vi.advanceTimersByTimeAsync(0)
+    expect(onError).toHaveBeenCalledWith(failure)
+    poller.stop()
+  })
+
   it("does not overlap polls when a request takes longer than the interval", async () => {
     let activeCalls = 0
     let maxConcurrent = 0
 
     const transport: Transport = {
-      send: vi.fn(async () => {
+      send: vi.fn<Transport["send"]>(async <K extends string>() => {
         activeCalls++
         maxConcurrent = Math.max(maxConcurrent, activeCalls)
         // Simulate a slow response that takes 3x the poll interval
         await new Promise(resolve => setTimeout(resolve, 3000))
         activeCalls--
-        return { total: 5 }
-      }),
+        return { total: 5 } as OperationResult<K>
+      }) as Transport["send"],
       close: vi.fn(),
     }
 
@@ -158,13 +178,13 @@ describe("ChangePoller", () => {
     const results = [{ total: 5 }, { total: 5 }, { total: 6 }]
 
     const transport: Transport = {
-      send: vi.fn(async () => {
+      send: vi.fn<Transport["send"]>(async <K extends string>() => {
         const idx = Math.min(callIndex, results.length - 1)
         const delay = delays[Math.min(callIndex, delays.length - 1)]
         callIndex++
         await new Promise(resolve => setTimeout(resolve, delay))
-        return results[idx]
-      }),
+        return results[idx] as OperationResult<K>
+      }) as Transport["send"],
       close: vi.fn(),
     }
 
@@ -185,12 +205,12 @@ describe("ChangePoller", () => {
   it("skips poll when previous one is still in flight", async () => {
     let callCount = 0
     const transport: Transport = {
-      send: vi.fn(async () => {
+      send: vi.fn<Transport["send"]>(async <K extends string>() => {
         callCount++
         // Each poll takes 2500ms but interval is 1000ms
         await new Promise(resolve => setTimeout(resolve, 2500))
-        return { total: callCount }
-      }),
+        return { total: callCount } as OperationResult<K>
+      }) as Transport["send"],
       close: vi.fn(),
     }
 
@@ -208,4 +228,104 @@ describe("ChangePoller", () => {
     expect(callCount).toBeLessThanOrEqual(2)
     poller.stop()
   })
+
+  describe("with mutations", () => {
+    /** A mutation event at the given time. */
+    function mutation(Type: MutationEvent["Type"], IssueID: string, at: number): MutationEvent {
+      return { Timestamp: new Date(at).toISOString(), Type, IssueID }
+    }
+
+    it("reports which issues were created, updated and deleted", async () => {
+      const batch = [
+        mutation("create", "bd-1", 1000),
+        mutation("update", "bd-2", 1001),
+        mutation("status", "bd-1", 1002),
+        mutation("delete", "bd-3", 1003),
+      ]
+      const transport = mockTransport([batch, []])
+      const callback = vi.fn()
+
+      const poller = new ChangePoller(transport, { mutations: true, since: 0 })
+      poller.onChange(callback)
+      poller.start(1000)
+      await vi.advanceTimersByTimeAsync(0)
+
+      expect(callback).toHaveBeenCalledWith({
+        created: ["bd-1"],
+        updated: ["bd-2"],
+        deleted: ["bd-3"],
+        mutations: batch,
+        refetch: false,
+      })
+
+      // The next poll re-reads the newest mutation's millisecond, in case more land in it
+      await vi.advanceTimersByTimeAsync(1000)
+      expect(transport.send).toHaveBeenLastCalledWith("get_mutations", { since: 1002 })
+      expect(callback).toHaveBeenCalledTimes(1)
+      poller.stop()
+    })
+
+    it("falls back to stats when the daemon rejects get_mutations", async () => {
+      let stats = 0
+      const transport: Transport = {
+        send: vi.fn<Transport["send"]>(async <K extends string>(operation: K) => {
+          if (operation === "get_mutations") {
+            throw new DaemonValidationError("unknown operation: get_mutations")
+          }
+          return { total: stats++ } as OperationResult<K>
+        }) as Transport["send"],
+        close: vi.fn(),
+      }
+      const callback = vi.fn()
+
+      const poller = new ChangePoller(transport, { mutations: true })
+      poller.onChange(callback)
+      poller.start(1000)
+      await vi.advanceTimersByTimeAsync(1000)
+
+      expect(transport.send).toHaveBeenLastCalledWith("stats", {})
+      expect(callback).toHaveBeenCalledWith(expect.objectContaining({ refetch: true }))
+      poller.stop()
+    })
+
+    it("reports a mutation in the same millisecond as the last one, once", async () => {
+      const first = mutation("update", "bd-1", 1000)
+      const second = mutation("update", "bd-2", 1000)
+      const transport = mockTransport([[first], [first, second], [first, second]])
+      const callback = vi.fn()
+
+      const poller = new ChangePoller(transport, { mutations: true, since: 0 })
+      poller.onChange(callback)
+      poller.start(1000)
+      await vi.advanceTimersByTimeAsync(2000)
+
+      expect(callback.mock.calls.map(([changes]) => changes.updated)).toEqual([["bd-1"], ["bd-2"]])
+      poller.stop()
+    })
+
+    it("keeps polling mutations after the daemon rejects one request", async () => {
+      let calls = 0
+      const transport: Transport = {
+        send: vi.fn<Transport["send"]>(async <K extends string>(operation: K) => {
+          if (operation !== "get_mutations") return { total: 0 } as OperationResult<K>
+          if (calls++ === 0) throw new DaemonValidationError("database is locked")
+          return [mutation("create", "bd-1", 1000)] as OperationResult<K>
+        }) as Transport["send"],
+        close: vi.fn(),
+      }
+      const callback = vi.fn()
+      const onError = vi.fn()
+
+      const poller = new ChangePoller(transport, { mutations: true, since: 0 })
+      poller.onChange(callback)
+      poller.onError(onError)
+      poller.start(1000)
+      await vi.advanceTimersByTimeAsync(1000)
+
+      expect(onError).toHaveBeenCalledWith(expect.any(DaemonValidationError))
+      expect(transport.send).not.toHaveBeenCalledWith("stats", {})
+      expect(callback).toHaveBeenCalledWith(expect.objectContaining({ created: ["bd-1"] }))
+      poller.stop()
+    })
+  })
 })
@@ -0,0 +1,59 @@
+import { describe, it, expect, vi } from "vitest"
+import { backoffDelay, isReadOperation, withRetry } from "../retry.js"
+import { ConnectionRefusedError, DaemonValidationError } from "../errors.js"
+
+describe("backoffDelay", () => {
+  it("grows exponentially and caps at maxDelay", () => {
+    const policy = { minDelay: 100, maxDelay: 1000, factor: 2, jitter: 0 }
+    expect(backoffDelay(0, policy)).toBe(100)
+    expect(backoffDelay(1, policy)).toBe(200)
+    expect(backoffDelay(2, policy)).toBe(400)
+    expect(backoffDelay(5, policy)).toBe(1000)
+  })
+
+  it("applies jitter within the configured fraction", () => {
+    for (let i = 0; i < 50; i++) {
+      const delay = backoffDelay(1, { minDelay: 100, factor: 2, jitter: 0.5 })
+      expect(delay).toBeGreaterThanOrEqual(100)
+      expect(delay).toBeLessThanOrEqual(200)
+    }
+  })
+})
+
+describe("isReadOperation", () => {
+  it("distinguishes reads from writes", () => {
+    expect(isReadOperation("list")).toBe(true)
+    expect(isReadOperation("show")).toBe(true)
+    expect(isReadOperation("create")).toBe(false)
+    expect(isReadOperation("dep_add")).toBe(false)
+  })
+})
+
+describe("withRetry", () => {
+  const fast = { minDelay: 1, maxDelay: 1 }
+
+  it("retries transient errors until the call succeeds", async () => {
+    const fn = vi
+      .fn()
+      .mockRejectedValueOnce(new ConnectionRefusedError("down"))
+      .mockRejectedValueOnce(new ConnectionRefusedError("down"))
+      .mockResolvedValue("ok")
+
+    expect(await withRetry(fn, fast)).toBe("ok")
+    expect(fn).toHaveBeenCalledTimes(3)
+  })
+
+  it("gives up after the configured number of retries", async () => {
+    const fn = vi.fn().mockRejectedValue(new ConnectionRefusedError("down"))
+
+    await expect(withRetry(fn, { ...fast, retries: 2 })).rejects.toThrow("down")
+    expect(fn).toHaveBeenCalledTimes(3)
+  })
+
+  it("does not retry errors reported by the daemon", async () => {
+    const fn = vi.fn().mockRejectedValue(new DaemonValidationError("bad input"))
+
+    await expect(withRetry(fn, fast)).rejects.toThrow("bad input")
+    expect(fn).toHaveBeenCalledTimes(1)
+  })
+})
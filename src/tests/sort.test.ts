@@ -0,0 +1,47 @@
+import { describe, it, expect } from "vitest"
+import { compareIssues, normalizeSort } from "../sort.js"
+import { DaemonValidationError } from "../errors.js"
+
+/** Create a sortable issue. */
+function makeIssue(overrides: Record<string, unknown> = {}) {
+  return {
+    id: "bd-1",
+    title: "Test issue",
+    priority: 2,
+    created_at: "2025-01-01T00:00:00Z",
+    updated_at: "2025-01-01T00:00:00Z",
+    ...overrides,
+  }
+}
+
+describe("sorting", () => {
+  it("breaks ties with later keys and keeps the order of full ties", () => {
+    const issues = [
+      makeIssue({ id: "a", priority: 1, title: "Beta" }),
+      makeIssue({ id: "b", priority: 0, title: "Gamma" }),
+      makeIssue({ id: "c", priority: 1, title: "Alpha" }),
+      makeIssue({ id: "d", priority: 1, title: "Alpha" }),
+    ]
+    const sort = normalizeSort([{ field: "priority" }, { field: "title" }], "list")
+    expect(issues.sort(compareIssues(sort)).map(i => i.id)).toEqual(["b", "c", "d", "a"])
+  })
+
+  it("puts issues without a value last in either direction", () => {
+    const issues = [
+      makeIssue({ id: "open" }),
+      makeIssue({ id: "early", closed_at: "2025-02-01T00:00:00Z" }),
+      makeIssue({ id: "late", closed_at: "2025-03-01T00:00:00Z" }),
+    ]
+    const asc = normalizeSort({ field: "closed_at" }, "list")
+    const desc = normalizeSort({ field: "closed_at", direction: "desc" }, "list")
+    expect([...issues].sort(compareIssues(asc)).map(i => i.id)).toEqual(["early", "late", "open"])
+    expect([...issues].sort(compareIssues(desc)).map(i => i.id)).toEqual(["late", "early", "open"])
+  })
+
+  it("rejects unknown fields and directions", () => {
+    expect(() => normalizeSort({ field: "nope" }, "list")).toThrow(DaemonValidationError)
+    expect(() => normalizeSort({ field: "title", direction: "up" }, "list")).toThrow(
+      DaemonValidationError,
+    )
+  })
+})
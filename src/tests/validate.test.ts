@@ -0,0 +1,190 @@
+import { describe, it, expect } from "vitest"
+import {
+  validateIssue,
+  validateStats,
+  validateMutationEvent,
+  validateRawJsonlIssue,
+  validateResponse,
+} from "../validate.js"
+import { SchemaValidationError } from "../errors.js"
+import { BeadsClient } from "../client.js"
+import { MemoryTransport } from "../transport/memory.js"
+import { createMiddleware } from "../middleware.js"
+import { parseJsonl } from "../transport/jsonl-parser.js"
+import type { Issue, OperationArgs, OperationResult, Transport } from "../types.js"
+
+/** A well-formed issue as the daemon returns it. */
+function makeIssue(overrides: Record<string, unknown> = {}) {
+  return {
+    id: "bd-1",
+    title: "Test issue",
+    description: "",
+    status: "open",
+    priority: 2,
+    issue_type: "task",
+    labels: [],
+    created_at: "2025-01-01T00:00:00Z",
+    updated_at: "2025-01-01T00:00:00Z",
+    dependency_count: 0,
+    dependent_count: 0,
+    dependencies: [],
+    dependents: [],
+    ...overrides,
+  }
+}
+
+/** Capture the error thrown by a function. */
+function errorOf(fn: () => unknown): SchemaValidationError {
+  try {
+    fn()
+  } catch (err) {
+    return err as SchemaValidationError
+  }
+  throw new Error("expected an error")
+}
+
+describe("validators", () => {
+  it("return valid values unchanged", () => {
+    const issue = makeIssue()
+    expect(validateIssue(issue)).toBe(issue)
+  })
+
+  it("accept null for optional fields", () => {
+    expect(() => validateIssue(makeIssue({ labels: null, assignee: null }))).not.toThrow()
+  })
+
+  it("name the offending field", () => {
+    const error = errorOf(() => validateIssue(makeIssue({ priority: "high" })))
+    expect(error).toBeInstanceOf(SchemaValidationError)
+    expect(error.code).toBe("SCHEMA_MISMATCH")
+    expect(error.path).toBe("issue.priority")
+    expect(error.message).toBe('issue.priority: expected priority 0-4, got string "high"')
+  })
+
+  it("check nested linked issues", () => {
+    const dependency = { ...makeIssue({ id: "bd-2" }), dependencies: undefined, status: 3 }
+    const error = errorOf(() => validateIssue(makeIssue({ dependencies: [dependency] })))
+    expect(error.path).toBe("issue.dependencies[0].status")
+  })
+
+  it("report missing required fields", () => {
+    const error = errorOf(() => validateStats({ summary: { total_issues: 1 } }))
+    expect(error.path).toBe("stats.summary.open_issues")
+    expect(error.message).toContain("got undefined")
+  })
+
+  it("validate mutation events and raw JSONL records", () => {
+    expect(() =>
+      validateMutationEvent({ Timestamp: "2025-01-01T00:00:00Z", Type: "create", IssueID: "bd-1" }),
+    ).not.toThrow()
+    const error = errorOf(() =>
+      validateRawJsonlIssue({ ...makeIssue(), dependencies: [{ issue_id: "bd-1" }] }),
+    )
+    expect(error.path).toBe("record.dependencies[0].depends_on_id")
+  })
+})
+
+describe("validateResponse", () => {
+  it("validates results by operation", () => {
+    const error = errorOf(() => validateResponse("list", [makeIssue(), makeIssue({ title: 7 })]))
+    expect(error.message).toBe(
+      'Invalid "list" response: list[1].title: expected string, got number 7',
+    )
+    expect(error.operation).toBe("list")
+    expect(error.path).toBe("list[1].title")
+  })
+
+  it("passes through operations without a typed response", () => {
+    expect(validateResponse("delete", { anything: true })).toEqual({ anything: true })
+  })
+})
+
+describe("BeadsClient validate option", () => {
+  it("accepts every response from a well-behaved transport", async () => {
+    const transport = new MemoryTransport({
+      issues: [
+        { ...makeIssue({ id: "bd-1" }), dependencies: undefined, dependents: undefined },
+        { ...makeIssue({ id: "bd-2" }), dependencies: undefined, dependents: undefined },
+      ],
+    })
+    const client = new BeadsClient({ transport, validate: true })
+    await client.connect()
+
+    const created = await client.create({ title: "New", labels: ["x"] })
+    await client.update(created.id, { status: "in_progress" })
+    await client.addBlocker("bd-1", "bd-2")
+    await client.addLabel("bd-1", "ui")
+    await client.addComment("bd-1", "hello")
+    await client.getComments("bd-1")
+    await client.close("bd-2")
+    await client.list()
+    await client.ready()
+    await client.blocked()
+    await client.stats()
+    await client.health()
+    await client.info()
+    await client.getMutations()
+    await client.listAllLabels()
+
+    await client.disconnect()
+  })
+
+  it("raises a SchemaValidationError for malformed responses", async () => {
+    const memory = new MemoryTransport({ issues: [{ ...makeIssue(), dependencies: undefined }] })
+    const transport: Transport = {
+      send: async <K extends string>(operation: K, args: OperationArgs<K>) => {
+        const result = (await memory.send(operation, args)) as Issue[]
+        return [{ ...result[0], priority: "P1" }] as OperationResult<K>
+      },
+      close: () => {},
+    }
+    const seen: unknown[] = []
+    const logger = createMiddleware({
+      onError: (_context, error) => {
+        seen.push(error)
+        return []
+      },
+    })
+    const client = new BeadsClient({ transport, middleware: [logger], validate: true })
+    await client.connect()
+
+    expect(await client.list()).toEqual([])
+    expect(seen).toHaveLength(1)
+    expect(seen[0]).toBeInstanceOf(SchemaValidationError)
+    expect((seen[0] as Error).message).toBe(
+      'Invalid "list" response: list[0].priority: expected priority 0-4, got string "P1"',
+    )
+
+    await client.disconnect()
+  })
+
+  it("does not validate unless enabled", async () => {
+    const transport: Transport = {
+      send: async <K extends string>() => [{ id: 1 }] as OperationResult<K>,
+      close: () => {},
+    }
+    const client = new BeadsClient({ transport })
+    await client.connect()
+
+    await expect(client.list()).resolves.toEqual([{ id: 1 }])
+
+    await client.disconnect()
+  })
+})
+
+describe("JSONL record validation", () => {
+  it("skips records with mistyped fields when validating", () => {
+    const content = [
+      JSON.stringify(makeIssue({ id: "bd-1" })),
+      JSON.stringify(makeIssue({ id: "bd-2", labels: "ui" })),
+    ].join("\n")
+
+    expect(parseJsonl(content).issues).toHaveLength(2)
+
+    const result = parseJsonl(content, { validate: true })
+    expect(result.issues.map(i => i.id)).toEqual(["bd-1"])
+    expect(result.diagnostics).toEqual([
+      expect.objectContaining({ line: 2, kind: "invalid_field", id: "bd-2", field: "labels" }),
+    ])
+  })
+})
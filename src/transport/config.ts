@@ -0,0 +1,60 @@
+import { readFileSync } from "node:fs"
+import { join } from "node:path"
+import { findBeadsDir } from "./discovery.js"
+
+/**
+ * Read the top-level scalar settings from `.beads/config.yaml`.
+ * Only simple `key: value` lines are understood; nested blocks and lists are
+ * skipped. Returns an empty object when there is no config file.
+ */
+export function readBeadsConfig(
+  /** Directory to start searching from */
+  workspaceRoot: string,
+): BeadsConfig {
+  const beadsDir = findBeadsDir(workspaceRoot)
+  if (!beadsDir) return {}
+
+  let content: string
+  try {
+    content = readFileSync(join(beadsDir, "config.yaml"), "utf-8")
+  } catch {
+    return {}
+  }
+
+  const config: BeadsConfig = {}
+  for (const line of content.split("\n")) {
+    const match = /^([A-Za-z0-9_.-]+):\s*(.*)$/.exec(line)
+    if (!match) continue
+    const value = stripComment(match[2]).trim()
+    if (value) config[match[1]] = parseScalar(value)
+  }
+  return config
+}
+
+/** Remove a trailing `# comment`, ignoring `#` inside quotes. */
+function stripComment(value: string): string {
+  let quote: string | null = null
+  for (let i = 0; i < value.length; i++) {
+    const ch = value[i]
+    if (quote) {
+      if (ch === quote) quote = null
+    } else if (ch === '"' || ch === "'") {
+      quote = ch
+    } else if (ch === "#" && (i === 0 || /\s/.test(value[i - 1]))) {
+      return value.slice(0, i)
+    }
+  }
+  return value
+}
+
+/** Convert a YAML scalar to a boolean, number or unquoted string. */
+function parseScalar(value: string): string | number | boolean {
+  if (value === "true") return true
+  if (value === "false") return false
+  if (/^-?\d+(\.\d+)?$/.test(value)) return Number(value)
+  const quoted = /^(["'])(.*)\1$/.exec(value)
+  return quoted ? quoted[2] : value
+}
+
+/** Top-level scalar settings from `.beads/config.yaml`, keyed as written (e.g. `no-db`, `issue-prefix`). */
+export type BeadsConfig = Record<string, string | number | boolean>
@@ -0,0 +1,395 @@
+import { createConnection, type Socket } from "node:net"
+import type { DaemonResponse } from "./daemon.js"
+import {
+  BeadsError,
+  ConnectionRefusedError,
+  DaemonTimeoutError,
+  FramingError,
+  abortedError,
+  daemonResponseError,
+} from "../errors.js"
+
+/**
+ * A small pool of long-lived Unix socket connections to the beads daemon.
+ * Each connection carries many newline-delimited requests, tagged with a numeric `id`
+ * that the daemon echoes back so responses can be matched to their callers. Until a
+ * connection has seen an ID echoed, it sends one request at a time and matches
+ * replies in order. If the daemon closes a connection after replying, the requests
+ * still waiting on it are retried on another, and from then on each connection
+ * carries a single request.
+ */
+export class ConnectionPool {
+  private socketPath: string
+  private size: number
+  private connections: PooledConnection[] = []
+  private nextId = 1
+  private protocol: DaemonProtocol = { oneReplyPerConnection: false }
+
+  constructor(
+    /** Path to the daemon's Unix socket */
+    socketPath: string,
+    /** Maximum number of open connections */
+    size: number,
+  ) {
+    this.socketPath = socketPath
+    this.size = Math.max(1, size)
+  }
+
+  /** Send a framed request over a pooled connection and resolve with the response data. */
+  request(
+    /** Request body (operation, args, cwd, actor) */
+    body: Record<string, unknown>,
+    /** Timeout for this request in ms */
+    timeoutMs: number,
+    /** Cancels the request (other callers' requests are unaffected) */
+    signal?: AbortSignal,
+  ): Promise<unknown> {
+    const id = this.nextId++
+    const operation = String(body.operation)
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => request.connection.abandon(request, abortedError(operation, signal!))
+      const timeout = setTimeout(() => {
+        request.connection.abandon(
+          request,
+          new DaemonTimeoutError(`Daemon request timed out after ${timeoutMs}ms`, { operation }),
+        )
+      }, timeoutMs)
+
+      const request: PendingRequest = {
+        id,
+        operation,
+        line: JSON.stringify({ ...body, id }) + "\n",
+        connection: this.acquire(),
+        resolve: value => {
+          clearTimeout(timeout)
+          signal?.removeEventListener("abort", onAbort)
+          resolve(value)
+        },
+        reject: error => {
+          clearTimeout(timeout)
+          signal?.removeEventListener("abort", onAbort)
+          reject(error)
+        },
+      }
+      signal?.addEventListener("abort", onAbort, { once: true })
+      request.connection.send(request)
+    })
+  }
+
+  /** Number of currently open connections. */
+  get openConnections(): number {
+    return this.connections.length
+  }
+
+  /** Close every connection, rejecting any requests still in flight. */
+  close(): void {
+    const connections = this.connections
+    this.connections = []
+    for (const connection of connections) {
+      connection.destroy(
+        (operation, sent) =>
+          new ConnectionRefusedError("Daemon connection closed", { operation, sent }),
+      )
+    }
+  }
+
+  /**
+   * Pick the connection with the fewest in-flight requests, opening a new one
+   * while the pool is below its size and every existing connection is busy.
+   * Retired connections take no new requests and don't count toward the size.
+   */
+  private acquire(): PooledConnection {
+    const usable = this.connections.filter(connection => !connection.retired)
+    let best: PooledConnection | null = null
+    for (const connection of usable) {
+      if (!best || connection.inFlight < best.inFlight) best = connection
+    }
+    if (best && (best.inFlight === 0 || usable.length >= this.size)) return best
+
+    const connection = new PooledConnection(
+      this.socketPath,
+      () => {
+        const idx = this.connections.indexOf(connection)
+        if (idx >= 0) this.connections.splice(idx, 1)
+      },
+      requests => {
+        for (const request of requests) {
+          request.connection = this.acquire()
+          request.connection.send(request)
+        }
+      },
+      this.protocol,
+    )
+    this.connections.push(connection)
+    return connection
+  }
+}
+
+/**
+ * A single persistent socket with its own table of pending requests. A request
+ * that times out or is aborted after it was written retires the connection: it
+ * takes no new requests and closes once the rest are answered, so the abandoned
+ * request's late reply can never be taken for another request's.
+ */
+class PooledConnection {
+  private socket: Socket
+  private buffer = ""
+  private pending: Map<number, PendingRequest> = new Map()
+  /** Requests not yet written, in order */
+  private unsent: PendingRequest[] = []
+  /** IDs of the requests written and not yet answered (abandoned ones included), in order */
+  private written: number[] = []
+  /** Whether the daemon echoes request IDs, so requests can be pipelined */
+  private echoesIds = false
+  /** Whether the daemon has replied without an ID on this connection */
+  private repliedWithoutId = false
+  /** Number of requests written on this connection */
+  private writes = 0
+  private connected = false
+  private closed = false
+  private isRetired = false
+  private onClose: () => void
+  private requeue: (requests: PendingRequest[]) => void
+  private protocol: DaemonProtocol
+
+  constructor(
+    /** Path to the daemon's Unix socket */
+    socketPath: string,
+    /** Called once when the connection is gone, so the pool can drop it */
+    onClose: () => void,
+    /** Hands requests back to the pool to be sent on another connection */
+    requeue: (requests: PendingRequest[]) => void,
+    /** What the pool has learned about the daemon, shared by its connections */
+    protocol: DaemonProtocol,
+  ) {
+    this.onClose = onClose
+    this.requeue = requeue
+    this.protocol = protocol
+    this.socket = createConnection(socketPath)
+
+    this.socket.on("connect", () => {
+      this.connected = true
+      this.flush()
+    })
+
+    this.socket.on("data", (chunk: Buffer) => {
+      this.buffer += chunk.toString()
+      let newline = this.buffer.indexOf("\n")
+      while (newline >= 0) {
+        const line = this.buffer.slice(0, newline).trim()
+        this.buffer = this.buffer.slice(newline + 1)
+        if (line) this.handleLine(line)
+        newline = this.buffer.indexOf("\n")
+      }
+    })
+
+    this.socket.on("end", () => {
+      const rest = this.buffer.trim()
+      this.buffer = ""
+      if (rest) this.handleLine(rest)
+      if (this.handOffAfterReply()) return
+      this.destroy(
+        operation =>
+          new FramingError("Daemon closed connection with empty response (EOF framing error)", {
+            operation,
+          }),
+      )
+    })
+
+    this.socket.on("error", (err: Error) => {
+      if (this.handOffAfterReply()) return
+      this.destroy(
+        (operation, sent) =>
+          new ConnectionRefusedError(`Daemon connection error: ${err.message}`, {
+            operation,
+            cause: err,
+            sent,
+          }),
+      )
+    })
+  }
+
+  /** Number of requests awaiting a response on this connection. */
+  get inFlight(): number {
+    return this.pending.size
+  }
+
+  /** Whether the connection takes no new requests. */
+  get retired(): boolean {
+    return this.isRetired || this.closed
+  }
+
+  /** Queue a request for writing; it's settled when its response arrives. */
+  send(
+    /** The request */
+    request: PendingRequest,
+  ): void {
+    if (this.closed) {
+      request.reject(
+        new ConnectionRefusedError("Daemon connection closed", {
+          operation: request.operation,
+          sent: false,
+        }),
+      )
+      return
+    }
+    this.pending.set(request.id, request)
+    this.unsent.push(request)
+    this.flush()
+  }
+
+  /**
+   * Give up on a request (timed out or aborted) and reject it. If it was already
+   * written, retire the connection, and hand any requests queued behind it back to
+   * the pool when they'd otherwise wait for its reply.
+   */
+  abandon(
+    /** The request */
+    request: PendingRequest,
+    /** Error to reject it with */
+    error: BeadsError,
+  ): void {
+    if (this.pending.get(request.id) !== request) return
+    this.pending.delete(request.id)
+    request.reject(error)
+
+    const unsent = this.unsent.indexOf(request)
+    if (unsent >= 0) {
+      // Never written, so no reply will come for it
+      this.unsent.splice(unsent, 1)
+      return
+    }
+
+    this.isRetired = true
+    if (!this.echoesIds && this.unsent.length > 0) {
+      const waiting = this.unsent
+      this.unsent = []
+      for (const entry of waiting) this.pending.delete(entry.id)
+      this.requeue(waiting)
+    }
+    this.closeIfDrained()
+  }
+
+  /** Tear down the socket and reject everything still pending. */
+  destroy(
+    /** Builds the error each pending request is rejected with, given whether it was written */
+    createError: (operation: string, sent: boolean) => BeadsError,
+  ): void {
+    if (this.closed) return
+    this.closed = true
+    this.socket.destroy()
+    for (const [, request] of this.pending) {
+      request.reject(createError(request.operation, !this.unsent.includes(request)))
+    }
+    this.pending.clear()
+    this.unsent = []
+    this.written = []
+    this.onClose()
+  }
+
+  /**
+   * Write queued requests: all of them once the daemon is known to echo IDs,
+   * otherwise one at a time, each after the previous one is answered (and only
+   * one in all when the daemon closes the connection after each reply).
+   */
+  private flush(): void {
+    if (!this.connected || this.closed) return
+    while (this.unsent.length > 0 && (this.echoesIds || this.written.length === 0)) {
+      if (this.protocol.oneReplyPerConnection && this.writes > 0) return
+      const request = this.unsent.shift()!
+      this.written.push(request.id)
+      this.writes++
+      this.socket.write(request.line)
+    }
+  }
+
+  /**
+   * When the daemon closes the connection after replying without an ID, it closes
+   * every connection after one reply, so nothing else on this one was answered:
+   * hand the pending requests back to the pool. Returns whether it did.
+   */
+  private handOffAfterReply(): boolean {
+    if (!this.repliedWithoutId || this.closed) return false
+    this.protocol.oneReplyPerConnection = true
+    const requests = [...this.pending.values()]
+    this.closed = true
+    this.socket.destroy()
+    this.pending.clear()
+    this.unsent = []
+    this.written = []
+    this.onClose()
+    this.requeue(requests)
+    return true
+  }
+
+  /** Close a retired connection once nothing is pending on it. */
+  private closeIfDrained(): void {
+    if (this.isRetired && this.pending.size === 0) {
+      this.destroy(
+        operation => new ConnectionRefusedError("Daemon connection closed", { operation }),
+      )
+    }
+  }
+
+  /** Parse one response line and settle the request it belongs to. */
+  private handleLine(
+    /** A complete, trimmed response line */
+    line: string,
+  ): void {
+    let response: DaemonResponse & { id?: number }
+    try {
+      response = JSON.parse(line) as DaemonResponse & { id?: number }
+    } catch {
+      this.destroy(
+        operation =>
+          new FramingError(`Failed to parse daemon response (framing error): ${line}`, {
+            operation,
+          }),
+      )
+      return
+    }
+
+    // A reply without an ID answers the oldest request written, which may be one given up on
+    let id: number | undefined
+    if (response.id === undefined) {
+      this.repliedWithoutId = true
+      id = this.written.shift()
+    } else {
+      this.echoesIds = true
+      id = response.id
+      const idx = this.written.indexOf(id)
+      if (idx >= 0) this.written.splice(idx, 1)
+    }
+
+    const request = id === undefined ? undefined : this.pending.get(id)
+    if (request) {
+      this.pending.delete(request.id)
+      if (response.success) {
+        request.resolve(response.data)
+      } else {
+        request.reject(daemonResponseError(request.operation, response.error))
+      }
+    }
+    this.closeIfDrained()
+    this.flush()
+  }
+}
+
+/** What the pool has learned about how the daemon handles its connections. */
+interface DaemonProtocol {
+  /** The daemon closes each connection after one reply */
+  oneReplyPerConnection: boolean
+}
+
+/** A request waiting for its response. */
+interface PendingRequest {
+  id: number
+  operation: string
+  /** The framed request */
+  line: string
+  /** Connection the request is queued or written on */
+  connection: PooledConnection
+  resolve: (value: unknown) => void
+  reject: (error: Error) => void
+}
@@ -2,17 +2,32 @@ import { createConnection } from "node:net"
 import { exec as cpExec } from "node:child_process"
 import { join } from "node:path"
 import { findSocketPath, findBeadsDir } from "./discovery.js"
-import type { Transport } from "../types.js"
+import { ConnectionPool } from "./connection-pool.js"
+import {
+  ConnectionRefusedError,
+  DaemonTimeoutError,
+  FramingError,
+  abortedError,
+  daemonResponseError,
+  throwIfAborted,
+} from "../errors.js"
+import { isReadOperation, withRetry, type RetryPolicy } from "../retry.js"
+import type { RequestOptions, Transport, OperationArgs, OperationResult } from "../types.js"
 
 /**
  * Transport that communicates with the beads daemon via Unix socket.
- * Each RPC call opens a fresh connection (the daemon closes after one response).
+ * By default each RPC call opens a fresh connection (the daemon closes after one response).
+ * With `persistent: true`, requests are multiplexed over a small pool of long-lived connections.
  */
 export class DaemonTransport implements Transport {
   private workspaceRoot: string
   private requestTimeout: number
   private actor: string
   private socketPath: string | null = null
+  private persistent: boolean
+  private poolSize: number
+  private pool: ConnectionPool | null = null
+  private retry: RetryPolicy | null
 
   constructor(
     /** Workspace root directory */
@@ -23,40 +38,106 @@ export class DaemonTransport implements Transport {
     this.workspaceRoot = workspaceRoot
     this.requestTimeout = options.requestTimeout ?? 5000
     this.actor = options.actor ?? "sdk"
+    this.persistent = options.persistent ?? false
+    this.poolSize = options.poolSize ?? 4
+    this.retry = options.retry ?? null
   }
 
-  /** Send an RPC request to the daemon and return the response data. */
+  /**
+   * Send an RPC request to the daemon and return the response data.
+   * With a retry policy, transient failures are retried for read operations,
+   * and for writes only when the caller marks them `idempotent`.
+   */
+  send<K extends string>(
+    /** Operation name */
+    operation: K,
+    /** Operation arguments */
+    args: OperationArgs<K>,
+    /** Per-request options */
+    options?: RequestOptions,
+  ): Promise<OperationResult<K>>
   async send(
     /** Operation name */
     operation: string,
     /** Operation arguments */
     args: Record<string, unknown> = {},
+    /** Per-request options */
+    options: RequestOptions = {},
   ): Promise<unknown> {
+    const retryable = options.idempotent ?? isReadOperation(operation)
+    if (!this.retry || !retryable) return this.sendOnce(operation, args, options)
+    return withRetry(
+      () => this.sendOnce(operation, args, options),
+      this.retry,
+      undefined,
+      options.signal,
+    )
+  }
+
+  /** Close pooled connections (if any) and forget the discovered socket path. */
+  close(): void {
+    this.pool?.close()
+    this.pool = null
+    this.socketPath = null
+  }
+
+  /** Make a single attempt at an RPC request. */
+  private async sendOnce(
+    /** Operation name */
+    operation: string,
+    /** Operation arguments */
+    args: Record<string, unknown>,
+    /** Per-request options */
+    options: RequestOptions,
+  ): Promise<unknown> {
+    const { signal } = options
+    const timeoutMs = options.timeout ?? this.requestTimeout
+    throwIfAborted(signal, operation)
+
     const socketPath = await this.ensureRunning()
     if (!socketPath) {
-      throw new Error("Daemon is not available and could not be started")
+      throw new ConnectionRefusedError("Daemon is not available and could not be started", {
+        operation,
+        sent: false,
+      })
+    }
+
+    throwIfAborted(signal, operation)
+    if (this.persistent) {
+      return this.sendPooled(socketPath, operation, args, timeoutMs, signal)
     }
 
     return new Promise((resolve, reject) => {
       const socket = createConnection(socketPath)
       let responseData = ""
       let settled = false
+      let written = false
 
-      /** Settle the promise exactly once and clean up the timeout. */
+      /** Settle the promise exactly once and clean up the timeout and abort listener. */
       const settle = (fn: typeof resolve | typeof reject, value: unknown) => {
         if (settled) return
         settled = true
         clearTimeout(timeout)
+        signal?.removeEventListener("abort", onAbort)
         fn(value)
       }
 
+      /** Destroy the socket when the caller cancels. */
+      const onAbort = () => {
+        socket.destroy()
+        settle(reject, abortedError(operation, signal!))
+      }
+      signal?.addEventListener("abort", onAbort, { once: true })
+
       /** Parse a complete response string and settle the promise. */
       const handleResponse = (raw: string) => {
         const trimmed = raw.trim()
         if (!trimmed) {
           settle(
             reject,
-            new Error("Daemon closed connection with empty response (EOF framing error)"),
+            new FramingError("Daemon closed connection with empty response (EOF framing error)", {
+              operation,
+            }),
           )
           return
         }
@@ -65,17 +146,27 @@ export class DaemonTransport implements Transport {
           if (response.success) {
             settle(resolve, response.data)
           } else {
-            settle(reject, new Error(response.error ?? "Unknown daemon error"))
+            settle(reject, daemonResponseError(operation, response.error))
           }
         } catch {
-          settle(reject, new Error(`Failed to parse daemon response (framing error): ${trimmed}`))
+          settle(
+            reject,
+            new FramingError(`Failed to parse daemon response (framing error): ${trimmed}`, {
+              operation,
+            }),
+          )
         }
       }
 
       const timeout = setTimeout(() => {
         socket.destroy()
-        settle(reject, new Error(`Daemon request timed out after ${this.requestTimeout}ms`))
-      }, this.requestTimeout)
+        settle(
+          reject,
+          new DaemonTimeoutError(`Daemon request timed out after ${timeoutMs}ms`, {
+            operation,
+          }),
+        )
+      }, timeoutMs)
 
       socket.on("connect", () => {
         const request = {
@@ -85,6 +176,7 @@ export class DaemonTransport implements Transport {
           actor: this.actor,
         }
         socket.write(JSON.stringify(request) + "\n")
+        written = true
       })
 
       socket.on("data", (chunk: Buffer) => {
@@ -103,21 +195,56 @@ export class DaemonTransport implements Transport {
         } else if (!settled) {
           settle(
             reject,
-            new Error("Daemon closed connection with empty response (EOF framing error)"),
+            new FramingError("Daemon closed connection with empty response (EOF framing error)", {
+              operation,
+            }),
           )
         }
       })
 
       socket.on("error", (err: Error) => {
         this.socketPath = null
-        settle(reject, new Error(`Daemon connection error: ${err.message}`))
+        settle(
+          reject,
+          new ConnectionRefusedError(`Daemon connection error: ${err.message}`, {
+            operation,
+            cause: err,
+            sent: written,
+          }),
+        )
       })
     })
   }
 
-  /** No-op; each call opens its own connection. */
-  close(): void {
-    this.socketPath = null
+  /** Send a request over the persistent connection pool. */
+  private async sendPooled(
+    /** Daemon socket path */
+    socketPath: string,
+    /** Operation name */
+    operation: string,
+    /** Operation arguments */
+    args: Record<string, unknown>,
+    /** Timeout in ms */
+    timeoutMs: number,
+    /** Cancellation signal */
+    signal: AbortSignal | undefined,
+  ): Promise<unknown> {
+    this.pool = this.pool ?? new ConnectionPool(socketPath, this.poolSize)
+    try {
+      return await this.pool.request(
+        { operation, args, cwd: this.workspaceRoot, actor: this.actor },
+        timeoutMs,
+        signal,
+      )
+    } catch (err) {
+      // Rediscover the socket next time if the daemon went away
+      if (err instanceof ConnectionRefusedError) {
+        this.pool?.close()
+        this.pool = null
+        this.socketPath = null
+      }
+      throw err
+    }
   }
 
   /**
@@ -143,13 +270,20 @@ export class DaemonTransport implements Transport {
   private async startDaemon(): Promise<void> {
     const beadsDir = findBeadsDir(this.workspaceRoot)
     if (!beadsDir) {
-      throw new Error("No .beads directory found; is this a beads workspace?")
+      throw new ConnectionRefusedError("No .beads directory found; is this a beads workspace?", {
+        sent: false,
+      })
     }
 
     await new Promise<void>((resolve, reject) => {
       cpExec("bd daemon start", { cwd: this.workspaceRoot }, error => {
         if (error) {
-          reject(new Error(`Failed to start daemon: ${error.message}`))
+          reject(
+            new ConnectionRefusedError(`Failed to start daemon: ${error.message}`, {
+              cause: error,
+              sent: false,
+            }),
+          )
         } else {
           resolve()
         }
@@ -176,7 +310,9 @@ export class DaemonTransport implements Transport {
       }
       await new Promise(r => setTimeout(r, 100))
     }
-    throw new Error(`Daemon socket did not appear within ${timeoutMs}ms`)
+    throw new ConnectionRefusedError(`Daemon socket did not appear within ${timeoutMs}ms`, {
+      sent: false,
+    })
   }
 }
 
@@ -186,10 +322,16 @@ export interface DaemonTransportOptions {
   requestTimeout?: number
   /** Actor name sent with each request (default: "sdk") */
   actor?: string
+  /** Keep a pool of open connections and multiplex requests over them (default: false) */
+  persistent?: boolean
+  /** Maximum number of pooled connections in persistent mode (default: 4) */
+  poolSize?: number
+  /** Retry transient failures with exponential backoff (default: no retries) */
+  retry?: RetryPolicy
 }
 
 /** Raw daemon RPC response. */
-interface DaemonResponse {
+export interface DaemonResponse {
   success: boolean
   data?: unknown
   error?: string
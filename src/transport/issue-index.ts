@@ -0,0 +1,111 @@
+import type { RawJsonlIssue } from "../types.js"
+
+/**
+ * Secondary indexes over raw issue records, mapping field values to issue IDs.
+ * Maintained incrementally: call `update()` whenever a record is added or
+ * changed, and `remove()` when it's deleted. The keys each record was indexed
+ * under are remembered, so stale entries can be dropped even after the record
+ * has been mutated in place.
+ */
+export class IssueIndex {
+  /** Issue IDs keyed by status */
+  readonly byStatus: Map<string, Set<string>> = new Map()
+  /** Issue IDs keyed by assignee (unassigned issues aren't indexed) */
+  readonly byAssignee: Map<string, Set<string>> = new Map()
+  /** Issue IDs keyed by label */
+  readonly byLabel: Map<string, Set<string>> = new Map()
+  /** Issue IDs keyed by issue type */
+  readonly byType: Map<string, Set<string>> = new Map()
+  /** Child issue IDs keyed by parent ID, from `parent-child` dependencies */
+  readonly byParent: Map<string, Set<string>> = new Map()
+  /** IDs of the issues depending on each issue, keyed by the depended-on ID */
+  readonly dependents: Map<string, Set<string>> = new Map()
+  /** IDs of issues with at least one `blocks` dependency */
+  readonly withBlockers: Set<string> = new Set()
+
+  private keys: Map<string, IndexedKeys> = new Map()
+
+  /** Index a new record, or re-index a changed one. */
+  update(
+    /** The record in its current state */
+    raw: RawJsonlIssue,
+  ): void {
+    this.remove(raw.id)
+
+    const deps = raw.dependencies ?? []
+    const keys: IndexedKeys = {
+      status: raw.status,
+      assignee: raw.assignee || undefined,
+      labels: Array.from(new Set(raw.labels ?? [])),
+      type: raw.issue_type,
+      parents: deps.filter(d => d.type === "parent-child").map(d => d.depends_on_id),
+      targets: Array.from(new Set(deps.map(d => d.depends_on_id))),
+      hasBlockers: deps.some(d => d.type === "blocks"),
+    }
+    this.keys.set(raw.id, keys)
+
+    addTo(this.byStatus, keys.status, raw.id)
+    if (keys.assignee) addTo(this.byAssignee, keys.assignee, raw.id)
+    for (const label of keys.labels) addTo(this.byLabel, label, raw.id)
+    addTo(this.byType, keys.type, raw.id)
+    for (const parent of keys.parents) addTo(this.byParent, parent, raw.id)
+    for (const target of keys.targets) addTo(this.dependents, target, raw.id)
+    if (keys.hasBlockers) this.withBlockers.add(raw.id)
+  }
+
+  /** Drop a record from every index. */
+  remove(
+    /** ID of the record */
+    id: string,
+  ): void {
+    const keys = this.keys.get(id)
+    if (!keys) return
+    this.keys.delete(id)
+
+    removeFrom(this.byStatus, keys.status, id)
+    if (keys.assignee) removeFrom(this.byAssignee, keys.assignee, id)
+    for (const label of keys.labels) removeFrom(this.byLabel, label, id)
+    removeFrom(this.byType, keys.type, id)
+    for (const parent of keys.parents) removeFrom(this.byParent, parent, id)
+    for (const target of keys.targets) removeFrom(this.dependents, target, id)
+    this.withBlockers.delete(id)
+  }
+
+  /** Empty every index. */
+  clear(): void {
+    this.keys.clear()
+    this.byStatus.clear()
+    this.byAssignee.clear()
+    this.byLabel.clear()
+    this.byType.clear()
+    this.byParent.clear()
+    this.dependents.clear()
+    this.withBlockers.clear()
+  }
+}
+
+/** Add an ID to the set stored under a key, creating the set if needed. */
+function addTo(index: Map<string, Set<string>>, key: string, id: string): void {
+  let ids = index.get(key)
+  if (!ids) index.set(key, (ids = new Set()))
+  ids.add(id)
+}
+
+/** Remove an ID from the set stored under a key, dropping the set once empty. */
+function removeFrom(index: Map<string, Set<string>>, key: string, id: string): void {
+  const ids = index.get(key)
+  if (!ids) return
+  ids.delete(id)
+  if (ids.size === 0) index.delete(key)
+}
+
+/** The index keys a record was last indexed under. */
+interface IndexedKeys {
+  status: string
+  assignee: string | undefined
+  labels: string[]
+  type: string
+  parents: string[]
+  targets: string[]
+  hasBlockers: boolean
+}
@@ -0,0 +1,727 @@
+import { randomBytes } from "node:crypto"
+import { DaemonValidationError, NotFoundError } from "../errors.js"
+import { checkDateFilters, matchesListFilter } from "../filters.js"
+import { compareIssues, compareReady, normalizeSort } from "../sort.js"
+import { applyWindow } from "../pagination.js"
+import { IssueIndex } from "./issue-index.js"
+import type {
+  Issue,
+  LinkedIssue,
+  BlockedIssue,
+  RawJsonlIssue,
+  RawJsonlDependency,
+  Priority,
+  Stats,
+  Comment,
+  LabelResult,
+  DepResult,
+  MutationEvent,
+  MutationType,
+  ListFilter,
+  ReadyFilter,
+} from "../types.js"
+
+/** Sort policies the `ready` operation accepts. */
+const READY_SORT_POLICIES: readonly string[] = ["hybrid", "priority", "oldest"]
+
+/**
+ * In-memory issue database shared by the JSONL and memory transports.
+ * Holds raw issue records keyed by ID and implements the daemon's query
+ * semantics (filtering, readiness, blocking, stats) and mutations over them.
+ * Secondary indexes keep queries from scanning every record.
+ */
+export class IssueStore {
+  private records: Map<string, RawJsonlIssue> = new Map()
+  private index = new IssueIndex()
+  /** Load-order position of each record, used to return indexed results in file order */
+  private ordinals: Map<string, number> = new Map()
+  private nextOrdinal = 0
+  private comments: Map<string, Comment[]> = new Map()
+  private mutations: MutationEvent[] = []
+  private nextCommentId = 1
+  private options: IssueStoreOptions
+
+  constructor(
+    /** Store options */
+    options: IssueStoreOptions = {},
+  ) {
+    this.options = options
+  }
+
+  /**
+   * Raw issue records keyed by ID, in load order. Change them only through
+   * `set`, `replaceAll`, `clear` and the mutation handlers, so the indexes stay current.
+   */
+  get issues(): ReadonlyMap<string, RawJsonlIssue> {
+    return this.records
+  }
+
+  /** Add or replace a single record. */
+  set(
+    /** The record */
+    raw: RawJsonlIssue,
+  ): void {
+    if (!this.records.has(raw.id)) this.ordinals.set(raw.id, this.nextOrdinal++)
+    this.records.set(raw.id, raw)
+    this.index.update(raw)
+  }
+
+  /**
+   * Replace every record, in the given order. Records passed in as the same object
+   * that's already stored are assumed unchanged and keep their index entries, so a
+   * reload that reuses unchanged records only re-indexes what changed.
+   */
+  replaceAll(
+    /** The new set of records */
+    records: Iterable<RawJsonlIssue>,
+  ): void {
+    const previous = new Map(this.records)
+    this.records.clear()
+    this.ordinals.clear()
+    this.nextOrdinal = 0
+
+    for (const raw of records) {
+      if (!this.records.has(raw.id)) this.ordinals.set(raw.id, this.nextOrdinal++)
+      this.records.set(raw.id, raw)
+      if (previous.get(raw.id) !== raw) this.index.update(raw)
+      previous.delete(raw.id)
+    }
+    for (const id of previous.keys()) {
+      if (!this.records.has(id)) this.index.remove(id)
+    }
+  }
+
+  /** Remove every record. */
+  clear(): void {
+    this.records.clear()
+    this.ordinals.clear()
+    this.index.clear()
+  }
+
+  /** Handle the `list` operation with in-memory filtering. */
+  list(args: Record<string, unknown>): Issue[] {
+    let results = this.candidates([
+      lookup(this.index.byStatus, args.status),
+      lookup(this.index.byType, args.issue_type),
+      lookup(this.index.byAssignee, args.assignee),
+      ...labelLookups(this.index.byLabel, args.labels),
+    ])
+
+    checkDateFilters(args as ListFilter, "list")
+    results = results.filter(i => matchesListFilter(i, args as ListFilter))
+    if (args.sort !== undefined) results.sort(this.comparator(args.sort, "list"))
+
+    return applyWindow(results, args, 50, "list").map(raw => this.toIssue(raw))
+  }
+
+  /** Handle the `show` operation. */
+  show(args: Record<string, unknown>): Issue {
+    return this.toIssue(this.requireIssue(String(args.id), "show"))
+  }
+
+  /** Handle the `ready` operation: open issues with no unsatisfied blockers. */
+  ready(args: Record<string, unknown>): Issue[] {
+    let results = this.candidates([
+      lookup(this.index.byStatus, "open"),
+      lookup(this.index.byAssignee, args.assignee),
+      lookup(this.index.byParent, args.parent_id),
+      ...labelLookups(this.index.byLabel, args.labels),
+    ])
+
+    // Exclude issues with open blockers
+    results = results.filter(i => this.openBlockerIds(i).length === 0)
+
+    if (args.assignee) results = results.filter(i => i.assignee === args.assignee)
+    if (args.priority !== undefined) results = results.filter(i => i.priority === args.priority)
+    if (args.unassigned) results = results.filter(i => !i.assignee)
+    if (Array.isArray(args.labels)) {
+      const required = args.labels as string[]
+      results = results.filter(i => required.every(l => (i.labels ?? []).includes(l)))
+    }
+    if (Array.isArray(args.labels_any)) {
+      const any = args.labels_any as string[]
+      results = results.filter(i => any.some(l => (i.labels ?? []).includes(l)))
+    }
+    if (args.parent_id) {
+      results = results.filter(i =>
+        (i.dependencies ?? []).some(
+          d => d.type === "parent-child" && d.depends_on_id === args.parent_id,
+        ),
+      )
+    }
+
+    if (args.sort !== undefined) {
+      results.sort(this.comparator(args.sort, "ready"))
+    } else {
+      const policy = args.sort_policy ?? "hybrid"
+      if (!READY_SORT_POLICIES.includes(policy as string)) {
+        throw new DaemonValidationError(`Invalid sort policy: ${policy}`, { operation: "ready" })
+      }
+      results.sort(compareReady(policy as ReadyFilter["sort_policy"], new Date(this.now())))
+    }
+
+    return applyWindow(results, args, 10, "ready").map(raw => this.toIssue(raw))
+  }
+
+  /** Handle the `blocked` operation: issues that are blocked. */
+  blocked(args: Record<string, unknown>): BlockedIssue[] {
+    // Only issues with blockers or an explicit blocked status can qualify
+    const eligible = new Set(this.index.withBlockers)
+    for (const id of this.index.byStatus.get("blocked") ?? []) eligible.add(id)
+
+    let results = this.candidates([eligible, lookup(this.index.byParent, args.parent_id)])
+
+    // Filter to parent's descendants if specified
+    if (args.parent_id) {
+      results = results.filter(i =>
+        (i.dependencies ?? []).some(
+          d => d.type === "parent-child" && d.depends_on_id === args.parent_id,
+        ),
+      )
+    }
+
+    if (args.sort !== undefined) results.sort(this.comparator(args.sort, "blocked"))
+
+    const blocked: BlockedIssue[] = []
+    for (const raw of results) {
+      const openBlockerIds = this.openBlockerIds(raw)
+
+      if (openBlockerIds.length > 0 || raw.status === "blocked") {
+        blocked.push({
+          ...this.toIssue(raw),
+          blocked_by: openBlockerIds,
+          blocked_by_count: openBlockerIds.length,
+        })
+      }
+    }
+    return applyWindow(blocked, args, Infinity, "blocked")
+  }
+
+  /** Handle the `stats` operation: compute summary from in-memory data. */
+  stats(): Stats {
+    const count = (status: string) => this.index.byStatus.get(status)?.size ?? 0
+    const open = this.inOrder(this.index.byStatus.get("open"))
+    const closed = [
+      ...this.inOrder(this.index.byStatus.get("closed")),
+      ...this.inOrder(this.index.byStatus.get("resolved")),
+    ]
+
+    // Compute ready count (open with no unsatisfied blockers)
+    const ready = open.filter(i => this.openBlockerIds(i).length === 0)
+
+    // Compute average lead time for closed issues
+    let totalLeadTimeHours = 0
+    let closedWithDates = 0
+    for (const issue of closed) {
+      if (issue.closed_at && issue.created_at) {
+        const lead = new Date(issue.closed_at).getTime() - new Date(issue.created_at).getTime()
+        totalLeadTimeHours += lead / (1000 * 60 * 60)
+        closedWithDates++
+      }
+    }
+
+    return {
+      summary: {
+        total_issues: this.records.size,
+        open_issues: open.length,
+        in_progress_issues: count("in_progress"),
+        closed_issues: closed.length,
+        blocked_issues: count("blocked"),
+        deferred_issues: count("deferred"),
+        ready_issues: ready.length,
+        average_lead_time_hours: closedWithDates > 0 ? totalLeadTimeHours / closedWithDates : 0,
+      },
+    }
+  }
+
+  /** Convert a raw JSONL issue to the Issue type. */
+  toIssue(raw: RawJsonlIssue): Issue {
+    return {
+      id: raw.id,
+      title: raw.title,
+      description: raw.description ?? "",
+      status: raw.status,
+      priority: raw.priority as Priority,
+      issue_type: raw.issue_type,
+      assignee: raw.assignee,
+      labels: raw.labels ?? [],
+      created_at: raw.created_at,
+      updated_at: raw.updated_at,
+      closed_at: raw.closed_at,
+      design: raw.design,
+      acceptance_criteria: raw.acceptance_criteria,
+      notes: raw.notes,
+      external_ref: raw.external_ref,
+      due_at: raw.due_at,
+      defer_until: raw.defer_until,
+      dependency_count: raw.dependency_count ?? (raw.dependencies ?? []).length,
+      dependent_count: raw.dependent_count ?? this.countDependents(raw.id),
+      dependencies: this.buildLinkedIssues(raw.dependencies ?? []),
+      dependents: this.buildDependents(raw.id),
+    }
+  }
+
+  /** Build LinkedIssue array from raw dependency records. */
+  private buildLinkedIssues(deps: RawJsonlDependency[]): LinkedIssue[] {
+    const linked: LinkedIssue[] = []
+    for (const dep of deps) {
+      const target = this.records.get(dep.depends_on_id)
+      if (!target) continue
+      linked.push({
+        id: target.id,
+        title: target.title,
+        description: target.description ?? "",
+        status: target.status,
+        priority: target.priority as Priority,
+        issue_type: target.issue_type,
+        assignee: target.assignee,
+        labels: target.labels ?? [],
+        created_at: target.created_at,
+        updated_at: target.updated_at,
+        closed_at: target.closed_at,
+        due_at: target.due_at,
+        defer_until: target.defer_until,
+        dependency_type: dep.type as LinkedIssue["dependency_type"],
+        dependency_count: target.dependency_count ?? (target.dependencies ?? []).length,
+        dependent_count: target.dependent_count ?? this.countDependents(target.id),
+      })
+    }
+    return linked
+  }
+
+  /** Build the dependents list for an issue (inverse of dependencies). */
+  private buildDependents(issueId: string): LinkedIssue[] {
+    const dependents: LinkedIssue[] = []
+    for (const raw of this.inOrder(this.index.dependents.get(issueId))) {
+      for (const dep of raw.dependencies ?? []) {
+        if (dep.depends_on_id === issueId) {
+          dependents.push({
+            id: raw.id,
+            title: raw.title,
+            description: raw.description ?? "",
+            status: raw.status,
+            priority: raw.priority as Priority,
+            issue_type: raw.issue_type,
+            assignee: raw.assignee,
+            labels: raw.labels ?? [],
+            created_at: raw.created_at,
+            updated_at: raw.updated_at,
+            closed_at: raw.closed_at,
+            due_at: raw.due_at,
+            defer_until: raw.defer_until,
+            dependency_type: dep.type as LinkedIssue["dependency_type"],
+            dependency_count: raw.dependency_count ?? (raw.dependencies ?? []).length,
+            dependent_count: raw.dependent_count ?? this.countDependents(raw.id),
+          })
+        }
+      }
+    }
+    return dependents
+  }
+
+  /** Count how many issues depend on the given issue. */
+  private countDependents(issueId: string): number {
+    return this.index.dependents.get(issueId)?.size ?? 0
+  }
+
+  /** IDs of an issue's `blocks` dependencies that are still open (missing issues don't block). */
+  private openBlockerIds(raw: RawJsonlIssue): string[] {
+    return (raw.dependencies ?? [])
+      .filter(d => {
+        if (d.type !== "blocks") return false
+        const blocker = this.records.get(d.depends_on_id)
+        return blocker && blocker.status !== "closed" && blocker.status !== "resolved"
+      })
+      .map(d => d.depends_on_id)
+  }
+
+  /**
+   * Starting set for a query: the records in the smallest of the given index
+   * lookups (`undefined` means unconstrained), or every record if there are none.
+   * Callers still apply their full filters, so lookups only need to be supersets.
+   */
+  private candidates(lookups: Array<ReadonlySet<string> | undefined>): RawJsonlIssue[] {
+    let smallest: ReadonlySet<string> | undefined
+    for (const ids of lookups) {
+      if (ids && (!smallest || ids.size < smallest.size)) smallest = ids
+    }
+    return smallest ? this.inOrder(smallest) : Array.from(this.records.values())
+  }
+
+  /** Look up records by ID, in load order. */
+  private inOrder(ids: Iterable<string> | undefined): RawJsonlIssue[] {
+    if (!ids) return []
+    const records: RawJsonlIssue[] = []
+    for (const id of ids) {
+      const raw = this.records.get(id)
+      if (raw) records.push(raw)
+    }
+    const ordinal = (raw: RawJsonlIssue) => this.ordinals.get(raw.id) ?? 0
+    return records.sort((a, b) => ordinal(a) - ordinal(b))
+  }
+
+  // ── Mutations ────────────────────────────────────────────────────
+
+  /** Handle the `create` operation. */
+  create(args: Record<string, unknown>): Issue {
+    const title = typeof args.title === "string" ? args.title.trim() : ""
+    if (!title) throw new DaemonValidationError("title is required", { operation: "create" })
+
+    const id = typeof args.id === "string" && args.id ? args.id : this.generateId()
+    if (this.records.has(id)) {
+      throw new DaemonValidationError(`Issue already exists: ${id}`, { operation: "create" })
+    }
+
+    const now = this.now()
+    const raw: RawJsonlIssue = {
+      id,
+      title,
+      description: stringArg(args.description) ?? "",
+      status: "open",
+      priority: args.priority === undefined ? 2 : validPriority(args.priority, "create"),
+      issue_type: stringArg(args.issue_type) ?? "task",
+      assignee: stringArg(args.assignee),
+      labels: uniqueStrings(args.labels),
+      created_at: now,
+      updated_at: now,
+      design: stringArg(args.design),
+      acceptance_criteria: stringArg(args.acceptance_criteria),
+    }
+
+    for (const spec of uniqueStrings(args.dependencies)) {
+      // Dependencies are given as "id" (blocks) or "type:id", as with `bd create --deps`
+      const [type, target] = spec.includes(":") ? spec.split(":", 2) : ["blocks", spec]
+      this.requireIssue(target, "create")
+      raw.dependencies = [...(raw.dependencies ?? []), this.makeDependency(id, target, type)]
+      this.clearCachedCounts(target)
+    }
+
+    this.set(raw)
+    this.record("create", raw)
+    return this.toIssue(raw)
+  }
+
+  /** Handle the `update` operation. */
+  update(args: Record<string, unknown>): Issue {
+    const raw = this.requireIssue(String(args.id), "update")
+    const oldStatus = raw.status
+
+    // Validate before changing anything, so a rejected update leaves the record intact
+    const priority =
+      args.priority === undefined ? undefined : validPriority(args.priority, "update")
+    if (typeof args.parent === "string" && args.parent) this.requireIssue(args.parent, "update")
+
+    for (const field of UPDATABLE_FIELDS) {
+      if (typeof args[field] === "string") raw[field] = args[field] as string
+    }
+    if (priority !== undefined) raw.priority = priority
+    if (args.status !== undefined) this.applyStatus(raw, String(args.status))
+
+    if (Array.isArray(args.add_labels) || Array.isArray(args.remove_labels)) {
+      const remove = new Set(uniqueStrings(args.remove_labels))
+      const labels = uniqueStrings([...(raw.labels ?? []), ...uniqueStrings(args.add_labels)])
+      raw.labels = labels.filter(l => !remove.has(l))
+    }
+
+    if (typeof args.parent === "string") {
+      const deps = (raw.dependencies ?? []).filter(d => d.type !== "parent-child")
+      const oldParents = (raw.dependencies ?? []).filter(d => d.type === "parent-child")
+      if (args.parent) deps.push(this.makeDependency(raw.id, args.parent, "parent-child"))
+      raw.dependencies = deps
+      this.clearCachedCounts(raw.id, args.parent, ...oldParents.map(d => d.depends_on_id))
+    }
+
+    raw.updated_at = this.now()
+    this.index.update(raw)
+    if (raw.status !== oldStatus) this.record("status", raw, oldStatus)
+    else this.record("update", raw)
+    return this.toIssue(raw)
+  }
+
+  /** Handle the `close` operation. */
+  close(args: Record<string, unknown>): Issue {
+    const raw = this.requireIssue(String(args.id), "close")
+    const oldStatus = raw.status
+    this.applyStatus(raw, "closed")
+    if (typeof args.reason === "string" && args.reason) raw.close_reason = args.reason
+    raw.updated_at = this.now()
+    this.index.update(raw)
+    this.record("status", raw, oldStatus)
+    return this.toIssue(raw)
+  }
+
+  /** Handle the `delete` operation, removing the issue and any links to it. */
+  delete(args: Record<string, unknown>): { id: string } {
+    const raw = this.requireIssue(String(args.id), "delete")
+    const dependents = this.inOrder(this.index.dependents.get(raw.id))
+    this.records.delete(raw.id)
+    this.ordinals.delete(raw.id)
+    this.index.remove(raw.id)
+    this.comments.delete(raw.id)
+    for (const other of dependents) {
+      other.dependencies = (other.dependencies ?? []).filter(d => d.depends_on_id !== raw.id)
+      this.index.update(other)
+      this.clearCachedCounts(other.id)
+    }
+    this.clearCachedCounts(...(raw.dependencies ?? []).map(d => d.depends_on_id))
+    this.record("delete", raw)
+    return { id: raw.id }
+  }
+
+  /** Handle the `comment_add` operation. */
+  addComment(args: Record<string, unknown>): Comment {
+    const raw = this.requireIssue(String(args.id), "comment_add")
+    const text = stringArg(args.text)
+    if (!text) {
+      throw new DaemonValidationError("comment text is required", { operation: "comment_add" })
+    }
+
+    const comment: Comment = {
+      id: this.nextCommentId++,
+      issue_id: raw.id,
+      author: stringArg(args.author) ?? this.options.actor ?? "sdk",
+      text,
+      created_at: this.now(),
+    }
+    this.comments.set(raw.id, [...(this.comments.get(raw.id) ?? []), comment])
+    this.record("comment", raw)
+    return comment
+  }
+
+  /** Handle the `comment_list` operation. */
+  listComments(args: Record<string, unknown>): Comment[] {
+    const raw = this.requireIssue(String(args.id), "comment_list")
+    return [...(this.comments.get(raw.id) ?? [])]
+  }
+
+  /** Handle the `label_add` operation. */
+  addLabel(args: Record<string, unknown>): LabelResult {
+    const raw = this.requireIssue(String(args.id), "label_add")
+    const label = String(args.label)
+    const labels = raw.labels ?? []
+    if (labels.includes(label)) return { issue_id: raw.id, label, status: "already_exists" }
+
+    raw.labels = [...labels, label]
+    raw.updated_at = this.now()
+    this.index.update(raw)
+    this.record("update", raw)
+    return { issue_id: raw.id, label, status: "added" }
+  }
+
+  /** Handle the `label_remove` operation. */
+  removeLabel(args: Record<string, unknown>): LabelResult {
+    const raw = this.requireIssue(String(args.id), "label_remove")
+    const label = String(args.label)
+    const labels = raw.labels ?? []
+    if (!labels.includes(label)) return { issue_id: raw.id, label, status: "not_found" }
+
+    raw.labels = labels.filter(l => l !== label)
+    raw.updated_at = this.now()
+    this.index.update(raw)
+    this.record("update", raw)
+    return { issue_id: raw.id, label, status: "removed" }
+  }
+
+  /** Handle the `label_list` operation. */
+  listLabels(args: Record<string, unknown>): string[] {
+    return [...(this.requireIssue(String(args.id), "label_list").labels ?? [])]
+  }
+
+  /** Handle the `label_list_all` operation. */
+  listAllLabels(): string[] {
+    const labels = new Set<string>()
+    for (const [, raw] of this.records) {
+      for (const label of raw.labels ?? []) labels.add(label)
+    }
+    return Array.from(labels).sort()
+  }
+
+  /** Handle the `dep_add` operation. */
+  addDependency(args: Record<string, unknown>): DepResult {
+    const from = this.requireIssue(String(args.from_id), "dep_add")
+    const to = this.requireIssue(String(args.to_id), "dep_add")
+    const type = stringArg(args.dep_type) ?? "blocks"
+    if (from.id === to.id) {
+      throw new DaemonValidationError("An issue cannot depend on itself", { operation: "dep_add" })
+    }
+
+    const deps = (from.dependencies ?? []).filter(d => d.depends_on_id !== to.id)
+    from.dependencies = [...deps, this.makeDependency(from.id, to.id, type)]
+    from.updated_at = this.now()
+    this.index.update(from)
+    this.clearCachedCounts(from.id, to.id)
+    this.record("update", from)
+    return { issue_id: from.id, depends_on_id: to.id, status: "added", type }
+  }
+
+  /** Handle the `dep_remove` operation. */
+  removeDependency(args: Record<string, unknown>): DepResult {
+    const from = this.requireIssue(String(args.from_id), "dep_remove")
+    const toId = String(args.to_id)
+    const deps = from.dependencies ?? []
+    if (!deps.some(d => d.depends_on_id === toId)) {
+      throw new NotFoundError(`Dependency not found: ${from.id} -> ${toId}`, {
+        operation: "dep_remove",
+      })
+    }
+
+    from.dependencies = deps.filter(d => d.depends_on_id !== toId)
+    from.updated_at = this.now()
+    this.index.update(from)
+    this.clearCachedCounts(from.id, toId)
+    this.record("update", from)
+    return { issue_id: from.id, depends_on_id: toId, status: "removed" }
+  }
+
+  /** Handle the `get_mutations` operation: events strictly after `since` (Unix ms). */
+  getMutations(args: Record<string, unknown>): MutationEvent[] {
+    const since = typeof args.since === "number" ? args.since : 0
+    return this.mutations.filter(m => new Date(m.Timestamp).getTime() > since)
+  }
+
+  // ── Helpers ──────────────────────────────────────────────────────
+
+  /** Comparator for a `sort` argument over raw records. */
+  private comparator(
+    sort: unknown,
+    operation: string,
+  ): (a: RawJsonlIssue, b: RawJsonlIssue) => number {
+    return compareIssues<RawJsonlIssue>(
+      normalizeSort(sort, operation),
+      raw => raw.dependent_count ?? this.countDependents(raw.id),
+    )
+  }
+
+  /** Look up an issue or throw NotFoundError. */
+  private requireIssue(id: string, operation: string): RawJsonlIssue {
+    const raw = this.records.get(id)
+    if (!raw) throw new NotFoundError(`Issue not found: ${id}`, { operation })
+    return raw
+  }
+
+  /** Set an issue's status, maintaining `closed_at`. */
+  private applyStatus(raw: RawJsonlIssue, status: string): void {
+    const closing = status === "closed" || status === "resolved"
+    if (closing && !raw.closed_at) raw.closed_at = this.now()
+    if (!closing) {
+      delete raw.closed_at
+      delete raw.close_reason
+    }
+    raw.status = status
+  }
+
+  /**
+   * Drop the exported `dependency_count`/`dependent_count` of issues whose links
+   * changed, so they're recomputed from the dependency records.
+   */
+  private clearCachedCounts(...ids: string[]): void {
+    for (const id of ids) {
+      const raw = this.records.get(id)
+      if (!raw) continue
+      delete raw.dependency_count
+      delete raw.dependent_count
+    }
+  }
+
+  /** Build a dependency record. */
+  private makeDependency(issueId: string, dependsOnId: string, type: string): RawJsonlDependency {
+    return {
+      issue_id: issueId,
+      depends_on_id: dependsOnId,
+      type,
+      created_at: this.now(),
+      created_by: this.options.actor,
+    }
+  }
+
+  /** Append a mutation event to the log. */
+  private record(type: MutationType, raw: RawJsonlIssue, oldStatus?: string): void {
+    const event: MutationEvent = {
+      Timestamp: this.now(),
+      Type: type,
+      IssueID: raw.id,
+      Title: raw.title,
+      Actor: this.options.actor,
+    }
+    if (type === "status") {
+      event.old_status = oldStatus
+      event.new_status = raw.status
+    }
+    this.mutations.push(event)
+  }
+
+  /** Current time as an ISO string. */
+  private now(): string {
+    return (this.options.now?.() ?? new Date()).toISOString()
+  }
+
+  /**
+   * Generate a new issue ID using the configured prefix (or the prefix of existing
+   * issues) and a random four-hex-digit suffix, like `bd create` does.
+   */
+  private generateId(): string {
+    const existing: string | undefined = this.records.keys().next().value
+    const prefix = this.options.prefix ?? (existing?.includes("-") ? existing.split("-")[0] : "bd")
+    for (;;) {
+      const id = `${prefix}-${randomBytes(2).toString("hex")}`
+      if (!this.records.has(id)) return id
+    }
+  }
+}
+
+/** Empty result for index lookups on a value no issue has. */
+const NONE: ReadonlySet<string> = new Set()
+
+/** Index lookup for a filter argument; `undefined` when the filter isn't set. */
+function lookup(index: Map<string, Set<string>>, value: unknown): ReadonlySet<string> | undefined {
+  if (value === undefined || value === null || value === "") return undefined
+  return index.get(String(value)) ?? NONE
+}
+
+/** Index lookups for each label in a `labels` (AND) filter. */
+function labelLookups(index: Map<string, Set<string>>, labels: unknown): ReadonlySet<string>[] {
+  if (!Array.isArray(labels)) return []
+  return labels.map(label => index.get(String(label)) ?? NONE)
+}
+
+/** Scalar fields copied verbatim from `update` arguments. */
+const UPDATABLE_FIELDS = [
+  "title",
+  "description",
+  "design",
+  "acceptance_criteria",
+  "notes",
+  "assignee",
+  "issue_type",
+] as const
+
+/** Return the argument if it's a string, otherwise undefined. */
+function stringArg(value: unknown): string | undefined {
+  return typeof value === "string" ? value : undefined
+}
+
+/** Deduplicate an array argument of strings, ignoring anything that isn't one. */
+function uniqueStrings(value: unknown): string[] {
+  if (!Array.isArray(value)) return []
+  return Array.from(new Set(value.filter((v): v is string => typeof v === "string")))
+}
+
+/** Validate a priority argument (0–4). */
+function validPriority(value: unknown, operation: string): Priority {
+  if (typeof value !== "number" || !Number.isInteger(value) || value < 0 || value > 4) {
+    throw new DaemonValidationError(`invalid priority: ${String(value)} (must be 0-4)`, {
+      operation,
+    })
+  }
+  return value as Priority
+}
+
+/** Options for IssueStore. */
+export interface IssueStoreOptions {
+  /** Actor recorded on mutations, comments and dependencies (default: "sdk") */
+  actor?: string
+  /** ID prefix for new issues (default: the prefix of existing issues, or "bd") */
+  prefix?: string
+  /** Clock used for timestamps (default: the system clock) */
+  now?: () => Date
+}
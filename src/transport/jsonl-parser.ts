@@ -0,0 +1,188 @@
+import { createReadStream } from "node:fs"
+import { createInterface } from "node:readline"
+import { JsonlParseError, SchemaValidationError } from "../errors.js"
+import { validateRawJsonlIssue } from "../validate.js"
+import type { JsonlDiagnostic, RawJsonlIssue } from "../types.js"
+
+/** Fields every issue record must have to be loaded. */
+const REQUIRED_FIELDS = ["id", "title", "status"] as const
+
+/**
+ * Line-by-line parser for `issues.jsonl`. Feed it every line of the file in
+ * order (blank lines included, so line numbers stay accurate); it returns the
+ * records worth loading and collects a diagnostic for each line it had to skip
+ * or that overrides an earlier one.
+ */
+export class JsonlParser {
+  /** Problems found so far */
+  readonly diagnostics: JsonlDiagnostic[] = []
+
+  private lineNumber = 0
+  private seen: Map<string, number> = new Map()
+  private validate: boolean
+
+  constructor(
+    /** Parser options */
+    options: Pick<JsonlParseOptions, "validate"> = {},
+  ) {
+    this.validate = options.validate ?? false
+  }
+
+  /** Parse the next line. Returns the record, or undefined if the line is blank or unusable. */
+  push(
+    /** The line's text */
+    text: string,
+    /** A record already parsed from identical text, to skip re-parsing it */
+    known?: RawJsonlIssue,
+  ): RawJsonlIssue | undefined {
+    const line = ++this.lineNumber
+    const trimmed = text.trim()
+    if (!trimmed) return undefined
+
+    const raw = known ?? this.parse(trimmed, line)
+    if (!raw) return undefined
+
+    const firstLine = this.seen.get(raw.id)
+    if (firstLine !== undefined) {
+      this.diagnostics.push({
+        line,
+        kind: "duplicate_id",
+        message: `Duplicate issue ID ${raw.id} (first seen on line ${firstLine}); using this record`,
+        id: raw.id,
+      })
+    } else {
+      this.seen.set(raw.id, line)
+    }
+    return raw
+  }
+
+  /** Throw a JsonlParseError if any problems were found. */
+  assertValid(
+    /** File the lines came from, for the error message */
+    path: string,
+  ): void {
+    if (this.diagnostics.length === 0) return
+    const [first] = this.diagnostics
+    const more = this.diagnostics.length > 1 ? ` (and ${this.diagnostics.length - 1} more)` : ""
+    throw new JsonlParseError(`${path}:${first.line}: ${first.message}${more}`, {
+      diagnostics: this.diagnostics,
+    })
+  }
+
+  /** Parse and validate one non-blank line. */
+  private parse(text: string, line: number): RawJsonlIssue | undefined {
+    let value: unknown
+    try {
+      value = JSON.parse(text)
+    } catch (err) {
+      const reason = err instanceof Error ? err.message : String(err)
+      this.diagnostics.push({ line, kind: "invalid_json", message: `Invalid JSON: ${reason}` })
+      return undefined
+    }
+
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      this.diagnostics.push({
+        line,
+        kind: "invalid_json",
+        message: "Expected a JSON object",
+      })
+      return undefined
+    }
+
+    const record = value as Record<string, unknown>
+    const id = typeof record.id === "string" && record.id ? record.id : undefined
+    const missing = REQUIRED_FIELDS.filter(f => typeof record[f] !== "string" || !record[f])
+    for (const field of missing) {
+      this.diagnostics.push({
+        line,
+        kind: "missing_field",
+        message: `Missing required field "${field}"${id ? ` on issue ${id}` : ""}`,
+        id,
+        field,
+      })
+    }
+    if (missing.length > 0) return undefined
+    if (!this.validate) return record as unknown as RawJsonlIssue
+
+    try {
+      return validateRawJsonlIssue(record, "record")
+    } catch (err) {
+      if (!(err instanceof SchemaValidationError)) throw err
+      this.diagnostics.push({
+        line,
+        kind: "invalid_field",
+        message: `Invalid record ${id}: ${err.message}`,
+        id,
+        field: err.path?.replace(/^record\./, ""),
+      })
+      return undefined
+    }
+  }
+}
+
+/** Parse JSONL content held in memory. */
+export function parseJsonl(
+  /** File content */
+  content: string,
+  /** Parse options */
+  options: JsonlParseOptions = {},
+): JsonlParseResult {
+  const parser = new JsonlParser(options)
+  const issues: RawJsonlIssue[] = []
+  for (const line of content.split("\n")) {
+    const raw = parser.push(line)
+    if (raw) issues.push(raw)
+  }
+  if (options.strict) parser.assertValid(options.path ?? "issues.jsonl")
+  return { issues: dedupe(issues), diagnostics: parser.diagnostics }
+}
+
+/** Parse a JSONL file, streaming it line by line rather than reading it whole. */
+export async function parseJsonlFile(
+  /** Path to the JSONL file */
+  path: string,
+  /** Parse options */
+  options: Omit<JsonlParseOptions, "path"> = {},
+): Promise<JsonlParseResult> {
+  const parser = new JsonlParser(options)
+  const issues: RawJsonlIssue[] = []
+  for await (const line of readLines(path)) {
+    const raw = parser.push(line)
+    if (raw) issues.push(raw)
+  }
+  if (options.strict) parser.assertValid(path)
+  return { issues: dedupe(issues), diagnostics: parser.diagnostics }
+}
+
+/** Stream the lines of a file. */
+export function readLines(
+  /** Path to the file */
+  path: string,
+): AsyncIterable<string> {
+  return createInterface({ input: createReadStream(path, "utf-8"), crlfDelay: Infinity })
+}
+
+/** Keep the last record for each ID, at the position where the ID first appeared. */
+function dedupe(issues: RawJsonlIssue[]): RawJsonlIssue[] {
+  const byId = new Map<string, RawJsonlIssue>()
+  for (const raw of issues) byId.set(raw.id, raw)
+  return Array.from(byId.values())
+}
+
+/** Options for parsing JSONL issue data. */
+export interface JsonlParseOptions {
+  /** Throw a JsonlParseError if any line is malformed (default: skip bad lines) */
+  strict?: boolean
+  /** File name used in error messages */
+  path?: string
+  /** Check every field's type, skipping records that don't match the schema (default: false) */
+  validate?: boolean
+}
+
+/** Records and diagnostics from parsing JSONL issue data. */
+export interface JsonlParseResult {
+  /** Loaded records, one per ID */
+  issues: RawJsonlIssue[]
+  /** Problems found, in line order */
+  diagnostics: JsonlDiagnostic[]
+}
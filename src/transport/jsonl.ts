@@ -1,65 +1,140 @@
-import { readFileSync, watch, type FSWatcher } from "node:fs"
+import { readFileSync, renameSync, rmSync, watch, writeFileSync, type FSWatcher } from "node:fs"
+import { basename, dirname } from "node:path"
 import { findJsonlPath } from "./discovery.js"
+import { readBeadsConfig } from "./config.js"
+import { JsonlParseError, NotConnectedError, ReadOnlyError, throwIfAborted } from "../errors.js"
+import { IssueStore } from "./issue-store.js"
+import { JsonlParser, readLines } from "./jsonl-parser.js"
 import type {
   Transport,
-  Issue,
-  LinkedIssue,
-  BlockedIssue,
   RawJsonlIssue,
-  RawJsonlDependency,
-  Priority,
-  Stats,
+  RequestOptions,
+  JsonlDiagnostic,
+  OperationArgs,
+  OperationResult,
 } from "../types.js"
 
 /**
- * Read-only transport backed by the `.beads/issues.jsonl` file.
- * Used as a fallback when the daemon is unavailable.
+ * Transport backed by the `.beads/issues.jsonl` file.
+ * Used as a fallback when the daemon is unavailable. Read-only by default;
+ * in `no-db` workspaces (or with `writable: true`) write operations rewrite
+ * the file atomically.
  */
 export class JsonlTransport implements Transport {
+  /** Whether write operations are allowed */
+  readonly writable: boolean
   private workspaceRoot: string
-  private issues: Map<string, RawJsonlIssue> = new Map()
+  private strict: boolean
+  private validate: boolean
+  private store: IssueStore
   private jsonlPath: string | null = null
   private watcher: FSWatcher | null = null
-  private changeCallbacks: Array<() => void> = []
+  private debounce: number
+  private debounceTimer: ReturnType<typeof setTimeout> | null = null
+  private changeCallbacks: Array<(event: JsonlChangeEvent) => void> = []
+  /** ID of the record each line of the file parsed to, so unchanged lines skip re-parsing */
+  private lineIds: Map<string, string> = new Map()
+  private lastDiagnostics: JsonlDiagnostic[] = []
+  /** Bumped whenever the store is replaced or persisted, to detect stale async loads */
+  private generation = 0
 
   constructor(
     /** Workspace root directory */
     workspaceRoot: string,
+    /** Transport options */
+    options: JsonlTransportOptions = {},
   ) {
     this.workspaceRoot = workspaceRoot
+    const config = readBeadsConfig(workspaceRoot)
+    this.writable = options.writable ?? config["no-db"] === true
+    this.debounce = options.debounce ?? 100
+    this.strict = options.strict ?? false
+    this.validate = options.validate ?? false
+    const prefix = config["issue-prefix"]
+    this.store = new IssueStore({
+      actor: options.actor ?? "sdk",
+      prefix: typeof prefix === "string" && prefix ? prefix : undefined,
+    })
   }
 
-  /** Load (or reload) the JSONL file into memory. */
-  load(): boolean {
-    this.jsonlPath = this.jsonlPath ?? findJsonlPath(this.workspaceRoot)
-    if (!this.jsonlPath) return false
+  /**
+   * Problems found in the file by the last load: malformed lines, records missing
+   * required fields (which are skipped), and duplicate IDs.
+   */
+  get diagnostics(): JsonlDiagnostic[] {
+    return [...this.lastDiagnostics]
+  }
 
-    try {
-      const content = readFileSync(this.jsonlPath, "utf-8")
-      this.issues.clear()
-      for (const line of content.split("\n")) {
-        const trimmed = line.trim()
-        if (!trimmed) continue
-        try {
-          const raw = JSON.parse(trimmed) as RawJsonlIssue
-          if (raw.id) this.issues.set(raw.id, raw)
-        } catch {
-          // skip malformed lines
-        }
+  /**
+   * Load (or reload) the JSONL file into memory, streaming it line by line.
+   * In strict mode, rejects with a JsonlParseError if any line is malformed.
+   */
+  async load(): Promise<boolean> {
+    return (await this.reload()) !== null
+  }
+
+  /**
+   * Reload the JSONL file, streaming it line by line, and report which issues
+   * changed. Lines identical to the previous load reuse the existing record
+   * instead of being re-parsed; changed lines count as updated only if their
+   * `updated_at` moved. Resolves with null if the file can't be read.
+   */
+  async reload(): Promise<JsonlChangeEvent | null> {
+    const path = this.resolvePath()
+    if (!path) return null
+
+    for (;;) {
+      const generation = this.generation
+      const pass = new LoadPass(this.store.issues, this.lineIds, this.validate)
+      try {
+        for await (const line of readLines(path)) pass.push(line)
+      } catch {
+        return null
       }
-      return true
+      // Unless a write or another load landed while streaming; then the pass may
+      // have reused records that changed since, so read the file again
+      if (generation === this.generation) return this.commit(pass, path)
+    }
+  }
+
+  /**
+   * Read the file in one go, for writes: reading, mutating and rewriting it
+   * without yielding keeps concurrent writes from interleaving.
+   */
+  private reloadSync(): JsonlChangeEvent | null {
+    const path = this.resolvePath()
+    if (!path) return null
+
+    let content: string
+    try {
+      content = readFileSync(path, "utf-8")
     } catch {
-      return false
+      return null
     }
+
+    const pass = new LoadPass(this.store.issues, this.lineIds, this.validate)
+    for (const line of content.split("\n")) pass.push(line)
+    return this.commit(pass, path)
+  }
+
+  /** Snapshot of every raw issue record currently loaded. */
+  snapshot(): RawJsonlIssue[] {
+    return structuredClone(Array.from(this.store.issues.values()))
   }
 
-  /** Start watching the JSONL file for changes. */
+  /**
+   * Start watching the JSONL file for changes. The `.beads` directory is watched
+   * rather than the file itself, so atomic rewrites (temp file + rename) are seen.
+   * Bursts of events are coalesced, and subscribers are only notified when issues
+   * were actually added, updated or removed.
+   */
   startWatching(): void {
     if (this.watcher || !this.jsonlPath) return
+    const filename = basename(this.jsonlPath)
     try {
-      this.watcher = watch(this.jsonlPath, () => {
-        this.load()
-        for (const cb of this.changeCallbacks) cb()
+      this.watcher = watch(dirname(this.jsonlPath), (_event, changed) => {
+        if (changed && changed !== filename) return
+        this.scheduleReload()
       })
     } catch {
       // fs.watch not available on this platform
@@ -68,8 +143,8 @@ export class JsonlTransport implements Transport {
 
   /** Register a callback for JSONL file changes. Returns an unsubscribe function. */
   onChange(
-    /** Callback invoked when the JSONL file changes */
-    callback: () => void,
+    /** Callback invoked with the IDs of changed issues */
+    callback: (event: JsonlChangeEvent) => void,
   ): () => void {
     this.changeCallbacks.push(callback)
     return () => {
@@ -79,28 +154,59 @@ export class JsonlTransport implements Transport {
   }
 
   /** Dispatch an operation, handling it locally from the in-memory JSONL data. */
+  send<K extends string>(
+    /** Operation name */
+    operation: K,
+    /** Operation arguments */
+    args: OperationArgs<K>,
+    /** Per-request options */
+    options?: RequestOptions,
+  ): Promise<OperationResult<K>>
   async send(
     /** Operation name */
     operation: string,
     /** Operation arguments */
     args: Record<string, unknown> = {},
+    /** Per-request options */
+    options: RequestOptions = {},
   ): Promise<unknown> {
-    if (this.issues.size === 0) {
-      const loaded = this.load()
-      if (!loaded) throw new Error("JSONL file not found or unreadable")
+    throwIfAborted(options.signal, operation)
+    if (this.store.issues.size === 0) {
+      const loaded = await this.load()
+      if (!loaded) throw new NotConnectedError("JSONL file not found or unreadable", { operation })
     }
 
     switch (operation) {
       case "list":
-        return this.handleList(args)
+        return this.store.list(args)
       case "show":
-        return this.handleShow(args)
+        return this.store.show(args)
       case "ready":
-        return this.handleReady(args)
+        return this.store.ready(args)
       case "blocked":
-        return this.handleBlocked(args)
+        return this.store.blocked(args)
       case "stats":
-        return this.handleStats()
+        return this.store.stats()
+      case "label_list":
+        return this.store.listLabels(args)
+      case "label_list_all":
+        return this.store.listAllLabels()
+      case "create":
+        return this.write(operation, () => this.store.create(args))
+      case "update":
+        return this.write(operation, () => this.store.update(args))
+      case "close":
+        return this.write(operation, () => this.store.close(args))
+      case "delete":
+        return this.write(operation, () => this.store.delete(args))
+      case "label_add":
+        return this.write(operation, () => this.store.addLabel(args))
+      case "label_remove":
+        return this.write(operation, () => this.store.removeLabel(args))
+      case "dep_add":
+        return this.write(operation, () => this.store.addDependency(args))
+      case "dep_remove":
+        return this.write(operation, () => this.store.removeDependency(args))
       case "ping":
         return { message: "pong (jsonl fallback)", version: "jsonl" }
       case "health":
@@ -113,264 +219,232 @@ export class JsonlTransport implements Transport {
           memory_bytes: 0,
         }
       default:
-        throw new Error(
-          `Operation "${operation}" is not supported in JSONL fallback mode (read-only)`,
+        throw new ReadOnlyError(
+          this.writable ?
+            `Operation "${operation}" is not supported in JSONL mode`
+          : `Operation "${operation}" is not supported in JSONL fallback mode (read-only)`,
+          { operation },
         )
     }
   }
 
-  /** Stop watching and release resources. */
-  close(): void {
-    if (this.watcher) {
-      this.watcher.close()
-      this.watcher = null
+  /**
+   * Apply a mutation and rewrite the JSONL file. The file is reloaded first so
+   * changes made by other writers aren't clobbered; if the rewrite fails, the
+   * in-memory state is reloaded from disk so it doesn't diverge.
+   */
+  private write<T>(
+    /** Operation name */
+    operation: string,
+    /** Mutation to apply to the store */
+    mutate: () => T,
+  ): T {
+    if (!this.writable) {
+      throw new ReadOnlyError(
+        `Operation "${operation}" is not supported in JSONL fallback mode (read-only)`,
+        { operation },
+      )
     }
-    this.changeCallbacks = []
-    this.issues.clear()
-  }
 
-  /** Handle the `list` operation with in-memory filtering. */
-  private handleList(args: Record<string, unknown>): Issue[] {
-    let results = Array.from(this.issues.values())
-
-    if (args.status) results = results.filter(i => i.status === args.status)
-    if (args.priority !== undefined) results = results.filter(i => i.priority === args.priority)
-    if (args.issue_type) results = results.filter(i => i.issue_type === args.issue_type)
-    if (args.assignee) results = results.filter(i => i.assignee === args.assignee)
-    if (args.unassigned) results = results.filter(i => !i.assignee)
-    if (args.query) {
-      const q = String(args.query).toLowerCase()
-      results = results.filter(
-        i => i.title.toLowerCase().includes(q) || (i.description ?? "").toLowerCase().includes(q),
+    const external = this.reloadSync()
+    if (external) this.notifyChange(external)
+
+    // Rewriting the file would silently drop lines that couldn't be loaded
+    const unloadable = this.lastDiagnostics.filter(d => d.kind !== "duplicate_id")
+    if (unloadable.length > 0) {
+      throw new JsonlParseError(
+        `Refusing to rewrite ${this.jsonlPath}: line ${unloadable[0].line} can't be loaded ` +
+          `(${unloadable[0].message})`,
+        { operation, diagnostics: unloadable },
       )
     }
-    if (Array.isArray(args.labels)) {
-      const required = args.labels as string[]
-      results = results.filter(i => {
-        const issueLabels = i.labels ?? []
-        return required.every(l => issueLabels.includes(l))
-      })
-    }
-    if (Array.isArray(args.labels_any)) {
-      const any = args.labels_any as string[]
-      results = results.filter(i => {
-        const issueLabels = i.labels ?? []
-        return any.some(l => issueLabels.includes(l))
-      })
+
+    const before = this.versions()
+    let result: T
+    try {
+      result = mutate()
+      this.persist()
+    } catch (err) {
+      // The failed mutation may have partially modified cached records
+      this.lineIds.clear()
+      this.reloadSync()
+      throw err
     }
+    this.notifyChange(this.diff(before))
+    return result
+  }
 
-    const limit = typeof args.limit === "number" ? args.limit : 50
-    return results.slice(0, limit).map(raw => this.toIssue(raw))
+  /** Atomically rewrite the JSONL file from the store (temp file + rename). */
+  private persist(): void {
+    const jsonlPath = this.jsonlPath
+    if (!jsonlPath) throw new NotConnectedError("JSONL file not found or unreadable")
+
+    const lineIds = new Map<string, string>()
+    for (const raw of this.store.issues.values()) lineIds.set(JSON.stringify(raw), raw.id)
+    const content = Array.from(lineIds.keys()).join("\n")
+    const tempPath = `${jsonlPath}.${process.pid}.tmp`
+    try {
+      writeFileSync(tempPath, content ? content + "\n" : "")
+      renameSync(tempPath, jsonlPath)
+    } catch (err) {
+      rmSync(tempPath, { force: true })
+      throw err
+    }
+    this.lineIds = lineIds
+    this.generation++
   }
 
-  /** Handle the `show` operation. */
-  private handleShow(args: Record<string, unknown>): Issue {
-    const id = String(args.id)
-    const raw = this.issues.get(id)
-    if (!raw) throw new Error(`Issue not found: ${id}`)
-    return this.toIssue(raw)
+  /** Locate the JSONL file, once. */
+  private resolvePath(): string | null {
+    this.jsonlPath = this.jsonlPath ?? findJsonlPath(this.workspaceRoot)
+    return this.jsonlPath
   }
 
-  /** Handle the `ready` operation: open issues with no unsatisfied blockers. */
-  private handleReady(args: Record<string, unknown>): Issue[] {
-    let results = Array.from(this.issues.values()).filter(i => i.status === "open")
+  /** Replace the store's contents with the result of a load pass. */
+  private commit(
+    /** The completed pass */
+    pass: LoadPass,
+    /** Path of the file that was read */
+    path: string,
+  ): JsonlChangeEvent {
+    if (this.strict) pass.parser.assertValid(path)
 
-    // Exclude issues with open blockers
-    results = results.filter(i => {
-      const blockers = (i.dependencies ?? []).filter(d => d.type === "blocks")
-      return blockers.every(b => {
-        const blocker = this.issues.get(b.depends_on_id)
-        return !blocker || blocker.status === "closed" || blocker.status === "resolved"
-      })
-    })
+    const before = this.versions()
+    // Reused records keep their index entries; only new and changed ones are re-indexed
+    this.store.replaceAll(pass.records.values())
+    this.lineIds = pass.lineIds()
+    this.lastDiagnostics = pass.parser.diagnostics
+    this.generation++
+    return this.diff(before)
+  }
 
-    if (args.assignee) results = results.filter(i => i.assignee === args.assignee)
-    if (args.priority !== undefined) results = results.filter(i => i.priority === args.priority)
-    if (args.unassigned) results = results.filter(i => !i.assignee)
-    if (Array.isArray(args.labels)) {
-      const required = args.labels as string[]
-      results = results.filter(i => required.every(l => (i.labels ?? []).includes(l)))
-    }
-    if (Array.isArray(args.labels_any)) {
-      const any = args.labels_any as string[]
-      results = results.filter(i => any.some(l => (i.labels ?? []).includes(l)))
-    }
-    if (args.parent_id) {
-      results = results.filter(i =>
-        (i.dependencies ?? []).some(
-          d => d.type === "parent-child" && d.depends_on_id === args.parent_id,
-        ),
+  /** Reload after a quiet period, coalescing bursts of watcher events. */
+  private scheduleReload(): void {
+    if (this.debounceTimer) clearTimeout(this.debounceTimer)
+    this.debounceTimer = setTimeout(() => {
+      this.debounceTimer = null
+      this.reload().then(
+        event => {
+          if (event) this.notifyChange(event)
+        },
+        () => {
+          // Strict mode rejected the new content; keep serving the last good load
+        },
       )
-    }
-
-    const limit = typeof args.limit === "number" ? args.limit : 10
-    return results.slice(0, limit).map(raw => this.toIssue(raw))
+    }, this.debounce)
   }
 
-  /** Handle the `blocked` operation: issues that are blocked. */
-  private handleBlocked(args: Record<string, unknown>): BlockedIssue[] {
-    let results = Array.from(this.issues.values())
+  /** The `updated_at` of every issue currently loaded, keyed by ID. */
+  private versions(): Map<string, string> {
+    const versions = new Map<string, string>()
+    for (const [id, raw] of this.store.issues) versions.set(id, raw.updated_at)
+    return versions
+  }
 
-    // Filter to parent's descendants if specified
-    if (args.parent_id) {
-      results = results.filter(i =>
-        (i.dependencies ?? []).some(
-          d => d.type === "parent-child" && d.depends_on_id === args.parent_id,
-        ),
-      )
+  /** Compare the loaded issues against an earlier `versions()` snapshot. */
+  private diff(
+    /** Snapshot taken before the change */
+    before: Map<string, string>,
+  ): JsonlChangeEvent {
+    const event: JsonlChangeEvent = { added: [], updated: [], removed: [] }
+    for (const [id, raw] of this.store.issues) {
+      const previous = before.get(id)
+      if (previous === undefined) event.added.push(id)
+      else if (previous !== raw.updated_at) event.updated.push(id)
     }
-
-    const blocked: BlockedIssue[] = []
-    for (const raw of results) {
-      const blockerDeps = (raw.dependencies ?? []).filter(d => d.type === "blocks")
-      const openBlockerIds = blockerDeps
-        .filter(b => {
-          const blocker = this.issues.get(b.depends_on_id)
-          return blocker && blocker.status !== "closed" && blocker.status !== "resolved"
-        })
-        .map(b => b.depends_on_id)
-
-      if (openBlockerIds.length > 0 || raw.status === "blocked") {
-        blocked.push({
-          ...this.toIssue(raw),
-          blocked_by: openBlockerIds,
-          blocked_by_count: openBlockerIds.length,
-        })
-      }
+    for (const id of before.keys()) {
+      if (!this.store.issues.has(id)) event.removed.push(id)
     }
-    return blocked
+    return event
   }
 
-  /** Handle the `stats` operation: compute summary from in-memory data. */
-  private handleStats(): Stats {
-    const all = Array.from(this.issues.values())
-    const open = all.filter(i => i.status === "open")
-    const inProgress = all.filter(i => i.status === "in_progress")
-    const closed = all.filter(i => i.status === "closed" || i.status === "resolved")
-    const blockedIssues = all.filter(i => i.status === "blocked")
-    const deferred = all.filter(i => i.status === "deferred")
-
-    // Compute ready count (open with no unsatisfied blockers)
-    const ready = open.filter(i => {
-      const blockers = (i.dependencies ?? []).filter(d => d.type === "blocks")
-      return blockers.every(b => {
-        const blocker = this.issues.get(b.depends_on_id)
-        return !blocker || blocker.status === "closed" || blocker.status === "resolved"
-      })
-    })
+  /** Notify change subscribers, unless nothing changed. */
+  private notifyChange(
+    /** The changes to report */
+    event: JsonlChangeEvent,
+  ): void {
+    if (event.added.length + event.updated.length + event.removed.length === 0) return
+    for (const cb of this.changeCallbacks) cb(event)
+  }
 
-    // Compute average lead time for closed issues
-    let totalLeadTimeHours = 0
-    let closedWithDates = 0
-    for (const issue of closed) {
-      if (issue.closed_at && issue.created_at) {
-        const lead = new Date(issue.closed_at).getTime() - new Date(issue.created_at).getTime()
-        totalLeadTimeHours += lead / (1000 * 60 * 60)
-        closedWithDates++
-      }
+  /** Stop watching and release resources. */
+  close(): void {
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer)
+      this.debounceTimer = null
     }
-
-    return {
-      summary: {
-        total_issues: all.length,
-        open_issues: open.length,
-        in_progress_issues: inProgress.length,
-        closed_issues: closed.length,
-        blocked_issues: blockedIssues.length,
-        deferred_issues: deferred.length,
-        ready_issues: ready.length,
-        average_lead_time_hours: closedWithDates > 0 ? totalLeadTimeHours / closedWithDates : 0,
-      },
+    if (this.watcher) {
+      this.watcher.close()
+      this.watcher = null
     }
+    this.changeCallbacks = []
+    this.store.clear()
+    this.lineIds.clear()
+    this.lastDiagnostics = []
   }
+}
 
-  /** Convert a raw JSONL issue to the Issue type. */
-  private toIssue(raw: RawJsonlIssue): Issue {
-    return {
-      id: raw.id,
-      title: raw.title,
-      description: raw.description ?? "",
-      status: raw.status,
-      priority: raw.priority as Priority,
-      issue_type: raw.issue_type,
-      assignee: raw.assignee,
-      labels: raw.labels ?? [],
-      created_at: raw.created_at,
-      updated_at: raw.updated_at,
-      closed_at: raw.closed_at,
-      design: raw.design,
-      acceptance_criteria: raw.acceptance_criteria,
-      notes: raw.notes,
-      external_ref: raw.external_ref,
-      dependency_count: raw.dependency_count ?? (raw.dependencies ?? []).length,
-      dependent_count: raw.dependent_count ?? this.countDependents(raw.id),
-      dependencies: this.buildLinkedIssues(raw.dependencies ?? []),
-      dependents: this.buildDependents(raw.id),
-    }
-  }
+/** Options for JsonlTransport. */
+export interface JsonlTransportOptions {
+  /** Allow write operations (default: true when `.beads/config.yaml` sets `no-db: true`) */
+  writable?: boolean
+  /** Actor recorded on dependencies created by writes (default: "sdk") */
+  actor?: string
+  /** Quiet period in ms used to coalesce bursts of file-change events (default: 100) */
+  debounce?: number
+  /** Fail loads with a JsonlParseError when any line is malformed (default: skip bad lines) */
+  strict?: boolean
+  /** Check every record's field types, treating mismatches as malformed lines (default: false) */
+  validate?: boolean
+}
 
-  /** Build LinkedIssue array from raw dependency records. */
-  private buildLinkedIssues(deps: RawJsonlDependency[]): LinkedIssue[] {
-    const linked: LinkedIssue[] = []
-    for (const dep of deps) {
-      const target = this.issues.get(dep.depends_on_id)
-      if (!target) continue
-      linked.push({
-        id: target.id,
-        title: target.title,
-        description: target.description ?? "",
-        status: target.status,
-        priority: target.priority as Priority,
-        issue_type: target.issue_type,
-        assignee: target.assignee,
-        labels: target.labels ?? [],
-        created_at: target.created_at,
-        updated_at: target.updated_at,
-        closed_at: target.closed_at,
-        dependency_type: dep.type as LinkedIssue["dependency_type"],
-        dependency_count: target.dependency_count ?? (target.dependencies ?? []).length,
-        dependent_count: target.dependent_count ?? this.countDependents(target.id),
-      })
-    }
-    return linked
+/**
+ * One pass over the lines of the JSONL file. Lines whose text is unchanged since
+ * the previous pass reuse the record already loaded from them.
+ */
+class LoadPass {
+  readonly parser: JsonlParser
+  /** Records by ID; a duplicate ID replaces the earlier record but keeps its position */
+  readonly records: Map<string, RawJsonlIssue> = new Map()
+  private texts: Map<string, string> = new Map()
+  private previous: ReadonlyMap<string, RawJsonlIssue>
+  private previousLineIds: Map<string, string>
+
+  constructor(
+    /** Records from the previous pass, by ID */
+    previous: ReadonlyMap<string, RawJsonlIssue>,
+    /** ID each line of the previous pass loaded as, keyed by line text */
+    previousLineIds: Map<string, string>,
+    /** Check every field's type */
+    validate: boolean,
+  ) {
+    this.parser = new JsonlParser({ validate })
+    this.previous = previous
+    this.previousLineIds = previousLineIds
   }
 
-  /** Build the dependents list for an issue (inverse of dependencies). */
-  private buildDependents(issueId: string): LinkedIssue[] {
-    const dependents: LinkedIssue[] = []
-    for (const [, raw] of this.issues) {
-      for (const dep of raw.dependencies ?? []) {
-        if (dep.depends_on_id === issueId) {
-          dependents.push({
-            id: raw.id,
-            title: raw.title,
-            description: raw.description ?? "",
-            status: raw.status,
-            priority: raw.priority as Priority,
-            issue_type: raw.issue_type,
-            assignee: raw.assignee,
-            labels: raw.labels ?? [],
-            created_at: raw.created_at,
-            updated_at: raw.updated_at,
-            closed_at: raw.closed_at,
-            dependency_type: dep.type as LinkedIssue["dependency_type"],
-            dependency_count: raw.dependency_count ?? (raw.dependencies ?? []).length,
-            dependent_count: raw.dependent_count ?? this.countDependents(raw.id),
-          })
-        }
-      }
-    }
-    return dependents
+  /** Feed the next line of the file. */
+  push(line: string): void {
+    const trimmed = line.trim()
+    const knownId = trimmed ? this.previousLineIds.get(trimmed) : undefined
+    const known = knownId === undefined ? undefined : this.previous.get(knownId)
+    const raw = this.parser.push(line, known)
+    if (!raw) return
+    this.records.set(raw.id, raw)
+    this.texts.set(raw.id, trimmed)
   }
 
-  /** Count how many issues depend on the given issue. */
-  private countDependents(issueId: string): number {
-    let count = 0
-    for (const [, raw] of this.issues) {
-      if ((raw.dependencies ?? []).some(d => d.depends_on_id === issueId)) {
-        count++
-      }
-    }
-    return count
+  /** ID of each loaded record keyed by the line text it came from, for the next pass. */
+  lineIds(): Map<string, string> {
+    const lineIds = new Map<string, string>()
+    for (const [id, text] of this.texts) lineIds.set(text, id)
+    return lineIds
   }
 }
+
+/** IDs of the issues that changed between two loads of the JSONL file. */
+export interface JsonlChangeEvent {
+  added: string[]
+  updated: string[]
+  removed: string[]
+}
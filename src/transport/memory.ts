@@ -0,0 +1,138 @@
+import { IssueStore } from "./issue-store.js"
+import { DaemonValidationError, throwIfAborted } from "../errors.js"
+import type {
+  Transport,
+  RawJsonlIssue,
+  RequestOptions,
+  Info,
+  OperationArgs,
+  OperationResult,
+} from "../types.js"
+
+/**
+ * Transport backed by an in-memory issue store, implementing the daemon's full
+ * operation set (reads, writes, comments, labels, dependencies and mutation events).
+ * Intended for unit-testing code built on `BeadsClient` without a real daemon.
+ */
+export class MemoryTransport implements Transport {
+  private store: IssueStore
+
+  constructor(
+    /** Transport options */
+    options: MemoryTransportOptions = {},
+  ) {
+    this.store = new IssueStore({
+      actor: options.actor ?? "sdk",
+      prefix: options.prefix,
+      now: options.now,
+    })
+    for (const raw of options.issues ?? []) {
+      this.store.set(structuredClone(raw))
+    }
+  }
+
+  /** Dispatch an operation against the in-memory store. */
+  send<K extends string>(
+    /** Operation name */
+    operation: K,
+    /** Operation arguments */
+    args: OperationArgs<K>,
+    /** Per-request options */
+    options?: RequestOptions,
+  ): Promise<OperationResult<K>>
+  async send(
+    /** Operation name */
+    operation: string,
+    /** Operation arguments */
+    args: Record<string, unknown> = {},
+    /** Per-request options */
+    options: RequestOptions = {},
+  ): Promise<unknown> {
+    throwIfAborted(options.signal, operation)
+
+    // Results are cloned so callers can't mutate the store through them
+    return structuredClone(this.dispatch(operation, args))
+  }
+
+  /** Snapshot of every raw issue record currently in the store. */
+  snapshot(): RawJsonlIssue[] {
+    return structuredClone(Array.from(this.store.issues.values()))
+  }
+
+  /** No-op; there are no resources to release. */
+  close(): void {}
+
+  /** Route an operation to the matching store handler. */
+  private dispatch(operation: string, args: Record<string, unknown>): unknown {
+    switch (operation) {
+      case "list":
+        return this.store.list(args)
+      case "show":
+        return this.store.show(args)
+      case "ready":
+        return this.store.ready(args)
+      case "blocked":
+        return this.store.blocked(args)
+      case "stats":
+        return this.store.stats()
+      case "create":
+        return this.store.create(args)
+      case "update":
+        return this.store.update(args)
+      case "close":
+        return this.store.close(args)
+      case "delete":
+        return this.store.delete(args)
+      case "comment_add":
+        return this.store.addComment(args)
+      case "comment_list":
+        return this.store.listComments(args)
+      case "label_add":
+        return this.store.addLabel(args)
+      case "label_remove":
+        return this.store.removeLabel(args)
+      case "label_list":
+        return this.store.listLabels(args)
+      case "label_list_all":
+        return this.store.listAllLabels()
+      case "dep_add":
+        return this.store.addDependency(args)
+      case "dep_remove":
+        return this.store.removeDependency(args)
+      case "get_mutations":
+        return this.store.getMutations(args)
+      case "ping":
+        return { message: "pong", version: "memory" }
+      case "health":
+        return {
+          status: "healthy",
+          version: "memory",
+          uptime: 0,
+          db_response_time_ms: 0,
+          active_connections: 0,
+          memory_bytes: 0,
+        }
+      case "info":
+        return {
+          database_path: ":memory:",
+          issue_count: this.store.issues.size,
+          mode: "memory",
+          daemon_connected: false,
+        } satisfies Info
+      default:
+        throw new DaemonValidationError(`Unknown operation: ${operation}`, { operation })
+    }
+  }
+}
+
+/** Options for MemoryTransport. */
+export interface MemoryTransportOptions {
+  /** Issues to seed the store with */
+  issues?: RawJsonlIssue[]
+  /** Actor recorded on mutations and comments (default: "sdk") */
+  actor?: string
+  /** ID prefix for created issues (default: the prefix of seeded issues, or "bd") */
+  prefix?: string
+  /** Clock used for timestamps (default: the system clock) */
+  now?: () => Date
+}
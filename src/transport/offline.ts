@@ -0,0 +1,359 @@
+import { readFileSync, renameSync, rmSync, writeFileSync } from "node:fs"
+import { isTransientError } from "../retry.js"
+import { ReadOnlyError, throwIfAborted } from "../errors.js"
+import { MemoryTransport } from "./memory.js"
+import type { JsonlTransport } from "./jsonl.js"
+import type {
+  Transport,
+  RequestOptions,
+  ChangeSet,
+  OperationArgs,
+  OperationResult,
+} from "../types.js"
+
+/** Write operations the offline queue accepts. */
+export const OFFLINE_OPERATIONS: ReadonlySet<string> = new Set([
+  "create",
+  "update",
+  "close",
+  "comment_add",
+  "label_add",
+  "label_remove",
+  "dep_add",
+  "dep_remove",
+])
+
+/** Operations answered from the optimistic view of the JSONL data plus queued writes. */
+const OVERLAY_READS: ReadonlySet<string> = new Set([
+  "list",
+  "show",
+  "ready",
+  "blocked",
+  "stats",
+  "comment_list",
+  "label_list",
+  "label_list_all",
+])
+
+/** Argument fields that hold issue IDs, and so may refer to issues created offline. */
+const ID_FIELDS = ["id", "from_id", "to_id", "parent"]
+
+/**
+ * Durable, ordered queue of writes made while the daemon was unreachable,
+ * stored as one JSON entry per line (e.g. `.beads/offline-queue.jsonl`). The
+ * file is rewritten atomically (temp file + rename) on every change, so queued
+ * writes survive a crash or restart.
+ */
+export class OfflineQueue {
+  /** Path of the queue file */
+  readonly path: string
+  private queue: OfflineEntry[]
+  private nextSeq: number
+
+  constructor(
+    /** Path of the queue file (created on the first enqueued write) */
+    path: string,
+  ) {
+    this.path = path
+    this.queue = readEntries(path)
+    this.nextSeq = Math.max(0, ...this.queue.map(e => e.seq)) + 1
+  }
+
+  /** Queued writes, oldest first. */
+  get entries(): readonly OfflineEntry[] {
+    return this.queue
+  }
+
+  /** Number of queued writes. */
+  get size(): number {
+    return this.queue.length
+  }
+
+  /** Append a write to the queue and persist it. */
+  enqueue(
+    /** Operation name */
+    operation: string,
+    /** Operation arguments */
+    args: Record<string, unknown>,
+    /** ID assigned locally to an issue created offline */
+    localId?: string,
+  ): OfflineEntry {
+    const entry: OfflineEntry = {
+      seq: this.nextSeq++,
+      operation,
+      args,
+      queued_at: new Date().toISOString(),
+    }
+    if (localId) entry.local_id = localId
+    this.queue.push(entry)
+    this.persist()
+    return entry
+  }
+
+  /**
+   * Send the queued writes to a transport, in order. Issues created offline get
+   * their real IDs from the daemon, and later writes referring to them are
+   * rewritten to match. A write the daemon rejects (e.g. the issue was deleted
+   * meanwhile) is dropped and reported as a conflict; a transient failure (the
+   * daemon went away again) stops the replay, leaving the rest queued. A write
+   * that timed out may have been applied and will be sent again on the next replay.
+   */
+  async replay(
+    /** Transport to send the writes through (normally the daemon) */
+    transport: Transport,
+    /** Called for each write the daemon rejected */
+    onConflict?: (conflict: OfflineConflict) => void,
+  ): Promise<OfflineReplayResult> {
+    const result: OfflineReplayResult = { replayed: 0, conflicts: [], remaining: 0, ids: {} }
+    while (this.queue.length > 0) {
+      const entry = this.queue[0]
+      try {
+        const response = await transport.send(entry.operation, entry.args)
+        if (entry.local_id) {
+          const id = (response as { id?: unknown } | null)?.id
+          if (typeof id === "string" && id !== entry.local_id) {
+            result.ids[entry.local_id] = id
+            this.remap(entry.local_id, id)
+          }
+        }
+        result.replayed++
+      } catch (error) {
+        if (isTransientError(error)) break
+        const conflict = { entry, error }
+        result.conflicts.push(conflict)
+        onConflict?.(conflict)
+      }
+      this.queue.shift()
+      this.persist()
+    }
+    result.remaining = this.queue.length
+    return result
+  }
+
+  /** Drop every queued write. */
+  clear(): void {
+    this.queue = []
+    this.persist()
+  }
+
+  /** Point queued writes that refer to a locally created issue at its real ID. */
+  private remap(localId: string, id: string): void {
+    for (const entry of this.queue) entry.args = remapIds(entry.args, { [localId]: id })
+  }
+
+  /** Atomically rewrite the queue file, removing it once the queue is empty. */
+  private persist(): void {
+    if (this.queue.length === 0) {
+      rmSync(this.path, { force: true })
+      return
+    }
+    const content = this.queue.map(e => JSON.stringify(e)).join("\n") + "\n"
+    const tempPath = `${this.path}.${process.pid}.tmp`
+    try {
+      writeFileSync(tempPath, content)
+      renameSync(tempPath, this.path)
+    } catch (err) {
+      rmSync(tempPath, { force: true })
+      throw err
+    }
+  }
+}
+
+/**
+ * Transport for offline mode: reads come from the JSONL fallback with queued
+ * writes applied on top, so they're reflected immediately, and writes are
+ * validated against that view and then added to the offline queue.
+ */
+export class OfflineTransport implements Transport {
+  private base: JsonlTransport
+  private queue: OfflineQueue
+  private actor: string | undefined
+  private overlay: MemoryTransport | null = null
+  private clock: Date = new Date()
+  private changeCallbacks: Array<(changes: ChangeSet) => void> = []
+  private baseUnsubscribe: () => void
+
+  constructor(
+    /** JSONL fallback holding the last known state */
+    base: JsonlTransport,
+    /** Queue to add writes to */
+    queue: OfflineQueue,
+    /** Transport options */
+    options: { actor?: string } = {},
+  ) {
+    this.base = base
+    this.queue = queue
+    this.actor = options.actor
+    // Rebuild the optimistic view lazily after the JSONL file changes
+    this.baseUnsubscribe = base.onChange(() => (this.overlay = null))
+  }
+
+  /** Serve a read from the optimistic view, or queue a write. */
+  send<K extends string>(
+    /** Operation name */
+    operation: K,
+    /** Operation arguments */
+    args: OperationArgs<K>,
+    /** Per-request options */
+    options?: RequestOptions,
+  ): Promise<OperationResult<K>>
+  async send(
+    /** Operation name */
+    operation: string,
+    /** Operation arguments */
+    args: Record<string, unknown> = {},
+    /** Per-request options */
+    options: RequestOptions = {},
+  ): Promise<unknown> {
+    throwIfAborted(options.signal, operation)
+
+    if (OFFLINE_OPERATIONS.has(operation)) {
+      const overlay = await this.view()
+      // Applying the write first rejects invalid ones (e.g. unknown issue) before they're queued
+      this.clock = new Date()
+      const result = await overlay.send(operation, args)
+      const localId = operation === "create" ? (result as { id: string }).id : undefined
+      try {
+        this.queue.enqueue(operation, args, localId)
+      } catch (err) {
+        // Not queued, so the view must not show it either
+        this.overlay = null
+        throw err
+      }
+      const id = localId ?? String(args.id ?? args.from_id)
+      const changes: ChangeSet = {
+        created: localId ? [id] : [],
+        updated: localId ? [] : [id],
+        deleted: [],
+        mutations: [],
+        refetch: false,
+      }
+      for (const cb of this.changeCallbacks) cb(changes)
+      return result
+    }
+    if (OVERLAY_READS.has(operation)) return (await this.view()).send(operation, args)
+    if (operation === "delete") {
+      throw new ReadOnlyError(`Operation "delete" can't be queued offline`, { operation })
+    }
+    return this.base.send(operation, args, options)
+  }
+
+  /** Register a callback for writes added to the queue. Returns an unsubscribe function. */
+  onChange(
+    /** Callback invoked with the issue affected by each queued write */
+    callback: (changes: ChangeSet) => void,
+  ): () => void {
+    this.changeCallbacks.push(callback)
+    return () => {
+      const idx = this.changeCallbacks.indexOf(callback)
+      if (idx >= 0) this.changeCallbacks.splice(idx, 1)
+    }
+  }
+
+  /** Stop tracking the JSONL fallback. Doesn't close it or touch the queue. */
+  close(): void {
+    this.baseUnsubscribe()
+    this.changeCallbacks = []
+    this.overlay = null
+  }
+
+  /** The JSONL data with every queued write applied, rebuilt when either changes. */
+  private async view(): Promise<MemoryTransport> {
+    if (this.overlay) return this.overlay
+    const overlay = new MemoryTransport({
+      issues: this.base.snapshot(),
+      actor: this.actor,
+      now: () => this.clock,
+    })
+    for (const entry of this.queue.entries) {
+      this.clock = new Date(entry.queued_at)
+      const args = entry.local_id ? { ...entry.args, id: entry.local_id } : entry.args
+      try {
+        await overlay.send(entry.operation, args)
+      } catch {
+        // No longer applies to the current data; it will surface as a conflict on replay
+      }
+    }
+    this.overlay = overlay
+    return overlay
+  }
+}
+
+/** Replace issue IDs in a write's arguments according to a mapping. */
+function remapIds(
+  /** Operation arguments */
+  args: Record<string, unknown>,
+  /** New ID for each old ID */
+  ids: Record<string, string>,
+): Record<string, unknown> {
+  const remapped = { ...args }
+  for (const field of ID_FIELDS) {
+    const value = remapped[field]
+    if (typeof value === "string" && ids[value]) remapped[field] = ids[value]
+  }
+  if (Array.isArray(remapped.dependencies)) {
+    // Dependency specs are "id" or "type:id"
+    remapped.dependencies = remapped.dependencies.map(spec => {
+      if (typeof spec !== "string") return spec
+      const [type, target] = spec.includes(":") ? spec.split(":", 2) : [null, spec]
+      if (!ids[target]) return spec
+      return type ? `${type}:${ids[target]}` : ids[target]
+    })
+  }
+  return remapped
+}
+
+/** Read a queue file, skipping lines that can't be parsed. */
+function readEntries(path: string): OfflineEntry[] {
+  let content: string
+  try {
+    content = readFileSync(path, "utf-8")
+  } catch {
+    return []
+  }
+  const entries: OfflineEntry[] = []
+  for (const line of content.split("\n")) {
+    if (!line.trim()) continue
+    try {
+      const entry = JSON.parse(line) as OfflineEntry
+      if (typeof entry.operation === "string" && typeof entry.seq === "number") entries.push(entry)
+    } catch {
+      // A torn write; the entry was never acknowledged
+    }
+  }
+  return entries.sort((a, b) => a.seq - b.seq)
+}
+
+/** A write waiting in the offline queue. */
+export interface OfflineEntry {
+  /** Position in the queue (increasing) */
+  seq: number
+  /** Operation name */
+  operation: string
+  /** Operation arguments */
+  args: Record<string, unknown>
+  /** When the write was queued (ISO 8601) */
+  queued_at: string
+  /** For `create`: the ID the issue was given locally, until the daemon assigns one */
+  local_id?: string
+}
+
+/** A queued write the daemon rejected on replay. */
+export interface OfflineConflict {
+  /** The write that was dropped */
+  entry: OfflineEntry
+  /** The daemon's error (e.g. a NotFoundError if the issue was deleted meanwhile) */
+  error: unknown
+}
+
+/** Outcome of replaying the offline queue. */
+export interface OfflineReplayResult {
+  /** Number of writes the daemon accepted */
+  replayed: number
+  /** Writes the daemon rejected, which were dropped */
+  conflicts: OfflineConflict[]
+  /** Writes still queued because the daemon became unreachable again */
+  remaining: number
+  /** Real ID of each issue created offline, keyed by its local ID */
+  ids: Record<string, string>
+}
@@ -0,0 +1,205 @@
+import { appendFileSync, readFileSync } from "node:fs"
+import {
+  BeadsError,
+  ConnectionRefusedError,
+  ReplayMissError,
+  errorFromCode,
+  throwIfAborted,
+} from "../errors.js"
+import type { RequestOptions, Transport, OperationArgs, OperationResult } from "../types.js"
+
+/**
+ * Transport wrapper that records every request and its outcome to a JSONL
+ * cassette file, one entry per line, while passing results through unchanged.
+ * Pair with `ReplayTransport` to replay a captured session without a daemon.
+ */
+export class RecordingTransport implements Transport {
+  private transport: Transport
+  private cassettePath: string
+
+  constructor(
+    /** Transport to record */
+    transport: Transport,
+    /** Path of the cassette file to append to */
+    cassettePath: string,
+  ) {
+    this.transport = transport
+    this.cassettePath = cassettePath
+  }
+
+  /** Send through the wrapped transport and record the result or error. */
+  send<K extends string>(
+    /** Operation name */
+    operation: K,
+    /** Operation arguments */
+    args: OperationArgs<K>,
+    /** Per-request options */
+    options?: RequestOptions,
+  ): Promise<OperationResult<K>>
+  async send(
+    /** Operation name */
+    operation: string,
+    /** Operation arguments */
+    args: Record<string, unknown> = {},
+    /** Per-request options */
+    options?: RequestOptions,
+  ): Promise<unknown> {
+    try {
+      const result = await this.transport.send(operation, args, options)
+      this.append({ operation, args, result })
+      return result
+    } catch (err) {
+      this.append({ operation, args, error: serializeError(err) })
+      throw err
+    }
+  }
+
+  /** Close the wrapped transport. */
+  close(): void {
+    this.transport.close()
+  }
+
+  /** Append one entry to the cassette. */
+  private append(
+    /** Entry to write */
+    entry: CassetteEntry,
+  ): void {
+    appendFileSync(this.cassettePath, JSON.stringify(entry) + "\n")
+  }
+}
+
+/**
+ * Transport that serves responses from a cassette recorded by `RecordingTransport`.
+ * Requests are matched by operation and arguments (key order doesn't matter).
+ * Repeated identical requests get successive recorded responses; once those run out,
+ * the last one is repeated, so polling keeps working.
+ */
+export class ReplayTransport implements Transport {
+  private entries: Map<string, CassetteEntry[]> = new Map()
+  private cursors: Map<string, number> = new Map()
+
+  constructor(
+    /** Path of the cassette file to replay */
+    cassettePath: string,
+  ) {
+    const content = readFileSync(cassettePath, "utf-8")
+    for (const line of content.split("\n")) {
+      const trimmed = line.trim()
+      if (!trimmed) continue
+      const entry = JSON.parse(trimmed) as CassetteEntry
+      const key = requestKey(entry.operation, entry.args)
+      this.entries.set(key, [...(this.entries.get(key) ?? []), entry])
+    }
+  }
+
+  /** Return (or throw) the next recorded outcome for this request. */
+  send<K extends string>(
+    /** Operation name */
+    operation: K,
+    /** Operation arguments */
+    args: OperationArgs<K>,
+    /** Per-request options */
+    options?: RequestOptions,
+  ): Promise<OperationResult<K>>
+  async send(
+    /** Operation name */
+    operation: string,
+    /** Operation arguments */
+    args: Record<string, unknown> = {},
+    /** Per-request options */
+    options: RequestOptions = {},
+  ): Promise<unknown> {
+    throwIfAborted(options.signal, operation)
+
+    const key = requestKey(operation, args)
+    const entries = this.entries.get(key)
+    if (!entries) {
+      throw new ReplayMissError(`No recorded response for ${operation} ${JSON.stringify(args)}`, {
+        operation,
+      })
+    }
+
+    const cursor = this.cursors.get(key) ?? 0
+    this.cursors.set(key, cursor + 1)
+    const entry = entries[Math.min(cursor, entries.length - 1)]
+    if (entry.error) throw deserializeError(entry.error)
+    return structuredClone(entry.result)
+  }
+
+  /** No-op; there are no resources to release. */
+  close(): void {}
+}
+
+/** Build a lookup key from an operation and its arguments, ignoring key order. */
+function requestKey(
+  /** Operation name */
+  operation: string,
+  /** Operation arguments */
+  args: Record<string, unknown> = {},
+): string {
+  return `${operation} ${JSON.stringify(sortKeys(JSON.parse(JSON.stringify(args))))}`
+}
+
+/** Recursively sort object keys so equivalent arguments serialize identically. */
+function sortKeys(
+  /** Value to normalize */
+  value: unknown,
+): unknown {
+  if (Array.isArray(value)) return value.map(sortKeys)
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.keys(value)
+        .sort()
+        .map(k => [k, sortKeys((value as Record<string, unknown>)[k])]),
+    )
+  }
+  return value
+}
+
+/** Convert a thrown value into its cassette form. */
+function serializeError(
+  /** Thrown value */
+  err: unknown,
+): CassetteError {
+  if (err instanceof BeadsError) {
+    return {
+      code: err.code,
+      message: err.message,
+      operation: err.operation,
+      daemonError: err.daemonError,
+      sent: err instanceof ConnectionRefusedError ? err.sent : undefined,
+    }
+  }
+  return { message: err instanceof Error ? err.message : String(err) }
+}
+
+/** Rebuild a thrown error from its cassette form. */
+function deserializeError(
+  /** Recorded error */
+  error: CassetteError,
+): Error {
+  if (!error.code) return new Error(error.message)
+  return errorFromCode(error.code, error.message, {
+    operation: error.operation,
+    daemonError: error.daemonError,
+    sent: error.sent,
+  })
+}
+
+/** One recorded request and its outcome. */
+export interface CassetteEntry {
+  operation: string
+  args: Record<string, unknown>
+  result?: unknown
+  error?: CassetteError
+}
+
+/** A recorded error. */
+export interface CassetteError {
+  code?: BeadsError["code"]
+  message: string
+  operation?: string
+  daemonError?: string
+  /** Whether a refused request may have reached the daemon */
+  sent?: boolean
+}
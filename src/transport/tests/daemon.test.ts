@@ -5,6 +5,14 @@ import { join } from "node:path"
 import { mkdtempSync } from "node:fs"
 import { tmpdir } from "node:os"
 import { DaemonTransport } from "../daemon.js"
+import {
+  AbortedError,
+  ConnectionRefusedError,
+  DaemonTimeoutError,
+  DaemonValidationError,
+  FramingError,
+  NotFoundError,
+} from "../../errors.js"
 
 /**
  * Create a Unix socket server that responds according to the provided handler.
@@ -156,3 +164,463 @@ describe("DaemonTransport response framing", () => {
     expect(elapsed).toBeLessThan(400)
   })
 })
+
+/**
+ * Create a Unix socket server that keeps connections open and answers every
+ * newline-delimited request on it, echoing the request `id`.
+ */
+function createPersistentMockDaemon(
+  /** Path for the Unix socket */
+  socketPath: string,
+  /** Handler that returns the response for a parsed request, or null to stay silent */
+  handler: (request: Record<string, unknown>, socket: Socket) => Record<string, unknown> | null,
+  /** Invoked for each accepted connection */
+  onConnection: (socket: Socket) => void = () => {},
+): Server {
+  const server = createServer(socket => {
+    onConnection(socket)
+    let buffer = ""
+    socket.on("data", (chunk: Buffer) => {
+      buffer += chunk.toString()
+      let newline = buffer.indexOf("\n")
+      while (newline >= 0) {
+        const request = JSON.parse(buffer.slice(0, newline)) as Record<string, unknown>
+        buffer = buffer.slice(newline + 1)
+        const response = handler(request, socket)
+        if (response) socket.write(JSON.stringify({ ...response, id: request.id }) + "\n")
+        newline = buffer.indexOf("\n")
+      }
+    })
+  })
+  server.listen(socketPath)
+  return server
+}
+
+describe("DaemonTransport errors", () => {
+  let tempDir: string
+  let socketPath: string
+  let server: Server | null = null
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), "beads-daemon-test-"))
+    mkdirSync(join(tempDir, ".beads"))
+    socketPath = join(tempDir, ".beads", "bd.sock")
+  })
+
+  afterEach(async () => {
+    if (server) {
+      await new Promise<void>(resolve => server!.close(() => resolve()))
+      server = null
+    }
+    rmSync(tempDir, { recursive: true, force: true })
+  })
+
+  it("raises NotFoundError with the daemon payload for missing issues", async () => {
+    server = createMockDaemon(socketPath, socket => {
+      socket.end(JSON.stringify({ success: false, error: "Issue not found: bd-nope" }) + "\n")
+    })
+
+    const transport = new DaemonTransport(tempDir)
+    const error = await transport.send("show", { id: "bd-nope" }).catch(e => e)
+    expect(error).toBeInstanceOf(NotFoundError)
+    expect(error.code).toBe("NOT_FOUND")
+    expect(error.operation).toBe("show")
+    expect(error.daemonError).toBe("Issue not found: bd-nope")
+  })
+
+  it("raises DaemonValidationError for other daemon-reported errors", async () => {
+    server = createMockDaemon(socketPath, socket => {
+      socket.end(JSON.stringify({ success: false, error: "invalid priority: 9" }) + "\n")
+    })
+
+    const transport = new DaemonTransport(tempDir)
+    const error = await transport.send("update", { id: "bd-1", priority: 9 }).catch(e => e)
+    expect(error).toBeInstanceOf(DaemonValidationError)
+    expect(error.code).toBe("VALIDATION_ERROR")
+    expect(error.daemonError).toBe("invalid priority: 9")
+  })
+
+  it("raises FramingError for unparseable responses", async () => {
+    server = createMockDaemon(socketPath, socket => socket.end("garbage"))
+
+    const transport = new DaemonTransport(tempDir)
+    const error = await transport.send("list", {}).catch(e => e)
+    expect(error).toBeInstanceOf(FramingError)
+    expect(error.code).toBe("FRAMING_ERROR")
+  })
+
+  it("raises DaemonTimeoutError when the daemon does not answer", async () => {
+    server = createMockDaemon(socketPath, () => {})
+
+    const transport = new DaemonTransport(tempDir, { requestTimeout: 50 })
+    const error = await transport.send("stats", {}).catch(e => e)
+    expect(error).toBeInstanceOf(DaemonTimeoutError)
+    expect(error.code).toBe("TIMEOUT")
+    expect(error.operation).toBe("stats")
+  })
+
+  it("raises ConnectionRefusedError when nothing is listening on the socket", async () => {
+    writeFileSync(socketPath, "")
+
+    const transport = new DaemonTransport(tempDir)
+    const error = await transport.send("ping", {}).catch(e => e)
+    expect(error).toBeInstanceOf(ConnectionRefusedError)
+    expect(error.code).toBe("CONNECTION_REFUSED")
+    // The request never reached a daemon
+    expect(error.sent).toBe(false)
+  })
+})
+
+describe("DaemonTransport cancellation", () => {
+  let tempDir: string
+  let socketPath: string
+  let server: Server | null = null
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), "beads-daemon-test-"))
+    mkdirSync(join(tempDir, ".beads"))
+    socketPath = join(tempDir, ".beads", "bd.sock")
+  })
+
+  afterEach(async () => {
+    if (server) {
+      await new Promise<void>(resolve => server!.close(() => resolve()))
+      server = null
+    }
+    rmSync(tempDir, { recursive: true, force: true })
+  })
+
+  it("rejects immediately when the signal is already aborted", async () => {
+    server = createMockDaemon(socketPath, () => {})
+
+    const transport = new DaemonTransport(tempDir)
+    const controller = new AbortController()
+    controller.abort()
+
+    await expect(transport.send("list", {}, { signal: controller.signal })).rejects.toBeInstanceOf(
+      AbortedError,
+    )
+  })
+
+  it("destroys the socket when an in-flight request is aborted", async () => {
+    let serverSocketClosed = false
+    server = createMockDaemon(socketPath, socket => {
+      socket.on("close", () => (serverSocketClosed = true))
+    })
+
+    const transport = new DaemonTransport(tempDir, { requestTimeout: 2000 })
+    const controller = new AbortController()
+    const pending = transport.send("list", {}, { signal: controller.signal })
+    setTimeout(() => controller.abort(), 20)
+
+    const error = await pending.catch(e => e)
+    expect(error).toBeInstanceOf(AbortedError)
+    expect(error.code).toBe("ABORTED")
+    await new Promise(r => setTimeout(r, 20))
+    expect(serverSocketClosed).toBe(true)
+  })
+
+  it("honors a per-call timeout over the transport default", async () => {
+    server = createMockDaemon(socketPath, () => {})
+
+    const transport = new DaemonTransport(tempDir, { requestTimeout: 5000 })
+    const start = Date.now()
+    await expect(transport.send("list", {}, { timeout: 50 })).rejects.toBeInstanceOf(
+      DaemonTimeoutError,
+    )
+    expect(Date.now() - start).toBeLessThan(1000)
+  })
+
+  it("aborts a pooled request without affecting later requests", async () => {
+    let connections = 0
+    let received: () => void
+    const listReceived = new Promise<void>(resolve => (received = resolve))
+    server = createMockDaemon(socketPath, (socket, data) => {
+      const request = JSON.parse(data) as { id: number; operation: string }
+      if (request.operation === "ping") {
+        socket.write(JSON.stringify({ success: true, data: "pong", id: request.id }) + "\n")
+      } else {
+        received()
+      }
+    })
+    server.on("connection", () => connections++)
+
+    const transport = new DaemonTransport(tempDir, { persistent: true, poolSize: 1 })
+    const controller = new AbortController()
+    const pending = transport.send("list", {}, { signal: controller.signal })
+    await listReceived
+    controller.abort()
+
+    await expect(pending).rejects.toBeInstanceOf(AbortedError)
+    expect(await transport.send("ping", {})).toBe("pong")
+    // The aborted request's reply could still arrive, so its connection isn't reused
+    expect(connections).toBe(2)
+    transport.close()
+  })
+})
+
+describe("DaemonTransport retries", () => {
+  let tempDir: string
+  let socketPath: string
+  let server: Server | null = null
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), "beads-daemon-test-"))
+    mkdirSync(join(tempDir, ".beads"))
+    socketPath = join(tempDir, ".beads", "bd.sock")
+  })
+
+  afterEach(async () => {
+    if (server) {
+      await new Promise<void>(resolve => server!.close(() => resolve()))
+      server = null
+    }
+    rmSync(tempDir, { recursive: true, force: true })
+  })
+
+  /** A daemon that drops the first `failures` connections, then answers normally. */
+  function flakyDaemon(failures: number): { requests: () => number } {
+    let count = 0
+    server = createMockDaemon(socketPath, socket => {
+      count++
+      if (count <= failures) socket.end()
+      else socket.end(JSON.stringify({ success: true, data: "ok" }) + "\n")
+    })
+    return { requests: () => count }
+  }
+
+  const retry = { retries: 3, minDelay: 1, maxDelay: 5 }
+
+  it("retries read operations after a transient failure", async () => {
+    const daemon = flakyDaemon(2)
+    const transport = new DaemonTransport(tempDir, { retry })
+
+    expect(await transport.send("list", {})).toBe("ok")
+    expect(daemon.requests()).toBe(3)
+  })
+
+  it("does not retry mutating operations by default", async () => {
+    const daemon = flakyDaemon(1)
+    const transport = new DaemonTransport(tempDir, { retry })
+
+    await expect(transport.send("create", { title: "x" })).rejects.toBeInstanceOf(FramingError)
+    expect(daemon.requests()).toBe(1)
+  })
+
+  it("retries mutating operations marked idempotent", async () => {
+    const daemon = flakyDaemon(1)
+    const transport = new DaemonTransport(tempDir, { retry })
+
+    expect(await transport.send("update", { id: "bd-1" }, { idempotent: true })).toBe("ok")
+    expect(daemon.requests()).toBe(2)
+  })
+
+  it("does not retry without a retry policy", async () => {
+    const daemon = flakyDaemon(1)
+    const transport = new DaemonTransport(tempDir)
+
+    await expect(transport.send("list", {})).rejects.toBeInstanceOf(FramingError)
+    expect(daemon.requests()).toBe(1)
+  })
+})
+
+describe("DaemonTransport persistent mode", () => {
+  let tempDir: string
+  let socketPath: string
+  let server: Server | null = null
+  let transport: DaemonTransport | null = null
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), "beads-daemon-test-"))
+    mkdirSync(join(tempDir, ".beads"))
+    socketPath = join(tempDir, ".beads", "bd.sock")
+  })
+
+  afterEach(async () => {
+    transport?.close()
+    transport = null
+    if (server) {
+      await new Promise<void>(resolve => server!.close(() => resolve()))
+      server = null
+    }
+    rmSync(tempDir, { recursive: true, force: true })
+  })
+
+  it("multiplexes many requests over a bounded number of connections", async () => {
+    let connections = 0
+    server = createPersistentMockDaemon(
+      socketPath,
+      request => ({ success: true, data: (request.args as { id: string }).id }),
+      () => connections++,
+    )
+
+    transport = new DaemonTransport(tempDir, { persistent: true, poolSize: 2 })
+    const ids = Array.from({ length: 50 }, (_, i) => `bd-${i}`)
+    const results = await Promise.all(ids.map(id => transport!.send("show", { id })))
+
+    expect(results).toEqual(ids)
+    expect(connections).toBeLessThanOrEqual(2)
+  })
+
+  it("matches out-of-order responses to their callers", async () => {
+    const held: Array<() => void> = []
+    server = createPersistentMockDaemon(socketPath, (request, socket) => {
+      if (request.operation === "ping") return { success: true, data: "pong" }
+      // Hold every other response, then release them in reverse order
+      held.push(() =>
+        socket.write(
+          JSON.stringify({ success: true, data: request.operation, id: request.id }) + "\n",
+        ),
+      )
+      if (held.length === 3) held.reverse().forEach(release => release())
+      return null
+    })
+
+    transport = new DaemonTransport(tempDir, { persistent: true, poolSize: 1 })
+    // Requests are only pipelined once the daemon has echoed an ID
+    await transport.send("ping", {})
+    const results = await Promise.all([
+      transport.send("list", {}),
+      transport.send("ready", {}),
+      transport.send("stats", {}),
+    ])
+
+    expect(results).toEqual(["list", "ready", "stats"])
+  })
+
+  it("rejects a daemon error only for the failing request", async () => {
+    server = createPersistentMockDaemon(socketPath, request =>
+      request.operation === "show" ?
+        { success: false, error: "Issue not found" }
+      : { success: true, data: "ok" },
+    )
+
+    transport = new DaemonTransport(tempDir, { persistent: true })
+    const [show, ping] = await Promise.allSettled([
+      transport.send("show", { id: "bd-nope" }),
+      transport.send("ping", {}),
+    ])
+
+    expect(show.status).toBe("rejected")
+    expect((show as PromiseRejectedResult).reason.message).toBe("Issue not found")
+    expect(ping).toEqual({ status: "fulfilled", value: "ok" })
+  })
+
+  it("rejects in-flight requests when the daemon closes the connection", async () => {
+    server = createPersistentMockDaemon(
+      socketPath,
+      () => null,
+      socket => {
+        setTimeout(() => socket.end(), 20)
+      },
+    )
+
+    transport = new DaemonTransport(tempDir, { persistent: true, requestTimeout: 2000 })
+    await expect(transport.send("list", {})).rejects.toThrow(/EOF|closed/i)
+  })
+
+  it("flags requests cut off after they were written as possibly sent", async () => {
+    let received: () => void
+    const createReceived = new Promise<void>(resolve => (received = resolve))
+    server = createPersistentMockDaemon(socketPath, () => {
+      received()
+      return null
+    })
+
+    transport = new DaemonTransport(tempDir, { persistent: true, requestTimeout: 2000 })
+    const pending = transport.send("create", { title: "x" }).catch(e => e)
+    await createReceived
+    transport.close()
+
+    const error = await pending
+    expect(error).toBeInstanceOf(ConnectionRefusedError)
+    expect(error.sent).toBe(true)
+  })
+
+  it("retires a connection once a request on it times out", async () => {
+    let connections = 0
+    server = createPersistentMockDaemon(
+      socketPath,
+      request => (request.operation === "slow" ? null : { success: true, data: "ok" }),
+      () => connections++,
+    )
+
+    transport = new DaemonTransport(tempDir, { persistent: true, poolSize: 1, requestTimeout: 100 })
+    await expect(transport.send("slow", {})).rejects.toThrow(/timed out/)
+    expect(await transport.send("ping", {})).toBe("ok")
+    expect(connections).toBe(2)
+  })
+
+  describe("with a daemon that doesn't echo request IDs", () => {
+    /** A daemon that answers each request after `delay` ms (never, for `slow`), without its ID. */
+    function anonymousDaemon(delay: number): { maxOutstanding: () => number } {
+      let outstanding = 0
+      let maxOutstanding = 0
+      server = createPersistentMockDaemon(socketPath, (request, socket) => {
+        maxOutstanding = Math.max(maxOutstanding, ++outstanding)
+        const reply = () => {
+          outstanding--
+          socket.write(JSON.stringify({ success: true, data: request.operation }) + "\n")
+        }
+        if (request.operation === "late") setTimeout(reply, 150)
+        else if (request.operation !== "slow") setTimeout(reply, delay)
+        return null
+      })
+      return { maxOutstanding: () => maxOutstanding }
+    }
+
+    it("sends one request at a time and matches replies in order", async () => {
+      const daemon = anonymousDaemon(5)
+      transport = new DaemonTransport(tempDir, { persistent: true, poolSize: 1 })
+
+      const results = await Promise.all([
+        transport.send("list", {}),
+        transport.send("ready", {}),
+        transport.send("stats", {}),
+      ])
+      expect(results).toEqual(["list", "ready", "stats"])
+      expect(daemon.maxOutstanding()).toBe(1)
+    })
+
+    it("never hands a timed-out request's late reply to another request", async () => {
+      anonymousDaemon(0)
+      transport = new DaemonTransport(tempDir, { persistent: true, poolSize: 1 })
+
+      await expect(transport.send("late", {}, { timeout: 50 })).rejects.toThrow(/timed out/)
+      expect(await transport.send("list", {})).toBe("list")
+      // Give the late reply time to arrive
+      await new Promise(r => setTimeout(r, 150))
+      expect(await transport.send("ready", {})).toBe("ready")
+    })
+
+    it("moves requests queued behind a timed-out one to another connection", async () => {
+      anonymousDaemon(0)
+      transport = new DaemonTransport(tempDir, { persistent: true, poolSize: 1 })
+
+      const slow = transport.send("slow", {}, { timeout: 50 })
+      const list = transport.send("list", {}, { timeout: 2000 })
+      await expect(slow).rejects.toThrow(/timed out/)
+      expect(await list).toBe("list")
+    })
+
+    it("retries requests left on a connection the daemon closes after each reply", async () => {
+      let connections = 0
+      server = createPersistentMockDaemon(
+        socketPath,
+        (request, socket) => {
+          if (!socket.writableEnded) {
+            socket.end(JSON.stringify({ success: true, data: request.operation }) + "\n")
+          }
+          return null
+        },
+        () => connections++,
+      )
+      transport = new DaemonTransport(tempDir, { persistent: true, poolSize: 2 })
+
+      const operations = ["list", "ready", "blocked", "stats", "health"]
+      const results = await Promise.all(operations.map(op => transport!.send(op, {})))
+      expect(results).toEqual(operations)
+      expect(connections).toBeLessThanOrEqual(operations.length + 1)
+    })
+  })
+})
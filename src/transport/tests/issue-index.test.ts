@@ -0,0 +1,97 @@
+import { describe, it, expect } from "vitest"
+import { IssueIndex } from "../issue-index.js"
+import type { RawJsonlIssue } from "../../types.js"
+
+/** Create a minimal raw issue record. */
+function makeIssue(overrides: Partial<RawJsonlIssue> = {}): RawJsonlIssue {
+  return {
+    id: "bd-1",
+    title: "Test issue",
+    status: "open",
+    priority: 2,
+    issue_type: "task",
+    created_at: "2025-01-01T00:00:00Z",
+    updated_at: "2025-01-01T00:00:00Z",
+    ...overrides,
+  }
+}
+
+/** Convert an index to plain arrays for comparison. */
+function entries(index: Map<string, Set<string>>): Record<string, string[]> {
+  return Object.fromEntries(Array.from(index, ([key, ids]) => [key, Array.from(ids)]))
+}
+
+describe("IssueIndex", () => {
+  it("indexes records by status, assignee, label, type and parent", () => {
+    const index = new IssueIndex()
+    index.update(makeIssue({ id: "bd-1", assignee: "alice", labels: ["ui", "bug"] }))
+    index.update(
+      makeIssue({
+        id: "bd-2",
+        status: "closed",
+        issue_type: "bug",
+        labels: ["ui"],
+        dependencies: [{ issue_id: "bd-2", depends_on_id: "bd-1", type: "parent-child" }],
+      }),
+    )
+
+    expect(entries(index.byStatus)).toEqual({ open: ["bd-1"], closed: ["bd-2"] })
+    expect(entries(index.byAssignee)).toEqual({ alice: ["bd-1"] })
+    expect(entries(index.byLabel)).toEqual({ ui: ["bd-1", "bd-2"], bug: ["bd-1"] })
+    expect(entries(index.byType)).toEqual({ task: ["bd-1"], bug: ["bd-2"] })
+    expect(entries(index.byParent)).toEqual({ "bd-1": ["bd-2"] })
+    expect(entries(index.dependents)).toEqual({ "bd-1": ["bd-2"] })
+    expect(index.withBlockers.size).toBe(0)
+  })
+
+  it("re-indexes a record mutated in place", () => {
+    const index = new IssueIndex()
+    const raw = makeIssue({ labels: ["a"], assignee: "alice" })
+    index.update(raw)
+
+    raw.status = "in_progress"
+    raw.labels = ["b"]
+    raw.assignee = undefined
+    raw.dependencies = [{ issue_id: "bd-1", depends_on_id: "bd-9", type: "blocks" }]
+    index.update(raw)
+
+    expect(entries(index.byStatus)).toEqual({ in_progress: ["bd-1"] })
+    expect(entries(index.byLabel)).toEqual({ b: ["bd-1"] })
+    expect(entries(index.byAssignee)).toEqual({})
+    expect(entries(index.dependents)).toEqual({ "bd-9": ["bd-1"] })
+    expect(Array.from(index.withBlockers)).toEqual(["bd-1"])
+  })
+
+  it("removes a record from every index", () => {
+    const index = new IssueIndex()
+    index.update(
+      makeIssue({
+        labels: ["a"],
+        assignee: "alice",
+        dependencies: [{ issue_id: "bd-1", depends_on_id: "bd-2", type: "blocks" }],
+      }),
+    )
+    index.remove("bd-1")
+    index.remove("bd-unknown")
+
+    expect(index.byStatus.size).toBe(0)
+    expect(index.byAssignee.size).toBe(0)
+    expect(index.byLabel.size).toBe(0)
+    expect(index.byType.size).toBe(0)
+    expect(index.dependents.size).toBe(0)
+    expect(index.withBlockers.size).toBe(0)
+  })
+
+  it("counts an issue once per target even with several links to it", () => {
+    const index = new IssueIndex()
+    index.update(
+      makeIssue({
+        dependencies: [
+          { issue_id: "bd-1", depends_on_id: "bd-2", type: "blocks" },
+          { issue_id: "bd-1", depends_on_id: "bd-2", type: "related" },
+        ],
+      }),
+    )
+    expect(entries(index.dependents)).toEqual({ "bd-2": ["bd-1"] })
+  })
+})
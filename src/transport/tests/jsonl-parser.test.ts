@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest"
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs"
+import { join } from "node:path"
+import { tmpdir } from "node:os"
+import { JsonlParser, parseJsonl, parseJsonlFile } from "../jsonl-parser.js"
+import { JsonlParseError } from "../../errors.js"
+
+/** Serialize a minimal issue record. */
+function line(overrides: Record<string, unknown> = {}): string {
+  return JSON.stringify({
+    id: "bd-1",
+    title: "Test issue",
+    status: "open",
+    priority: 2,
+    issue_type: "task",
+    created_at: "2025-01-01T00:00:00Z",
+    updated_at: "2025-01-01T00:00:00Z",
+    ...overrides,
+  })
+}
+
+const CORRUPT = [
+  line({ id: "bd-1" }),
+  "",
+  "<<<<<<< HEAD",
+  line({ id: "bd-2", title: undefined }),
+  line({ id: "bd-1", title: "Second copy" }),
+  "[1, 2]",
+].join("\n")
+
+describe("parseJsonl", () => {
+  it("loads valid records", () => {
+    const result = parseJsonl([line({ id: "bd-1" }), line({ id: "bd-2" })].join("\n") + "\n")
+    expect(result.issues.map(i => i.id)).toEqual(["bd-1", "bd-2"])
+    expect(result.diagnostics).toEqual([])
+  })
+
+  it("reports each problem with its line number", () => {
+    const result = parseJsonl(CORRUPT)
+
+    expect(result.diagnostics.map(d => [d.line, d.kind])).toEqual([
+      [3, "invalid_json"],
+      [4, "missing_field"],
+      [5, "duplicate_id"],
+      [6, "invalid_json"],
+    ])
+    expect(result.diagnostics[1]).toMatchObject({ id: "bd-2", field: "title" })
+    expect(result.diagnostics[2].message).toContain("first seen on line 1")
+  })
+
+  it("skips unusable records and lets the last duplicate win", () => {
+    const result = parseJsonl(CORRUPT)
+    expect(result.issues.map(i => [i.id, i.title])).toEqual([["bd-1", "Second copy"]])
+  })
+
+  it("reports every missing required field", () => {
+    const result = parseJsonl(JSON.stringify({ priority: 1 }))
+    expect(result.diagnostics.map(d => d.field)).toEqual(["id", "title", "status"])
+    expect(result.issues).toEqual([])
+  })
+
+  it("throws a JsonlParseError with all diagnostics in strict mode", () => {
+    const error = (() => {
+      try {
+        parseJsonl(CORRUPT, { strict: true, path: "issues.jsonl" })
+      } catch (err) {
+        return err
+      }
+    })() as JsonlParseError
+
+    expect(error).toBeInstanceOf(JsonlParseError)
+    expect(error.code).toBe("PARSE_ERROR")
+    expect(error.message).toMatch(/^issues\.jsonl:3: Invalid JSON/)
+    expect(error.diagnostics).toHaveLength(4)
+  })
+})
+
+describe("parseJsonlFile", () => {
+  let tempDir: string
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), "beads-parser-test-"))
+  })
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true })
+  })
+
+  it("streams the file and matches the in-memory parser", async () => {
+    const path = join(tempDir, "issues.jsonl")
+    writeFileSync(path, CORRUPT.replace(/\n/g, "\r\n"))
+
+    const result = await parseJsonlFile(path)
+    expect(result).toEqual(parseJsonl(CORRUPT))
+  })
+
+  it("rejects in strict mode", async () => {
+    const path = join(tempDir, "issues.jsonl")
+    writeFileSync(path, CORRUPT)
+    await expect(parseJsonlFile(path, { strict: true })).rejects.toBeInstanceOf(JsonlParseError)
+  })
+})
+
+describe("JsonlParser", () => {
+  it("reuses a known record without re-parsing but still tracks duplicates", () => {
+    const parser = new JsonlParser()
+    const known = JSON.parse(line({ id: "bd-1" }))
+
+    expect(parser.push("not json", known)).toBe(known)
+    expect(parser.push(line({ id: "bd-1" }))?.id).toBe("bd-1")
+    expect(parser.diagnostics.map(d => d.kind)).toEqual(["duplicate_id"])
+  })
+})
@@ -1,9 +1,10 @@
-import { describe, it, expect, beforeEach, afterEach } from "vitest"
-import { mkdirSync, rmSync, writeFileSync } from "node:fs"
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest"
+import { mkdirSync, readdirSync, readFileSync, renameSync, rmSync, writeFileSync } from "node:fs"
 import { join } from "node:path"
 import { mkdtempSync } from "node:fs"
 import { tmpdir } from "node:os"
 import { JsonlTransport } from "../jsonl.js"
+import { JsonlParseError, NotFoundError, ReadOnlyError } from "../../errors.js"
 import type { Issue, BlockedIssue, Stats } from "../../types.js"
 
 /** Create a minimal JSONL issue record. */
@@ -41,24 +42,216 @@ describe("JsonlTransport", () => {
   })
 
   describe("load", () => {
-    it("loads issues from a JSONL file", () => {
+    it("loads issues from a JSONL file", async () => {
       const issues = [makeIssue({ id: "bd-1" }), makeIssue({ id: "bd-2", title: "Second" })]
       writeFileSync(jsonlPath, issues.map(i => JSON.stringify(i)).join("\n"))
 
       const transport = new JsonlTransport(tempDir)
-      expect(transport.load()).toBe(true)
+      expect(await transport.load()).toBe(true)
     })
 
-    it("returns false when no JSONL file exists", () => {
+    it("returns false when no JSONL file exists", async () => {
       rmSync(jsonlPath, { force: true })
       const transport = new JsonlTransport(tempDir)
-      expect(transport.load()).toBe(false)
+      expect(await transport.load()).toBe(false)
     })
 
-    it("skips malformed lines", () => {
+    it("skips malformed lines", async () => {
       writeFileSync(jsonlPath, `${JSON.stringify(makeIssue())}\nnot json\n`)
       const transport = new JsonlTransport(tempDir)
-      expect(transport.load()).toBe(true)
+      expect(await transport.load()).toBe(true)
+    })
+
+    it("streams the file into memory", async () => {
+      const issues = [makeIssue({ id: "bd-1" }), makeIssue({ id: "bd-2" })]
+      writeFileSync(jsonlPath, issues.map(i => JSON.stringify(i)).join("\n") + "\nbad\n")
+      const transport = new JsonlTransport(tempDir)
+
+      expect(await transport.load()).toBe(true)
+      const listed = (await transport.send("list", {})) as Issue[]
+      expect(listed.map(i => i.id)).toEqual(["bd-1", "bd-2"])
+      expect(transport.diagnostics.map(d => d.line)).toEqual([3])
+    })
+
+    it("reads the file again if a write lands while it streams", async () => {
+      writeFileSync(jsonlPath, JSON.stringify(makeIssue({ id: "bd-1" })))
+      const transport = new JsonlTransport(tempDir, { writable: true })
+      await transport.load()
+
+      const reloading = transport.reload()
+      await transport.send("update", { id: "bd-1", title: "Written meanwhile" })
+      await reloading
+      const issue = (await transport.send("show", { id: "bd-1" })) as Issue
+      expect(issue.title).toBe("Written meanwhile")
+    })
+  })
+
+  describe("diagnostics", () => {
+    const corrupt = () =>
+      [
+        JSON.stringify(makeIssue({ id: "bd-1" })),
+        "=======",
+        JSON.stringify(makeIssue({ id: "bd-2", status: undefined })),
+      ].join("\n")
+
+    it("reports malformed lines from the last load", async () => {
+      writeFileSync(jsonlPath, corrupt())
+      const transport = new JsonlTransport(tempDir)
+      expect(await transport.load()).toBe(true)
+
+      expect(transport.diagnostics.map(d => [d.line, d.kind])).toEqual([
+        [2, "invalid_json"],
+        [3, "missing_field"],
+      ])
+
+      writeFileSync(jsonlPath, JSON.stringify(makeIssue({ id: "bd-1" })))
+      await transport.reload()
+      expect(transport.diagnostics).toEqual([])
+    })
+
+    it("throws on malformed lines in strict mode", async () => {
+      writeFileSync(jsonlPath, corrupt())
+      const transport = new JsonlTransport(tempDir, { strict: true })
+      await expect(transport.load()).rejects.toThrow(JsonlParseError)
+    })
+
+    it("keeps the last good load when a strict reload fails", async () => {
+      writeFileSync(jsonlPath, JSON.stringify(makeIssue({ id: "bd-1" })))
+      const transport = new JsonlTransport(tempDir, { strict: true })
+      await transport.load()
+
+      writeFileSync(jsonlPath, corrupt())
+      await expect(transport.reload()).rejects.toThrow(JsonlParseError)
+      const issues = (await transport.send("list", {})) as Issue[]
+      expect(issues.map(i => i.id)).toEqual(["bd-1"])
+    })
+
+    it("refuses to rewrite a file with lines it couldn't load", async () => {
+      const content = corrupt()
+      writeFileSync(jsonlPath, content)
+      const transport = new JsonlTransport(tempDir, { writable: true })
+      await transport.load()
+
+      await expect(transport.send("label_add", { id: "bd-1", label: "x" })).rejects.toBeInstanceOf(
+        JsonlParseError,
+      )
+      expect(readFileSync(jsonlPath, "utf-8")).toBe(content)
+    })
+  })
+
+  describe("reload", () => {
+    it("reports added, updated and removed IDs", async () => {
+      const initial = [makeIssue({ id: "bd-1" }), makeIssue({ id: "bd-2" })]
+      writeFileSync(jsonlPath, initial.map(i => JSON.stringify(i)).join("\n"))
+      const transport = new JsonlTransport(tempDir)
+      await transport.load()
+
+      const next = [
+        makeIssue({ id: "bd-1", title: "Edited", updated_at: "2025-01-02T00:00:00Z" }),
+        makeIssue({ id: "bd-3" }),
+      ]
+      writeFileSync(jsonlPath, next.map(i => JSON.stringify(i)).join("\n"))
+
+      expect(await transport.reload()).toEqual({
+        added: ["bd-3"],
+        updated: ["bd-1"],
+        removed: ["bd-2"],
+      })
+    })
+
+    it("reports nothing when records are unchanged", async () => {
+      const issues = [makeIssue({ id: "bd-1" }), makeIssue({ id: "bd-2" })]
+      writeFileSync(jsonlPath, issues.map(i => JSON.stringify(i)).join("\n"))
+      const transport = new JsonlTransport(tempDir)
+      await transport.load()
+
+      // Reformatted but identical records
+      writeFileSync(jsonlPath, issues.map(i => JSON.stringify(i, null, 0) + "  ").join("\n\n"))
+      expect(await transport.reload()).toEqual({ added: [], updated: [], removed: [] })
+    })
+
+    it("returns null when the file can't be read", async () => {
+      writeFileSync(jsonlPath, JSON.stringify(makeIssue()))
+      const transport = new JsonlTransport(tempDir)
+      await transport.load()
+      rmSync(jsonlPath)
+
+      expect(await transport.reload()).toBeNull()
+    })
+
+    it("serves the new content after a reload", async () => {
+      writeFileSync(jsonlPath, JSON.stringify(makeIssue({ id: "bd-1" })))
+      const transport = new JsonlTransport(tempDir)
+      await transport.load()
+
+      const edited = makeIssue({ id: "bd-1", title: "Edited", updated_at: "2025-01-02T00:00:00Z" })
+      writeFileSync(jsonlPath, JSON.stringify(edited))
+      await transport.reload()
+
+      const issue = (await transport.send("show", { id: "bd-1" })) as Issue
+      expect(issue.title).toBe("Edited")
+    })
+  })
+
+  describe("watching", () => {
+    it("debounces bursts of writes into one change event", async () => {
+      writeFileSync(jsonlPath, JSON.stringify(makeIssue({ id: "bd-1" })))
+      const transport = new JsonlTransport(tempDir, { debounce: 50 })
+      await transport.load()
+      transport.startWatching()
+      const events: unknown[] = []
+      transport.onChange(event => events.push(event))
+
+      const issues = [makeIssue({ id: "bd-1" })]
+      for (let i = 2; i <= 4; i++) {
+        issues.push(makeIssue({ id: `bd-${i}` }))
+        writeFileSync(jsonlPath, issues.map(issue => JSON.stringify(issue)).join("\n"))
+      }
+      await new Promise(r => setTimeout(r, 300))
+
+      expect(events).toEqual([{ added: ["bd-2", "bd-3", "bd-4"], updated: [], removed: [] }])
+      transport.close()
+    })
+
+    it("sees atomic rewrites (temp file + rename)", async () => {
+      writeFileSync(jsonlPath, JSON.stringify(makeIssue({ id: "bd-1" })))
+      const transport = new JsonlTransport(tempDir, { debounce: 20 })
+      await transport.load()
+      transport.startWatching()
+      const events: unknown[] = []
+      transport.onChange(event => events.push(event))
+
+      for (const id of ["bd-2", "bd-3"]) {
+        const tempPath = join(beadsDir, "issues.jsonl.tmp")
+        writeFileSync(
+          tempPath,
+          readFileSync(jsonlPath, "utf-8") + "\n" + JSON.stringify(makeIssue({ id })),
+        )
+        renameSync(tempPath, jsonlPath)
+        await new Promise(r => setTimeout(r, 200))
+      }
+
+      expect(events).toEqual([
+        { added: ["bd-2"], updated: [], removed: [] },
+        { added: ["bd-3"], updated: [], removed: [] },
+      ])
+      transport.close()
+    })
+
+    it("does not fire when the file is rewritten without changes", async () => {
+      const content = JSON.stringify(makeIssue({ id: "bd-1" }))
+      writeFileSync(jsonlPath, content)
+      const transport = new JsonlTransport(tempDir, { debounce: 20 })
+      await transport.load()
+      transport.startWatching()
+      const callback = vi.fn()
+      transport.onChange(callback)
+
+      writeFileSync(jsonlPath, content + "\n")
+      await new Promise(r => setTimeout(r, 200))
+
+      expect(callback).not.toHaveBeenCalled()
+      transport.close()
     })
   })
 
@@ -71,7 +264,7 @@ describe("JsonlTransport", () => {
           .join("\n"),
       )
       const transport = new JsonlTransport(tempDir)
-      transport.load()
+      await transport.load()
 
       const result = (await transport.send("list", {})) as Issue[]
       expect(result).toHaveLength(2)
@@ -85,7 +278,7 @@ describe("JsonlTransport", () => {
           .join("\n"),
       )
       const transport = new JsonlTransport(tempDir)
-      transport.load()
+      await transport.load()
 
       const result = (await transport.send("list", { status: "open" })) as Issue[]
       expect(result).toHaveLength(1)
@@ -100,7 +293,7 @@ describe("JsonlTransport", () => {
           .join("\n"),
       )
       const transport = new JsonlTransport(tempDir)
-      transport.load()
+      await transport.load()
 
       const result = (await transport.send("list", { priority: 1 })) as Issue[]
       expect(result).toHaveLength(1)
@@ -115,7 +308,7 @@ describe("JsonlTransport", () => {
           .join("\n"),
       )
       const transport = new JsonlTransport(tempDir)
-      transport.load()
+      await transport.load()
 
       const result = (await transport.send("list", { assignee: "alice" })) as Issue[]
       expect(result).toHaveLength(1)
@@ -134,7 +327,7 @@ describe("JsonlTransport", () => {
           .join("\n"),
       )
       const transport = new JsonlTransport(tempDir)
-      transport.load()
+      await transport.load()
 
       const result = (await transport.send("list", { labels: ["bug", "urgent"] })) as Issue[]
       expect(result).toHaveLength(1)
@@ -153,7 +346,7 @@ describe("JsonlTransport", () => {
           .join("\n"),
       )
       const transport = new JsonlTransport(tempDir)
-      transport.load()
+      await transport.load()
 
       const result = (await transport.send("list", { labels_any: ["bug", "feature"] })) as Issue[]
       expect(result).toHaveLength(2)
@@ -170,7 +363,7 @@ describe("JsonlTransport", () => {
           .join("\n"),
       )
       const transport = new JsonlTransport(tempDir)
-      transport.load()
+      await transport.load()
 
       const result = (await transport.send("list", { query: "login" })) as Issue[]
       expect(result).toHaveLength(1)
@@ -181,7 +374,7 @@ describe("JsonlTransport", () => {
       const issues = Array.from({ length: 10 }, (_, i) => makeIssue({ id: `bd-${i}` }))
       writeFileSync(jsonlPath, issues.map(i => JSON.stringify(i)).join("\n"))
       const transport = new JsonlTransport(tempDir)
-      transport.load()
+      await transport.load()
 
       const result = (await transport.send("list", { limit: 3 })) as Issue[]
       expect(result).toHaveLength(3)
@@ -192,7 +385,7 @@ describe("JsonlTransport", () => {
     it("returns a single issue by ID", async () => {
       writeFileSync(jsonlPath, JSON.stringify(makeIssue({ id: "bd-42", title: "My issue" })))
       const transport = new JsonlTransport(tempDir)
-      transport.load()
+      await transport.load()
 
       const result = (await transport.send("show", { id: "bd-42" })) as Issue
       expect(result.id).toBe("bd-42")
@@ -202,9 +395,10 @@ describe("JsonlTransport", () => {
     it("throws for unknown ID", async () => {
       writeFileSync(jsonlPath, JSON.stringify(makeIssue()))
       const transport = new JsonlTransport(tempDir)
-      transport.load()
+      await transport.load()
 
       await expect(transport.send("show", { id: "bd-nope" })).rejects.toThrow("Issue not found")
+      await expect(transport.send("show", { id: "bd-nope" })).rejects.toBeInstanceOf(NotFoundError)
     })
   })
 
@@ -221,7 +415,7 @@ describe("JsonlTransport", () => {
           .join("\n"),
       )
       const transport = new JsonlTransport(tempDir)
-      transport.load()
+      await transport.load()
 
       const result = (await transport.send("ready", {})) as Issue[]
       expect(result).toHaveLength(1)
@@ -251,7 +445,7 @@ describe("JsonlTransport", () => {
           .join("\n"),
       )
       const transport = new JsonlTransport(tempDir)
-      transport.load()
+      await transport.load()
 
       const result = (await transport.send("ready", {})) as Issue[]
       const ids = result.map(i => i.id)
@@ -285,7 +479,7 @@ describe("JsonlTransport", () => {
           .join("\n"),
       )
       const transport = new JsonlTransport(tempDir)
-      transport.load()
+      await transport.load()
 
       const result = (await transport.send("blocked", {})) as BlockedIssue[]
       expect(result).toHaveLength(1)
@@ -302,7 +496,7 @@ describe("JsonlTransport", () => {
           .join("\n"),
       )
       const transport = new JsonlTransport(tempDir)
-      transport.load()
+      await transport.load()
 
       const result = (await transport.send("blocked", {})) as BlockedIssue[]
       expect(result).toHaveLength(1)
@@ -330,7 +524,7 @@ describe("JsonlTransport", () => {
           .join("\n"),
       )
       const transport = new JsonlTransport(tempDir)
-      transport.load()
+      await transport.load()
 
       const result = (await transport.send("stats", {})) as Stats
       expect(result.summary.total_issues).toBe(5)
@@ -346,11 +540,157 @@ describe("JsonlTransport", () => {
     it("throws for write operations", async () => {
       writeFileSync(jsonlPath, JSON.stringify(makeIssue()))
       const transport = new JsonlTransport(tempDir)
-      transport.load()
+      await transport.load()
 
       await expect(transport.send("create", { title: "x" })).rejects.toThrow("read-only")
       await expect(transport.send("update", { id: "x" })).rejects.toThrow("read-only")
       await expect(transport.send("close", { id: "x" })).rejects.toThrow("read-only")
+      await expect(transport.send("delete", { id: "x" })).rejects.toBeInstanceOf(ReadOnlyError)
+    })
+  })
+
+  describe("writes", () => {
+    /** Read back the raw records currently on disk. */
+    function readRecords(): Array<Record<string, unknown>> {
+      return readFileSync(jsonlPath, "utf-8")
+        .split("\n")
+        .filter(Boolean)
+        .map(line => JSON.parse(line))
+    }
+
+    it("is read-only unless enabled", () => {
+      writeFileSync(jsonlPath, JSON.stringify(makeIssue()))
+      expect(new JsonlTransport(tempDir).writable).toBe(false)
+      expect(new JsonlTransport(tempDir, { writable: true }).writable).toBe(true)
+    })
+
+    it("is writable when config.yaml enables no-db mode", () => {
+      writeFileSync(jsonlPath, JSON.stringify(makeIssue()))
+      writeFileSync(join(beadsDir, "config.yaml"), "# beads config\nno-db: true # jsonl only\n")
+      expect(new JsonlTransport(tempDir).writable).toBe(true)
+    })
+
+    it("creates issues with generated IDs and persists them", async () => {
+      writeFileSync(jsonlPath, JSON.stringify(makeIssue({ id: "proj-1" })))
+      const transport = new JsonlTransport(tempDir, { writable: true })
+      await transport.load()
+
+      const created = (await transport.send("create", { title: "New", priority: 1 })) as Issue
+      expect(created.id).toMatch(/^proj-[a-z0-9]+$/)
+      expect(created.status).toBe("open")
+
+      const records = readRecords()
+      expect(records.map(r => r.id)).toEqual(["proj-1", created.id])
+      expect(records[1]).toMatchObject({ title: "New", priority: 1 })
+      expect(readdirSync(beadsDir).filter(f => f.endsWith(".tmp"))).toEqual([])
+    })
+
+    it("uses the issue-prefix from config.yaml", async () => {
+      writeFileSync(jsonlPath, "")
+      writeFileSync(join(beadsDir, "config.yaml"), 'no-db: true\nissue-prefix: "acme"\n')
+      const transport = new JsonlTransport(tempDir)
+      await transport.load()
+
+      const created = (await transport.send("create", { title: "First" })) as Issue
+      expect(created.id).toMatch(/^acme-/)
+    })
+
+    it("maintains updated_at and closed_at", async () => {
+      writeFileSync(jsonlPath, JSON.stringify(makeIssue({ id: "bd-1" })))
+      const transport = new JsonlTransport(tempDir, { writable: true })
+      await transport.load()
+
+      await transport.send("update", { id: "bd-1", title: "Renamed" })
+      let [record] = readRecords()
+      expect(record.title).toBe("Renamed")
+      expect(record.updated_at).not.toBe("2025-01-01T00:00:00Z")
+
+      await transport.send("close", { id: "bd-1", reason: "done" })
+      ;[record] = readRecords()
+      expect(record.status).toBe("closed")
+      expect(record.closed_at).toBeDefined()
+      expect(record.close_reason).toBe("done")
+
+      await transport.send("update", { id: "bd-1", status: "open" })
+      ;[record] = readRecords()
+      expect(record.closed_at).toBeUndefined()
+      expect(record.close_reason).toBeUndefined()
+    })
+
+    it("updates labels and dependencies", async () => {
+      const issues = [makeIssue({ id: "bd-1" }), makeIssue({ id: "bd-2" })]
+      writeFileSync(jsonlPath, issues.map(i => JSON.stringify(i)).join("\n"))
+      const transport = new JsonlTransport(tempDir, { writable: true })
+      await transport.load()
+
+      await transport.send("label_add", { id: "bd-1", label: "urgent" })
+      await transport.send("dep_add", { from_id: "bd-1", to_id: "bd-2" })
+
+      const shown = (await transport.send("show", { id: "bd-1" })) as Issue
+      expect(shown.labels).toEqual(["urgent"])
+      expect(shown.dependency_count).toBe(1)
+      expect(shown.dependencies?.map(d => d.id)).toEqual(["bd-2"])
+      const ready = (await transport.send("ready", {})) as Issue[]
+      expect(ready.map(i => i.id)).toEqual(["bd-2"])
+
+      await transport.send("label_remove", { id: "bd-1", label: "urgent" })
+      await transport.send("dep_remove", { from_id: "bd-1", to_id: "bd-2" })
+      const [record] = readRecords()
+      expect(record.labels).toEqual([])
+      expect(record.dependencies).toEqual([])
+    })
+
+    it("deletes issues and links pointing at them", async () => {
+      const dep = { issue_id: "bd-2", depends_on_id: "bd-1", type: "blocks" }
+      const issues = [makeIssue({ id: "bd-1" }), makeIssue({ id: "bd-2", dependencies: [dep] })]
+      writeFileSync(jsonlPath, issues.map(i => JSON.stringify(i)).join("\n"))
+      const transport = new JsonlTransport(tempDir, { writable: true })
+      await transport.load()
+
+      await transport.send("delete", { id: "bd-1" })
+      const records = readRecords()
+      expect(records.map(r => r.id)).toEqual(["bd-2"])
+      expect(records[0].dependencies).toEqual([])
+    })
+
+    it("picks up external edits before writing", async () => {
+      writeFileSync(jsonlPath, JSON.stringify(makeIssue({ id: "bd-1" })))
+      const transport = new JsonlTransport(tempDir, { writable: true })
+      await transport.load()
+
+      const external = [makeIssue({ id: "bd-1" }), makeIssue({ id: "bd-2" })]
+      writeFileSync(jsonlPath, external.map(i => JSON.stringify(i)).join("\n"))
+      await transport.send("update", { id: "bd-1", notes: "n" })
+
+      expect(readRecords().map(r => r.id)).toEqual(["bd-1", "bd-2"])
+    })
+
+    it("leaves the file untouched when a write fails", async () => {
+      const content = JSON.stringify(makeIssue({ id: "bd-1" }))
+      writeFileSync(jsonlPath, content)
+      const transport = new JsonlTransport(tempDir, { writable: true })
+      await transport.load()
+
+      await expect(transport.send("update", { id: "missing" })).rejects.toBeInstanceOf(
+        NotFoundError,
+      )
+      await expect(transport.send("update", { id: "bd-1", priority: 9 })).rejects.toThrow(
+        "invalid priority",
+      )
+      expect(readFileSync(jsonlPath, "utf-8")).toBe(content)
+    })
+
+    it("notifies change subscribers after its own writes", async () => {
+      writeFileSync(jsonlPath, JSON.stringify(makeIssue({ id: "bd-1" })))
+      const transport = new JsonlTransport(tempDir, { writable: true })
+      await transport.load()
+      const callback = vi.fn()
+      transport.onChange(callback)
+
+      await transport.send("label_add", { id: "bd-1", label: "x" })
+      expect(callback).toHaveBeenCalledTimes(1)
+      expect(callback).toHaveBeenCalledWith({ added: [], updated: ["bd-1"], removed: [] })
+      transport.close()
     })
   })
 
@@ -378,7 +718,7 @@ describe("JsonlTransport", () => {
           .join("\n"),
       )
       const transport = new JsonlTransport(tempDir)
-      transport.load()
+      await transport.load()
 
       const child = (await transport.send("show", { id: "bd-child" })) as Issue
       expect(child.dependencies).toHaveLength(1)
@@ -445,7 +785,7 @@ describe("JsonlTransport", () => {
       )
 
       const transport = new JsonlTransport(tempDir)
-      transport.load()
+      await transport.load()
 
       // Top-level issue bd-b should compute fallback counts
       const topB = (await transport.send("show", { id: "bd-b" })) as Issue
@@ -505,7 +845,7 @@ describe("JsonlTransport", () => {
       )
 
       const transport = new JsonlTransport(tempDir)
-      transport.load()
+      await transport.load()
 
       // Top-level bd-child should have dependency_count=2, dependent_count=0
       const topChild = (await transport.send("show", { id: "bd-child" })) as Issue
@@ -566,7 +906,7 @@ describe("JsonlTransport", () => {
       )
 
       const transport = new JsonlTransport(tempDir)
-      transport.load()
+      await transport.load()
 
       // Get top-level views of all three
       const top1 = (await transport.send("show", { id: "bd-1" })) as Issue
@@ -591,10 +931,10 @@ describe("JsonlTransport", () => {
   })
 
   describe("close", () => {
-    it("releases resources", () => {
+    it("releases resources", async () => {
       writeFileSync(jsonlPath, JSON.stringify(makeIssue()))
       const transport = new JsonlTransport(tempDir)
-      transport.load()
+      await transport.load()
       transport.close()
       // Should not throw
     })
@@ -0,0 +1,403 @@
+import { describe, it, expect } from "vitest"
+import { MemoryTransport } from "../memory.js"
+import { BeadsClient } from "../../client.js"
+import { DaemonValidationError, NotFoundError } from "../../errors.js"
+import type {
+  BlockedIssue,
+  Comment,
+  DepResult,
+  Issue,
+  LabelResult,
+  MutationEvent,
+  RawJsonlIssue,
+  Stats,
+} from "../../types.js"
+
+/** Create a minimal raw issue record. */
+function makeIssue(overrides: Partial<RawJsonlIssue> = {}): RawJsonlIssue {
+  return {
+    id: "bd-1",
+    title: "Test issue",
+    status: "open",
+    priority: 2,
+    issue_type: "task",
+    created_at: "2025-01-01T00:00:00Z",
+    updated_at: "2025-01-01T00:00:00Z",
+    ...overrides,
+  }
+}
+
+/** A clock that advances one second per call. */
+function tickingClock(start = Date.parse("2025-06-01T00:00:00Z")) {
+  let t = start
+  return () => new Date((t += 1000))
+}
+
+describe("MemoryTransport", () => {
+  describe("create", () => {
+    it("creates an issue with defaults and a generated ID", async () => {
+      const transport = new MemoryTransport({ prefix: "app" })
+      const issue = (await transport.send("create", { title: "New thing" })) as Issue
+
+      expect(issue.id).toMatch(/^app-[0-9a-f]{4}$/)
+      expect(issue).toMatchObject({
+        title: "New thing",
+        status: "open",
+        priority: 2,
+        issue_type: "task",
+        labels: [],
+      })
+      expect(((await transport.send("list", {})) as Issue[]).map(i => i.id)).toEqual([issue.id])
+    })
+
+    it("uses the prefix of seeded issues", async () => {
+      const transport = new MemoryTransport({ issues: [makeIssue({ id: "proj-1" })] })
+      const issue = (await transport.send("create", { title: "x" })) as Issue
+      expect(issue.id).toMatch(/^proj-/)
+    })
+
+    it("accepts an explicit ID and dependencies", async () => {
+      const transport = new MemoryTransport({ issues: [makeIssue({ id: "bd-1" })] })
+      const issue = (await transport.send("create", {
+        id: "bd-2",
+        title: "Child",
+        dependencies: ["bd-1"],
+      })) as Issue
+
+      expect(issue.id).toBe("bd-2")
+      expect(issue.dependencies.map(d => [d.id, d.dependency_type])).toEqual([["bd-1", "blocks"]])
+    })
+
+    it("rejects invalid input", async () => {
+      const transport = new MemoryTransport()
+      await expect(transport.send("create", { title: "" })).rejects.toBeInstanceOf(
+        DaemonValidationError,
+      )
+      await expect(transport.send("create", { title: "x", priority: 9 })).rejects.toThrow(
+        /priority/,
+      )
+    })
+  })
+
+  describe("update and close", () => {
+    it("updates fields, labels and parent", async () => {
+      const transport = new MemoryTransport({
+        issues: [makeIssue({ id: "bd-1", labels: ["old"] }), makeIssue({ id: "bd-epic" })],
+        now: tickingClock(),
+      })
+      const issue = (await transport.send("update", {
+        id: "bd-1",
+        title: "Renamed",
+        priority: 0,
+        add_labels: ["new"],
+        remove_labels: ["old"],
+        parent: "bd-epic",
+      })) as Issue
+
+      expect(issue).toMatchObject({ title: "Renamed", priority: 0, labels: ["new"] })
+      expect(issue.dependencies).toEqual([
+        expect.objectContaining({ id: "bd-epic", dependency_type: "parent-child" }),
+      ])
+      expect(issue.updated_at).not.toBe("2025-01-01T00:00:00Z")
+    })
+
+    it("sets and clears closed_at as status changes", async () => {
+      const transport = new MemoryTransport({ issues: [makeIssue()] })
+
+      const closed = (await transport.send("close", { id: "bd-1", reason: "done" })) as Issue
+      expect(closed.status).toBe("closed")
+      expect(closed.closed_at).toBeDefined()
+
+      const reopened = (await transport.send("update", { id: "bd-1", status: "open" })) as Issue
+      expect(reopened.closed_at).toBeUndefined()
+    })
+
+    it("throws NotFoundError for unknown issues", async () => {
+      const transport = new MemoryTransport()
+      await expect(transport.send("update", { id: "bd-nope" })).rejects.toBeInstanceOf(
+        NotFoundError,
+      )
+    })
+
+    it("leaves an issue unchanged when an update is rejected", async () => {
+      const transport = new MemoryTransport({ issues: [makeIssue({ labels: ["old"] })] })
+      const rejected = [
+        { id: "bd-1", title: "Renamed", status: "closed", priority: 7 },
+        { id: "bd-1", title: "Renamed", add_labels: ["new"], parent: "bd-nope" },
+      ]
+      for (const args of rejected) {
+        await expect(transport.send("update", args)).rejects.toBeInstanceOf(
+          args.parent ? NotFoundError : DaemonValidationError,
+        )
+      }
+
+      const issue = (await transport.send("show", { id: "bd-1" })) as Issue
+      expect(issue).toMatchObject({ title: "Test issue", status: "open", labels: ["old"] })
+      expect(issue.updated_at).toBe("2025-01-01T00:00:00Z")
+      expect(await transport.send("get_mutations", { since: 0 })).toEqual([])
+    })
+  })
+
+  describe("delete", () => {
+    it("removes the issue and dependencies pointing at it", async () => {
+      const transport = new MemoryTransport({
+        issues: [
+          makeIssue({ id: "bd-1" }),
+          makeIssue({
+            id: "bd-2",
+            dependencies: [
+              {
+                issue_id: "bd-2",
+                depends_on_id: "bd-1",
+                type: "blocks",
+                created_at: "2025-01-01T00:00:00Z",
+              },
+            ],
+          }),
+        ],
+      })
+      await transport.send("delete", { id: "bd-1", force: true })
+
+      await expect(transport.send("show", { id: "bd-1" })).rejects.toBeInstanceOf(NotFoundError)
+      expect(((await transport.send("show", { id: "bd-2" })) as Issue).dependencies).toEqual([])
+    })
+  })
+
+  describe("comments, labels and dependencies", () => {
+    it("adds and lists comments", async () => {
+      const transport = new MemoryTransport({ issues: [makeIssue()], actor: "tester" })
+      await transport.send("comment_add", { id: "bd-1", text: "First" })
+      await transport.send("comment_add", { id: "bd-1", text: "Second", author: "herb" })
+
+      const comments = (await transport.send("comment_list", { id: "bd-1" })) as Comment[]
+      expect(comments.map(c => [c.id, c.author, c.text])).toEqual([
+        [1, "tester", "First"],
+        [2, "herb", "Second"],
+      ])
+    })
+
+    it("adds, removes and lists labels", async () => {
+      const transport = new MemoryTransport({
+        issues: [makeIssue({ id: "bd-1" }), makeIssue({ id: "bd-2", labels: ["backend"] })],
+      })
+
+      expect(await transport.send("label_add", { id: "bd-1", label: "ui" })).toEqual<LabelResult>({
+        issue_id: "bd-1",
+        label: "ui",
+        status: "added",
+      })
+      expect(
+        ((await transport.send("label_add", { id: "bd-1", label: "ui" })) as LabelResult).status,
+      ).toBe("already_exists")
+      expect(await transport.send("label_list_all", {})).toEqual(["backend", "ui"])
+      expect(
+        ((await transport.send("label_remove", { id: "bd-1", label: "ui" })) as LabelResult).status,
+      ).toBe("removed")
+      expect(await transport.send("label_list", { id: "bd-1" })).toEqual([])
+    })
+
+    it("adds and removes blocking dependencies", async () => {
+      const transport = new MemoryTransport({
+        issues: [makeIssue({ id: "bd-1" }), makeIssue({ id: "bd-2" })],
+      })
+      const added = (await transport.send("dep_add", {
+        from_id: "bd-2",
+        to_id: "bd-1",
+      })) as DepResult
+      expect(added).toEqual({
+        issue_id: "bd-2",
+        depends_on_id: "bd-1",
+        status: "added",
+        type: "blocks",
+      })
+
+      const blocked = (await transport.send("blocked", {})) as BlockedIssue[]
+      expect(blocked.map(i => [i.id, i.blocked_by])).toEqual([["bd-2", ["bd-1"]]])
+      expect(((await transport.send("ready", {})) as Issue[]).map(i => i.id)).toEqual(["bd-1"])
+
+      await transport.send("dep_remove", { from_id: "bd-2", to_id: "bd-1" })
+      expect((await transport.send("blocked", {})) as BlockedIssue[]).toEqual([])
+    })
+  })
+
+  describe("get_mutations", () => {
+    it("records mutation events after the given timestamp", async () => {
+      const transport = new MemoryTransport({ issues: [makeIssue()], now: tickingClock() })
+      await transport.send("update", { id: "bd-1", title: "Renamed" })
+      await transport.send("close", { id: "bd-1" })
+
+      const all = (await transport.send("get_mutations", { since: 0 })) as MutationEvent[]
+      expect(all.map(m => m.Type)).toEqual(["update", "status"])
+      expect(all[1]).toMatchObject({ IssueID: "bd-1", old_status: "open", new_status: "closed" })
+
+      const since = Date.parse(all[0].Timestamp)
+      const recent = (await transport.send("get_mutations", { since })) as MutationEvent[]
+      expect(recent.map(m => m.Type)).toEqual(["status"])
+    })
+  })
+
+  it("keeps query results current as issues change", async () => {
+    const transport = new MemoryTransport({
+      issues: [
+        makeIssue({ id: "bd-1", labels: ["ui"] }),
+        makeIssue({ id: "bd-2", assignee: "alice" }),
+        makeIssue({ id: "bd-3" }),
+      ],
+    })
+    const ids = async (operation: string, args: Record<string, unknown> = {}) =>
+      ((await transport.send(operation, args)) as Issue[]).map(i => i.id)
+
+    await transport.send("dep_add", { from_id: "bd-3", to_id: "bd-1" })
+    expect(await ids("ready")).toEqual(["bd-1", "bd-2"])
+    expect(await ids("blocked")).toEqual(["bd-3"])
+
+    await transport.send("close", { id: "bd-1" })
+    expect(await ids("ready")).toEqual(["bd-2", "bd-3"])
+    expect(await ids("list", { status: "closed" })).toEqual(["bd-1"])
+    expect(await ids("list", { status: "open" })).toEqual(["bd-2", "bd-3"])
+
+    await transport.send("update", { id: "bd-2", assignee: "bob", add_labels: ["ui"] })
+    expect(await ids("list", { assignee: "alice" })).toEqual([])
+    expect(await ids("list", { assignee: "bob" })).toEqual(["bd-2"])
+    expect(await ids("list", { labels: ["ui"] })).toEqual(["bd-1", "bd-2"])
+
+    await transport.send("update", { id: "bd-3", parent: "bd-2" })
+    expect(await ids("ready", { parent_id: "bd-2" })).toEqual(["bd-3"])
+
+    await transport.send("delete", { id: "bd-2" })
+    expect(await ids("ready", { parent_id: "bd-2" })).toEqual([])
+    const shown = (await transport.send("show", { id: "bd-1" })) as Issue
+    expect(shown.dependents.map(d => d.id)).toEqual(["bd-3"])
+    expect(shown.dependent_count).toBe(1)
+  })
+
+  describe("sorting", () => {
+    const now = () => new Date("2025-06-10T00:00:00Z")
+    const issues = [
+      makeIssue({ id: "bd-old-p3", priority: 3, created_at: "2025-06-01T00:00:00Z" }),
+      makeIssue({ id: "bd-new-p2", priority: 2, created_at: "2025-06-09T12:00:00Z" }),
+      makeIssue({ id: "bd-older-p1", priority: 1, created_at: "2025-05-01T00:00:00Z" }),
+      makeIssue({ id: "bd-new-p0", priority: 0, created_at: "2025-06-09T18:00:00Z" }),
+    ]
+    const ids = async (operation: string, args: Record<string, unknown>) =>
+      ((await new MemoryTransport({ issues, now }).send(operation, args)) as Issue[]).map(i => i.id)
+
+    it("orders list, ready and blocked by sort keys", async () => {
+      expect(
+        await ids("list", {
+          sort: [{ field: "priority", direction: "desc" }, { field: "created_at" }],
+        }),
+      ).toEqual(["bd-old-p3", "bd-new-p2", "bd-older-p1", "bd-new-p0"])
+      expect(await ids("ready", { sort: { field: "created_at", direction: "desc" } })).toEqual([
+        "bd-new-p0",
+        "bd-new-p2",
+        "bd-old-p3",
+        "bd-older-p1",
+      ])
+      await expect(ids("list", { sort: { field: "nope" } })).rejects.toThrow(DaemonValidationError)
+    })
+
+    it("implements the daemon's ready sort policies", async () => {
+      expect(await ids("ready", { sort_policy: "priority" })).toEqual([
+        "bd-new-p0",
+        "bd-older-p1",
+        "bd-new-p2",
+        "bd-old-p3",
+      ])
+      expect(await ids("ready", { sort_policy: "oldest" })).toEqual([
+        "bd-older-p1",
+        "bd-old-p3",
+        "bd-new-p2",
+        "bd-new-p0",
+      ])
+      // Last 48 hours by priority, then the rest oldest first
+      expect(await ids("ready", {})).toEqual(["bd-new-p0", "bd-new-p2", "bd-older-p1", "bd-old-p3"])
+      await expect(ids("ready", { sort_policy: "random" })).rejects.toThrow(DaemonValidationError)
+    })
+  })
+
+  describe("date filters", () => {
+    const transport = new MemoryTransport({
+      issues: [
+        makeIssue({ id: "bd-jan", created_at: "2025-01-10T00:00:00Z" }),
+        makeIssue({
+          id: "bd-feb",
+          status: "closed",
+          created_at: "2025-02-10T00:00:00Z",
+          closed_at: "2025-03-01T00:00:00Z",
+          due_at: "2025-02-20T00:00:00Z",
+        }),
+        makeIssue({
+          id: "bd-mar",
+          created_at: "2025-03-10T00:00:00Z",
+          defer_until: "2025-04-01T00:00:00Z",
+          dependencies: [{ depends_on_id: "bd-feb", type: "blocks" }],
+        }),
+      ],
+    })
+    const ids = async (args: Record<string, unknown>) =>
+      ((await transport.send("list", args)) as Issue[]).map(i => i.id)
+
+    it("filters by half-open date ranges", async () => {
+      expect(await ids({ created_after: "2025-02-10T00:00:00Z" })).toEqual(["bd-feb", "bd-mar"])
+      expect(await ids({ created_before: "2025-02-10T00:00:00Z" })).toEqual(["bd-jan"])
+      expect(
+        await ids({
+          created_after: new Date("2025-02-01"),
+          created_before: new Date("2025-03-01"),
+        }),
+      ).toEqual(["bd-feb"])
+    })
+
+    it("skips issues without the timestamp", async () => {
+      expect(await ids({ closed_after: "2025-01-01" })).toEqual(["bd-feb"])
+      expect(await ids({ due_before: "2025-03-01" })).toEqual(["bd-feb"])
+      expect(await ids({ defer_after: "2025-03-15" })).toEqual(["bd-mar"])
+      await expect(ids({ updated_after: "last tuesday" })).rejects.toThrow(DaemonValidationError)
+    })
+
+    it("surfaces due and defer dates on issues", async () => {
+      const shown = (await transport.send("show", { id: "bd-feb" })) as Issue
+      expect(shown.due_at).toBe("2025-02-20T00:00:00Z")
+      expect(shown.dependents[0]).toMatchObject({
+        id: "bd-mar",
+        defer_until: "2025-04-01T00:00:00Z",
+      })
+      const blocked = (await transport.send("show", { id: "bd-mar" })) as Issue
+      expect(blocked.dependencies[0]).toMatchObject({
+        id: "bd-feb",
+        due_at: "2025-02-20T00:00:00Z",
+      })
+    })
+  })
+
+  it("computes stats", async () => {
+    const transport = new MemoryTransport({
+      issues: [makeIssue({ id: "bd-1" }), makeIssue({ id: "bd-2", status: "in_progress" })],
+    })
+    const stats = (await transport.send("stats", {})) as Stats
+    expect(stats.summary).toMatchObject({ total_issues: 2, open_issues: 1, in_progress_issues: 1 })
+  })
+
+  it("returns copies that don't alias the store", async () => {
+    const transport = new MemoryTransport({ issues: [makeIssue()] })
+    const issue = (await transport.send("show", { id: "bd-1" })) as Issue
+    issue.title = "Mutated"
+
+    expect(((await transport.send("show", { id: "bd-1" })) as Issue).title).toBe("Test issue")
+  })
+
+  it("backs a BeadsClient with full write support", async () => {
+    const transport = new MemoryTransport()
+    const client = new BeadsClient({ transport })
+    await client.connect()
+
+    const issue = await client.create({ title: "Via client", labels: ["sdk"] })
+    await client.update(issue.id, { status: "in_progress" })
+    await client.addComment(issue.id, "Working on it")
+
+    expect((await client.show(issue.id)).status).toBe("in_progress")
+    expect(await client.getComments(issue.id)).toHaveLength(1)
+    await client.disconnect()
+  })
+})
@@ -0,0 +1,156 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest"
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from "node:fs"
+import { join } from "node:path"
+import { mkdtempSync } from "node:fs"
+import { tmpdir } from "node:os"
+import { JsonlTransport } from "../jsonl.js"
+import { MemoryTransport } from "../memory.js"
+import { OfflineQueue, OfflineTransport } from "../offline.js"
+import { ConnectionRefusedError, NotFoundError } from "../../errors.js"
+import type { Issue, Transport } from "../../types.js"
+
+/** Create a minimal JSONL issue record. */
+function makeIssue(overrides: Record<string, unknown> = {}) {
+  return {
+    id: "bd-test.1",
+    title: "Test issue",
+    description: "A test issue",
+    status: "open",
+    priority: 2,
+    issue_type: "task",
+    labels: [],
+    created_at: "2025-01-01T00:00:00Z",
+    updated_at: "2025-01-01T00:00:00Z",
+    ...overrides,
+  }
+}
+
+describe("offline queue", () => {
+  let tempDir: string
+  let queuePath: string
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), "beads-offline-test-"))
+    mkdirSync(join(tempDir, ".beads"))
+    writeFileSync(
+      join(tempDir, ".beads", "issues.jsonl"),
+      JSON.stringify(makeIssue({ id: "bd-1" })),
+    )
+    queuePath = join(tempDir, ".beads", "offline-queue.jsonl")
+  })
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true })
+  })
+
+  /** An offline transport over the temp workspace's JSONL file. */
+  async function offlineTransport(queue: OfflineQueue): Promise<OfflineTransport> {
+    const jsonl = new JsonlTransport(tempDir)
+    await jsonl.load()
+    return new OfflineTransport(jsonl, queue)
+  }
+
+  describe("OfflineTransport", () => {
+    it("reflects queued writes in reads", async () => {
+      const transport = await offlineTransport(new OfflineQueue(queuePath))
+
+      const created = (await transport.send("create", { title: "Offline" })) as Issue
+      await transport.send("update", { id: "bd-1", status: "in_progress" })
+
+      const issues = (await transport.send("list", {})) as Issue[]
+      expect(issues.map(i => i.id)).toEqual(["bd-1", created.id])
+      expect(issues[0].status).toBe("in_progress")
+    })
+
+    it("persists writes durably and leaves the JSONL file alone", async () => {
+      const transport = await offlineTransport(new OfflineQueue(queuePath))
+      const created = (await transport.send("create", { title: "Offline" })) as Issue
+      await transport.send("label_add", { id: created.id, label: "later" })
+
+      const reloaded = new OfflineQueue(queuePath)
+      expect(reloaded.entries.map(e => e.operation)).toEqual(["create", "label_add"])
+      expect(reloaded.entries[0].local_id).toBe(created.id)
+      expect(readFileSync(join(tempDir, ".beads", "issues.jsonl"), "utf-8")).not.toContain(
+        "Offline",
+      )
+
+      // A fresh view over the same queue shows the same local ID
+      const shown = (await (
+        await offlineTransport(reloaded)
+      ).send("show", { id: created.id })) as Issue
+      expect(shown.labels).toEqual(["later"])
+    })
+
+    it("rejects invalid writes without queueing them", async () => {
+      const queue = new OfflineQueue(queuePath)
+      const transport = await offlineTransport(queue)
+
+      await expect(transport.send("close", { id: "bd-nope" })).rejects.toThrow(NotFoundError)
+      expect(queue.size).toBe(0)
+      expect(existsSync(queuePath)).toBe(false)
+    })
+  })
+
+  describe("replay", () => {
+    it("replays in order, mapping local IDs to the daemon's", async () => {
+      const queue = new OfflineQueue(queuePath)
+      const transport = await offlineTransport(queue)
+      const parent = (await transport.send("create", { title: "Parent" })) as Issue
+      const child = (await transport.send("create", { title: "Child" })) as Issue
+      await transport.send("dep_add", { from_id: child.id, to_id: parent.id, dep_type: "blocks" })
+
+      const daemon = new MemoryTransport({ issues: [makeIssue({ id: "bd-1" })], prefix: "real" })
+      const result = await queue.replay(daemon)
+
+      expect(result).toMatchObject({ replayed: 3, conflicts: [], remaining: 0 })
+      const realChild = result.ids[child.id]
+      expect(realChild).toMatch(/^real-/)
+      const blocked = (await daemon.send("show", { id: realChild })) as Issue
+      expect(blocked.dependencies?.map(d => d.id)).toEqual([result.ids[parent.id]])
+      expect(existsSync(queuePath)).toBe(false)
+    })
+
+    it("reports and drops writes the daemon rejects", async () => {
+      const queue = new OfflineQueue(queuePath)
+      const transport = await offlineTransport(queue)
+      await transport.send("update", { id: "bd-1", title: "Renamed" })
+      await transport.send("create", { title: "Still fine" })
+
+      // bd-1 was deleted on the daemon meanwhile
+      const daemon = new MemoryTransport()
+      const onConflict = vi.fn()
+      const result = await queue.replay(daemon, onConflict)
+
+      expect(result.replayed).toBe(1)
+      expect(result.conflicts).toHaveLength(1)
+      expect(onConflict).toHaveBeenCalledWith(
+        expect.objectContaining({
+          entry: expect.objectContaining({ operation: "update" }),
+          error: expect.any(NotFoundError),
+        }),
+      )
+      expect(queue.size).toBe(0)
+    })
+
+    it("stops at a transient failure, keeping the rest queued", async () => {
+      const queue = new OfflineQueue(queuePath)
+      const transport = await offlineTransport(queue)
+      await transport.send("update", { id: "bd-1", title: "One" })
+      await transport.send("update", { id: "bd-1", title: "Two" })
+
+      const memory = new MemoryTransport({ issues: [makeIssue({ id: "bd-1" })] })
+      let calls = 0
+      const flaky: Transport = {
+        send: async (operation, args) => {
+          if (++calls > 1) throw new ConnectionRefusedError("gone", { operation })
+          return memory.send(operation, args)
+        },
+        close: () => {},
+      }
+      const result = await queue.replay(flaky)
+
+      expect(result).toMatchObject({ replayed: 1, remaining: 1 })
+      expect(new OfflineQueue(queuePath).entries[0].args).toMatchObject({ title: "Two" })
+    })
+  })
+})
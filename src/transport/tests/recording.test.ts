@@ -0,0 +1,95 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest"
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs"
+import { join } from "node:path"
+import { tmpdir } from "node:os"
+import { RecordingTransport, ReplayTransport } from "../recording.js"
+import { MemoryTransport } from "../memory.js"
+import { ConnectionRefusedError, NotFoundError, ReplayMissError } from "../../errors.js"
+import type { Issue, Transport } from "../../types.js"
+
+describe("RecordingTransport and ReplayTransport", () => {
+  let tempDir: string
+  let cassettePath: string
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), "beads-recording-test-"))
+    cassettePath = join(tempDir, "session.jsonl")
+  })
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true })
+  })
+
+  it("records each request with its result or error", async () => {
+    const recorder = new RecordingTransport(new MemoryTransport({ prefix: "rec" }), cassettePath)
+    const created = (await recorder.send("create", { title: "Recorded" })) as Issue
+    await expect(recorder.send("show", { id: "rec-nope" })).rejects.toBeInstanceOf(NotFoundError)
+
+    const lines = readFileSync(cassettePath, "utf-8")
+      .trim()
+      .split("\n")
+      .map(l => JSON.parse(l))
+    expect(lines).toEqual([
+      { operation: "create", args: { title: "Recorded" }, result: created },
+      {
+        operation: "show",
+        args: { id: "rec-nope" },
+        error: { code: "NOT_FOUND", message: "Issue not found: rec-nope", operation: "show" },
+      },
+    ])
+  })
+
+  it("replays a recorded session", async () => {
+    const recorder = new RecordingTransport(new MemoryTransport(), cassettePath)
+    const created = (await recorder.send("create", { title: "Replayed" })) as Issue
+    await recorder.send("list", { status: "open", limit: 10 })
+    await expect(recorder.send("show", { id: "bd-nope" })).rejects.toThrow()
+
+    const replay = new ReplayTransport(cassettePath)
+    expect(await replay.send("create", { title: "Replayed" })).toEqual(created)
+    // Argument key order doesn't affect matching
+    expect(await replay.send("list", { limit: 10, status: "open" })).toEqual([created])
+    await expect(replay.send("show", { id: "bd-nope" })).rejects.toBeInstanceOf(NotFoundError)
+  })
+
+  it("replays whether a refused request may have reached the daemon", async () => {
+    const refused: Transport = {
+      send: async () => {
+        throw new ConnectionRefusedError("Daemon not running", { operation: "list", sent: false })
+      },
+      close: () => {},
+    }
+    const recorder = new RecordingTransport(refused, cassettePath)
+    await expect(recorder.send("list", {})).rejects.toThrow(ConnectionRefusedError)
+
+    const replay = new ReplayTransport(cassettePath)
+    await expect(replay.send("list", {})).rejects.toMatchObject({
+      code: "CONNECTION_REFUSED",
+      sent: false,
+    })
+  })
+
+  it("serves successive responses for repeated requests, then repeats the last", async () => {
+    writeFileSync(
+      cassettePath,
+      [
+        { operation: "stats", args: {}, result: { n: 1 } },
+        { operation: "stats", args: {}, result: { n: 2 } },
+      ]
+        .map(e => JSON.stringify(e))
+        .join("\n"),
+    )
+
+    const replay = new ReplayTransport(cassettePath)
+    expect(await replay.send("stats", {})).toEqual({ n: 1 })
+    expect(await replay.send("stats", {})).toEqual({ n: 2 })
+    expect(await replay.send("stats", {})).toEqual({ n: 2 })
+  })
+
+  it("throws ReplayMissError for unrecorded requests", async () => {
+    writeFileSync(cassettePath, JSON.stringify({ operation: "ping", args: {}, result: "pong" }))
+
+    const replay = new ReplayTransport(cassettePath)
+    await expect(replay.send("list", {})).rejects.toBeInstanceOf(ReplayMissError)
+  })
+})
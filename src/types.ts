@@ -37,6 +37,10 @@ export interface Issue {
   acceptance_criteria?: string
   notes?: string
   external_ref?: string
+  /** When the issue is due (ISO 8601) */
+  due_at?: string
+  /** The issue is deferred until this time (ISO 8601) */
+  defer_until?: string
   dependency_count: number
   dependent_count: number
   dependencies: LinkedIssue[]
@@ -56,6 +60,10 @@ export interface LinkedIssue {
   created_at: string
   updated_at: string
   closed_at?: string
+  /** When the issue is due (ISO 8601) */
+  due_at?: string
+  /** The issue is deferred until this time (ISO 8601) */
+  defer_until?: string
   dependency_type?: DepType
   dependency_count: number
   dependent_count: number
@@ -106,6 +114,22 @@ export interface HealthStatus {
   memory_bytes: number
 }
 
+/** Field to sort issues by. */
+export type SortField =
+  | "priority"
+  | "created_at"
+  | "updated_at"
+  | "closed_at"
+  | "title"
+  | "dependent_count"
+
+/** Sort key: a field and a direction. */
+export interface SortSpec {
+  field: SortField
+  /** Default: "asc" (for priority, P0 first) */
+  direction?: "asc" | "desc"
+}
+
 /** Filter for list operations. */
 export interface ListFilter {
   status?: Status
@@ -116,7 +140,33 @@ export interface ListFilter {
   labels_any?: string[]
   query?: string
   unassigned?: boolean
+  /** Created at or after this time (ISO 8601 string or Date) */
+  created_after?: string | Date
+  /** Created before this time */
+  created_before?: string | Date
+  /** Last updated at or after this time */
+  updated_after?: string | Date
+  /** Last updated before this time */
+  updated_before?: string | Date
+  /** Closed at or after this time (excludes issues that aren't closed) */
+  closed_after?: string | Date
+  /** Closed before this time (excludes issues that aren't closed) */
+  closed_before?: string | Date
+  /** Due at or after this time (excludes issues without a due date) */
+  due_after?: string | Date
+  /** Due before this time (excludes issues without a due date) */
+  due_before?: string | Date
+  /** Deferred until a time at or after this one (excludes issues that aren't deferred) */
+  defer_after?: string | Date
+  /** Deferred until a time before this one (excludes issues that aren't deferred) */
+  defer_before?: string | Date
+  /** Sort keys, most significant first (default: the daemon's order) */
+  sort?: SortSpec | SortSpec[]
   limit?: number
+  /** Skip this many results (default: 0); ignored if `after` is among the results */
+  offset?: number
+  /** Start right after the issue with this ID, if it's among the results */
+  after?: string
 }
 
 /** Filter for ready operations. */
@@ -127,13 +177,26 @@ export interface ReadyFilter {
   labels_any?: string[]
   unassigned?: boolean
   sort_policy?: "hybrid" | "priority" | "oldest"
+  /** Sort keys, most significant first; overrides `sort_policy` */
+  sort?: SortSpec | SortSpec[]
   limit?: number
+  /** Skip this many results (default: 0); ignored if `after` is among the results */
+  offset?: number
+  /** Start right after the issue with this ID, if it's among the results */
+  after?: string
   parent_id?: string
 }
 
 /** Filter for blocked operations. */
 export interface BlockedFilter {
   parent_id?: string
+  /** Sort keys, most significant first (default: the daemon's order) */
+  sort?: SortSpec | SortSpec[]
+  limit?: number
+  /** Skip this many results (default: 0); ignored if `after` is among the results */
+  offset?: number
+  /** Start right after the issue with this ID, if it's among the results */
+  after?: string
 }
 
 /** Input for creating issues. */
@@ -166,20 +229,84 @@ export interface UpdateInput {
   remove_labels?: string[]
 }
 
-/** Transport abstraction for communicating with the beads daemon or JSONL store. */
+/** Per-request options accepted by transports and client methods. */
+export interface RequestOptions {
+  /**
+   * Mark a mutating request as safe to retry after a transient failure (e.g. an update that
+   * sets absolute values). Read operations are always retryable; writes are not by default.
+   */
+  idempotent?: boolean
+  /** Cancels the request; in-flight sockets are destroyed and the call rejects with `AbortedError` */
+  signal?: AbortSignal
+  /** Timeout for this request in ms, overriding the transport's default */
+  timeout?: number
+}
+
+/** Arguments and result of each daemon operation, keyed by operation name. */
+export interface OperationMap {
+  ping: { args: NoArgs; result: { message: string; version: string } }
+  health: { args: NoArgs; result: HealthStatus }
+  stats: { args: NoArgs; result: Stats }
+  info: { args: NoArgs; result: Info }
+  list: { args: ListFilter; result: Issue[] }
+  show: { args: { id: string }; result: Issue }
+  ready: { args: ReadyFilter; result: Issue[] }
+  blocked: { args: BlockedFilter; result: BlockedIssue[] }
+  get_mutations: { args: { since?: number }; result: MutationEvent[] | null }
+  create: { args: CreateInput; result: Issue }
+  update: { args: UpdateInput & { id: string }; result: Issue }
+  close: { args: { id: string; reason?: string }; result: Issue }
+  delete: { args: { id: string; force?: boolean }; result: unknown }
+  comment_add: { args: { id: string; text: string; author?: string }; result: Comment }
+  comment_list: { args: { id: string }; result: Comment[] }
+  label_add: { args: { id: string; label: string }; result: LabelResult }
+  label_remove: { args: { id: string; label: string }; result: LabelResult }
+  label_list: { args: { id: string }; result: string[] }
+  label_list_all: { args: NoArgs; result: string[] }
+  dep_add: { args: { from_id: string; to_id: string; dep_type?: DepType }; result: DepResult }
+  dep_remove: { args: { from_id: string; to_id: string; dep_type?: DepType }; result: DepResult }
+}
+
+/** Arguments of an operation that takes none. */
+export type NoArgs = Record<string, never>
+
+/** Name of an operation in the OperationMap. */
+export type Operation = keyof OperationMap
+
+/** Arguments of an operation; untyped for operations the map doesn't describe. */
+export type OperationArgs<K extends string> =
+  K extends Operation ? OperationMap[K]["args"] : Record<string, unknown>
+
+/** Result of an operation; `unknown` for operations the map doesn't describe. */
+export type OperationResult<K extends string> =
+  K extends Operation ? OperationMap[K]["result"] : unknown
+
+/**
+ * Transport abstraction for communicating with the beads daemon or JSONL store.
+ * `send` is typed by the OperationMap: known operations take and return the
+ * documented shapes, and any other operation name passes through untyped.
+ */
 export interface Transport {
   /** Send an operation and return the result. */
-  send(
+  send<K extends string>(
     /** Operation name (e.g. "list", "show", "create") */
-    operation: string,
+    operation: K,
     /** Operation arguments */
-    args: Record<string, unknown>,
-  ): Promise<unknown>
+    args: OperationArgs<K>,
+    /** Per-request options */
+    options?: RequestOptions,
+  ): Promise<OperationResult<K>>
 
   /** Clean up resources. */
   close(): void
 }
 
+/**
+ * Which data source a client is using: the daemon, the JSONL fallback, or
+ * neither (not connected, or the daemon went away and there is no JSONL file).
+ */
+export type ConnectionState = "daemon" | "fallback" | "disconnected"
+
 /** Raw dependency record from JSONL file. */
 export interface RawJsonlDependency {
   issue_id: string
@@ -248,6 +375,23 @@ export interface MutationEvent {
   Actor?: string
 }
 
+/** What changed, as delivered to `BeadsClient.onChange` subscribers. */
+export interface ChangeSet {
+  /** IDs of issues created */
+  created: string[]
+  /** IDs of issues modified (fields, status, labels, dependencies or comments) */
+  updated: string[]
+  /** IDs of issues deleted */
+  deleted: string[]
+  /** The daemon's mutation events behind the change, when it was detected through `get_mutations` */
+  mutations: MutationEvent[]
+  /**
+   * True when the source couldn't tell what changed (e.g. a daemon without
+   * `get_mutations`, or a switch between daemon and JSONL): refetch everything
+   */
+  refetch: boolean
+}
+
 /** Entry stored in the beads registry file (~/.beads/registry.json). */
 export interface RegistryEntry {
   workspace_path: string
@@ -280,8 +424,10 @@ export interface RawJsonlIssue {
   assignee?: string
   labels?: string[]
   created_at: string
+  created_by?: string
   updated_at: string
   closed_at?: string
+  close_reason?: string
   design?: string
   acceptance_criteria?: string
   notes?: string
@@ -295,3 +441,22 @@ export interface RawJsonlIssue {
   dependency_count?: number
   dependent_count?: number
 }
+
+/** A problem found on one line of a JSONL file. */
+export interface JsonlDiagnostic {
+  /** 1-based line number */
+  line: number
+  /**
+   * - `invalid_json`: the line isn't valid JSON (or isn't an object)
+   * - `missing_field`: a required field (`id`, `title`, `status`) is missing; the record is skipped
+   * - `invalid_field`: a field has the wrong type (only when validating); the record is skipped
+   * - `duplicate_id`: the ID already appeared on an earlier line; the later record wins
+   */
+  kind: "invalid_json" | "missing_field" | "invalid_field" | "duplicate_id"
+  /** Human-readable description */
+  message: string
+  /** Issue ID, when it could be determined */
+  id?: string
+  /** The missing or invalid field, for `missing_field` and `invalid_field` */
+  field?: string
+}
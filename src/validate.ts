@@ -0,0 +1,350 @@
+import { SchemaValidationError } from "./errors.js"
+import type { Middleware } from "./middleware.js"
+import type {
+  Issue,
+  LinkedIssue,
+  BlockedIssue,
+  Stats,
+  HealthStatus,
+  Comment,
+  LabelResult,
+  DepResult,
+  Info,
+  MutationEvent,
+  RawJsonlIssue,
+  RawJsonlDependency,
+} from "./types.js"
+
+/**
+ * Checks that an unknown value has the expected shape and returns it typed,
+ * or throws a SchemaValidationError naming the offending field.
+ */
+export type Validator<T> = (
+  /** Value to check */
+  value: unknown,
+  /** Path of the value, used in error messages (e.g. `issue.dependencies[0]`) */
+  path?: string,
+) => T
+
+// ── Primitives ───────────────────────────────────────────────────────
+
+/** Describe a value's type for error messages. */
+function describe(value: unknown): string {
+  if (value === null) return "null"
+  if (Array.isArray(value)) return "array"
+  if (typeof value === "string") return `string ${JSON.stringify(value.slice(0, 40))}`
+  if (typeof value === "number") return `number ${value}`
+  return typeof value
+}
+
+/** Throw a SchemaValidationError for a value that doesn't match. */
+function fail(path: string, expected: string, value: unknown): never {
+  throw new SchemaValidationError(`${path}: expected ${expected}, got ${describe(value)}`, {
+    path,
+    expected,
+  })
+}
+
+const string: Validator<string> = (value, path = "value") =>
+  typeof value === "string" ? value : fail(path, "string", value)
+
+const number: Validator<number> = (value, path = "value") =>
+  typeof value === "number" && Number.isFinite(value) ? value : fail(path, "number", value)
+
+const integer: Validator<number> = (value, path = "value") =>
+  Number.isInteger(value) ? (value as number) : fail(path, "integer", value)
+
+const boolean: Validator<boolean> = (value, path = "value") =>
+  typeof value === "boolean" ? value : fail(path, "boolean", value)
+
+/** Allow `undefined` (or `null`, which the daemon sends for empty Go values). */
+function optional<T>(validator: Validator<T>): Validator<T | undefined> {
+  return (value, path) =>
+    value === undefined || value === null ? undefined : validator(value, path)
+}
+
+/** An array whose items all match. */
+function arrayOf<T>(validator: Validator<T>): Validator<T[]> {
+  return (value, path = "value") => {
+    if (!Array.isArray(value)) return fail(path, "array", value)
+    value.forEach((item, i) => validator(item, `${path}[${i}]`))
+    return value as T[]
+  }
+}
+
+/** An object whose listed fields match; unlisted fields are allowed and passed through. */
+function object<T>(shape: { [K in keyof T]-?: Validator<T[K]> }): Validator<T> {
+  return (value, path = "value") => {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      return fail(path, "object", value)
+    }
+    const record = value as Record<string, unknown>
+    for (const key of Object.keys(shape) as Array<keyof T & string>) {
+      shape[key](record[key], `${path}.${key}`)
+    }
+    return value as T
+  }
+}
+
+/** Parameterize a validator's default path. */
+function named<T>(validator: Validator<T>, name: string): Validator<T> {
+  return (value, path = name) => validator(value, path)
+}
+
+// ── Schemas ──────────────────────────────────────────────────────────
+
+const priority = ((value, path = "value") =>
+  Number.isInteger(value) && (value as number) >= 0 && (value as number) <= 4 ?
+    value
+  : fail(path, "priority 0-4", value)) as Validator<Issue["priority"]>
+
+const linkedIssue = object<LinkedIssue>({
+  id: string,
+  title: string,
+  description: optional(string) as Validator<string>,
+  status: string,
+  priority,
+  issue_type: string,
+  assignee: optional(string),
+  labels: optional(arrayOf(string)) as Validator<string[]>,
+  created_at: string,
+  updated_at: string,
+  closed_at: optional(string),
+  due_at: optional(string),
+  defer_until: optional(string),
+  dependency_type: optional(string) as Validator<LinkedIssue["dependency_type"]>,
+  dependency_count: optional(integer) as Validator<number>,
+  dependent_count: optional(integer) as Validator<number>,
+})
+
+const issueShape = {
+  id: string,
+  title: string,
+  description: optional(string) as Validator<string>,
+  status: string,
+  priority,
+  issue_type: string,
+  assignee: optional(string),
+  owner: optional(string),
+  labels: optional(arrayOf(string)) as Validator<string[]>,
+  created_at: string,
+  created_by: optional(string),
+  updated_at: string,
+  closed_at: optional(string),
+  parent: optional(string),
+  design: optional(string),
+  acceptance_criteria: optional(string),
+  notes: optional(string),
+  external_ref: optional(string),
+  due_at: optional(string),
+  defer_until: optional(string),
+  dependency_count: optional(integer) as Validator<number>,
+  dependent_count: optional(integer) as Validator<number>,
+  dependencies: optional(arrayOf(linkedIssue)) as Validator<LinkedIssue[]>,
+  dependents: optional(arrayOf(linkedIssue)) as Validator<LinkedIssue[]>,
+}
+
+const issue = object<Issue>(issueShape)
+
+const blockedIssue = object<BlockedIssue>({
+  ...issueShape,
+  blocked_by: optional(arrayOf(string)) as Validator<string[]>,
+  blocked_by_count: optional(integer) as Validator<number>,
+})
+
+const stats = object<Stats>({
+  summary: object<Stats["summary"]>({
+    total_issues: integer,
+    open_issues: integer,
+    in_progress_issues: integer,
+    closed_issues: integer,
+    blocked_issues: integer,
+    deferred_issues: integer,
+    ready_issues: integer,
+    average_lead_time_hours: number,
+  }),
+  recent_activity: optional(
+    object<NonNullable<Stats["recent_activity"]>>({
+      hours_tracked: number,
+      commit_count: integer,
+      issues_created: integer,
+      issues_closed: integer,
+      issues_updated: integer,
+      issues_reopened: integer,
+      total_changes: integer,
+    }),
+  ),
+})
+
+const healthStatus = object<HealthStatus>({
+  status: string,
+  version: string,
+  uptime: number,
+  db_response_time_ms: number,
+  active_connections: integer,
+  memory_bytes: number,
+})
+
+const comment = object<Comment>({
+  id: integer,
+  issue_id: string,
+  author: string,
+  text: string,
+  created_at: string,
+})
+
+const labelResult = object<LabelResult>({
+  issue_id: string,
+  label: string,
+  status: string as Validator<LabelResult["status"]>,
+})
+
+const depResult = object<DepResult>({
+  issue_id: string,
+  depends_on_id: string,
+  status: string as Validator<DepResult["status"]>,
+  type: optional(string),
+})
+
+const info = object<Info>({
+  database_path: string,
+  issue_count: integer,
+  mode: string,
+  daemon_connected: boolean,
+  daemon_status: optional(string),
+  daemon_version: optional(string),
+  socket_path: optional(string),
+  config: optional(object<Record<string, string>>({})),
+})
+
+const mutationEvent = object<MutationEvent>({
+  Timestamp: string,
+  Type: string as Validator<MutationEvent["Type"]>,
+  IssueID: string,
+  Title: optional(string),
+  old_status: optional(string),
+  new_status: optional(string),
+  parent_id: optional(string),
+  Actor: optional(string),
+})
+
+const rawDependency = object<RawJsonlDependency>({
+  issue_id: string,
+  depends_on_id: string,
+  type: string,
+  created_at: optional(string) as Validator<string>,
+  created_by: optional(string),
+})
+
+const rawJsonlIssue = object<RawJsonlIssue>({
+  id: string,
+  title: string,
+  description: optional(string),
+  status: string,
+  priority: integer,
+  issue_type: string,
+  assignee: optional(string),
+  labels: optional(arrayOf(string)),
+  created_at: string,
+  created_by: optional(string),
+  updated_at: string,
+  closed_at: optional(string),
+  close_reason: optional(string),
+  design: optional(string),
+  acceptance_criteria: optional(string),
+  notes: optional(string),
+  external_ref: optional(string),
+  estimated_minutes: optional(number),
+  due_at: optional(string),
+  defer_until: optional(string),
+  owner: optional(string),
+  metadata: optional(object<Record<string, unknown>>({})),
+  dependencies: optional(arrayOf(rawDependency)),
+  dependency_count: optional(integer),
+  dependent_count: optional(integer),
+})
+
+/** Validate an issue (as returned by `show`, `create`, `update`, ...). */
+export const validateIssue = named(issue, "issue")
+
+/** Validate a linked issue (an entry in `dependencies` or `dependents`). */
+export const validateLinkedIssue = named(linkedIssue, "linked_issue")
+
+/** Validate a blocked issue. */
+export const validateBlockedIssue = named(blockedIssue, "blocked_issue")
+
+/** Validate a stats response. */
+export const validateStats = named(stats, "stats")
+
+/** Validate a health response. */
+export const validateHealthStatus = named(healthStatus, "health")
+
+/** Validate a comment. */
+export const validateComment = named(comment, "comment")
+
+/** Validate a label operation result. */
+export const validateLabelResult = named(labelResult, "label_result")
+
+/** Validate a dependency operation result. */
+export const validateDepResult = named(depResult, "dep_result")
+
+/** Validate an info response. */
+export const validateInfo = named(info, "info")
+
+/** Validate a mutation event. */
+export const validateMutationEvent = named(mutationEvent, "mutation")
+
+/** Validate a raw issue record from `issues.jsonl`. */
+export const validateRawJsonlIssue = named(rawJsonlIssue, "record")
+
+/** Validator for the result of each operation with a typed response. */
+const RESPONSE_VALIDATORS: Record<string, Validator<unknown>> = {
+  list: arrayOf(issue),
+  show: issue,
+  ready: arrayOf(issue),
+  blocked: arrayOf(blockedIssue),
+  stats,
+  health: healthStatus,
+  ping: object<{ message: string; version: string }>({ message: string, version: string }),
+  info,
+  get_mutations: optional(arrayOf(mutationEvent)),
+  create: issue,
+  update: issue,
+  close: issue,
+  comment_list: arrayOf(comment),
+  label_add: labelResult,
+  label_remove: labelResult,
+  label_list: arrayOf(string),
+  label_list_all: arrayOf(string),
+  dep_add: depResult,
+  dep_remove: depResult,
+}
+
+/**
+ * Validate an operation's result against the expected response shape.
+ * Operations without a typed response are passed through unchecked.
+ */
+export function validateResponse(
+  /** Operation name */
+  operation: string,
+  /** The result to check */
+  result: unknown,
+): unknown {
+  const validator = RESPONSE_VALIDATORS[operation]
+  if (!validator) return result
+  try {
+    return validator(result, operation)
+  } catch (err) {
+    if (!(err instanceof SchemaValidationError)) throw err
+    throw new SchemaValidationError(`Invalid "${operation}" response: ${err.message}`, {
+      operation,
+      path: err.path,
+      expected: err.expected,
+    })
+  }
+}
+
+/** Middleware that validates every response with `validateResponse`. */
+export function validationMiddleware(): Middleware {
+  return async (context, next) => validateResponse(context.operation, await next())
+}